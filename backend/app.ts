@@ -11,6 +11,14 @@ import authRouter from './routes/auth'
 import userRouter from './routes/user'
 import errorHandler from './utils/errorHandler'
 import statusRouter from './routes/statuses'
+import interviewRouter from './routes/interviews'
+import emailTemplateRouter from './routes/emailTemplates'
+import auditRouter from './routes/audit'
+import archiveRouter from './routes/archives'
+import admissionRoundRouter from './routes/admissionRounds'
+import committeeQuestionRouter from './routes/committeeQuestions'
+import startScheduler from './utils/scheduler'
+import { backfillNormalizedContactFields } from './utils/duplicates'
 
 dotenv.config()
 
@@ -19,7 +27,20 @@ console.log('📡 API_URI set to', axios.defaults.baseURL)
 
 const app = express()
 
-connectDB()
+connectDB().then(() => {
+	backfillNormalizedContactFields()
+		.then((count) => {
+			if (count)
+				console.log(`🔎 Normalized the contact details of ${count} applications`)
+		})
+		.catch((error) =>
+			console.error(
+				'🔎 Could not normalize the contact details of applications',
+				error
+			)
+		)
+	startScheduler()
+})
 
 // Set up middleware
 app.use(cookieParser())
@@ -33,6 +54,12 @@ app.use('/applications', applicationRouter)
 app.use('/statuses', statusRouter)
 app.use('/committees', committeeRouter)
 app.use('/user', userRouter)
+app.use('/interviews', interviewRouter)
+app.use('/email-templates', emailTemplateRouter)
+app.use('/audit', auditRouter)
+app.use('/archives', archiveRouter)
+app.use('/admission-rounds', admissionRoundRouter)
+app.use('/committee-questions', committeeQuestionRouter)
 
 // Error handling middleware
 app.use(errorHandler)
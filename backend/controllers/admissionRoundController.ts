@@ -0,0 +1,215 @@
+import { NextFunction, Request, Response } from 'express'
+import { CustomError, UnauthorizedUserError } from 'ntnui-tools/customError'
+import { AdmissionRoundModel } from '../models/AdmissionRound'
+import { ApplicationModel } from '../models/Application'
+import { CommitteeModel } from '../models/Committee'
+import { authorize, getPermissionUser } from '../utils/permissions'
+import { RequestWithNtnuiNo } from '../utils/request'
+import {
+	checkAdmissionRoundOverlap,
+	getActiveAdmissionRound,
+	validateDateString,
+} from '../utils/admissionRound'
+import {
+	DEFAULT_TIME_ZONE,
+	getAdmissionRoundInstants,
+	isValidTimeZone,
+} from '../utils/admissionDates'
+import logAuditEvent from '../utils/auditLog'
+import { AuditActions } from '../utils/enums'
+
+// Only main board can manage the admission rounds
+async function checkAdmissionRoundAccess(ntnuiNo: number | string) {
+	authorize(await getPermissionUser(ntnuiNo), 'manage_admission_rounds')
+}
+
+/**
+ * Validate the admission round in the request body. The rounds can not
+ * overlap.
+ */
+async function parseAdmissionRound(
+	body: Record<string, unknown>,
+	roundId?: string
+) {
+	const name = typeof body.name === 'string' ? body.name.trim() : ''
+	if (!name || name.length > 100) {
+		throw new CustomError('The name must be between 1 and 100 characters', 400)
+	}
+	const startDate = validateDateString(String(body.start_date))
+	const endDate = validateDateString(String(body.end_date))
+	const timeZone =
+		typeof body.time_zone === 'string' && body.time_zone
+			? body.time_zone
+			: DEFAULT_TIME_ZONE
+	if (!isValidTimeZone(timeZone)) {
+		throw new CustomError('The time zone is invalid', 400)
+	}
+	if (startDate >= endDate) {
+		throw new CustomError(
+			"The start date can't be the same or after the end date",
+			400
+		)
+	}
+	const committees = Array.isArray(body.committees)
+		? Array.from(new Set(body.committees.map(Number)))
+		: []
+	if (
+		!committees.length ||
+		(await CommitteeModel.countDocuments({ _id: { $in: committees } })) !==
+			committees.length
+	) {
+		throw new CustomError('The committees are invalid', 400)
+	}
+	const instants = getAdmissionRoundInstants(startDate, endDate, timeZone)
+	await checkAdmissionRoundOverlap(instants, roundId ? [roundId] : [])
+	return {
+		name,
+		start_date: startDate,
+		end_date: endDate,
+		time_zone: timeZone,
+		...instants,
+		committees,
+	}
+}
+
+const getAdmissionRounds = async (
+	req: RequestWithNtnuiNo,
+	res: Response,
+	next: NextFunction
+) => {
+	try {
+		if (!req.ntnuiNo) throw UnauthorizedUserError
+		const [admissionRounds, applicationCounts] = await Promise.all([
+			AdmissionRoundModel.find().sort({ opens_at: -1 }).lean(),
+			ApplicationModel.aggregate<{ _id: string; count: number }>([
+				{ $group: { _id: '$admission_round', count: { $sum: 1 } } },
+			]),
+		])
+		const counts = new Map(
+			applicationCounts.map((count) => [String(count._id), count.count])
+		)
+		return res.status(200).json({
+			admissionRounds: admissionRounds.map((round) => ({
+				...round,
+				number_of_applications: counts.get(String(round._id)) || 0,
+			})),
+		})
+	} catch (error) {
+		return next(error)
+	}
+}
+
+const getActiveRound = async (
+	req: Request,
+	res: Response,
+	next: NextFunction
+) => {
+	try {
+		const admissionRound = await getActiveAdmissionRound()
+		if (!admissionRound) {
+			throw new CustomError('There is no active admission round', 404)
+		}
+		return res.status(200).json({ admissionRound })
+	} catch (error) {
+		return next(error)
+	}
+}
+
+const postAdmissionRound = async (
+	req: RequestWithNtnuiNo,
+	res: Response,
+	next: NextFunction
+) => {
+	try {
+		const { ntnuiNo } = req
+		if (!ntnuiNo) throw UnauthorizedUserError
+		await checkAdmissionRoundAccess(ntnuiNo)
+		const admissionRound = await AdmissionRoundModel.create(
+			await parseAdmissionRound(req.body)
+		)
+		await logAuditEvent(ntnuiNo, {
+			action: AuditActions.CREATE_ADMISSION_ROUND,
+			target_type: 'admission_round',
+			target_id: admissionRound._id,
+			after: admissionRound,
+		})
+		return res.status(201).json({ admissionRound })
+	} catch (error) {
+		return next(error)
+	}
+}
+
+const putAdmissionRound = async (
+	req: RequestWithNtnuiNo,
+	res: Response,
+	next: NextFunction
+) => {
+	try {
+		const { ntnuiNo } = req
+		if (!ntnuiNo) throw UnauthorizedUserError
+		await checkAdmissionRoundAccess(ntnuiNo)
+		const previousRound = await AdmissionRoundModel.findById(
+			req.params.roundId
+		).catch(() => {
+			throw new CustomError('Invalid admission round id', 400)
+		})
+		if (!previousRound) throw new CustomError('Admission round not found', 404)
+		const admissionRound = await AdmissionRoundModel.findByIdAndUpdate(
+			previousRound._id,
+			await parseAdmissionRound(req.body, req.params.roundId),
+			{ new: true }
+		)
+		await logAuditEvent(ntnuiNo, {
+			action: AuditActions.UPDATE_ADMISSION_ROUND,
+			target_type: 'admission_round',
+			target_id: previousRound._id,
+			before: previousRound,
+			after: admissionRound,
+		})
+		return res.status(200).json({ admissionRound })
+	} catch (error) {
+		return next(error)
+	}
+}
+
+const deleteAdmissionRound = async (
+	req: RequestWithNtnuiNo,
+	res: Response,
+	next: NextFunction
+) => {
+	try {
+		const { ntnuiNo } = req
+		if (!ntnuiNo) throw UnauthorizedUserError
+		await checkAdmissionRoundAccess(ntnuiNo)
+		const admissionRound = await AdmissionRoundModel.findById(
+			req.params.roundId
+		).catch(() => {
+			throw new CustomError('Invalid admission round id', 400)
+		})
+		if (!admissionRound) throw new CustomError('Admission round not found', 404)
+		if (await ApplicationModel.exists({ admission_round: admissionRound._id })) {
+			throw new CustomError(
+				'An admission round with applications can not be deleted',
+				409
+			)
+		}
+		await admissionRound.deleteOne()
+		await logAuditEvent(ntnuiNo, {
+			action: AuditActions.DELETE_ADMISSION_ROUND,
+			target_type: 'admission_round',
+			target_id: admissionRound._id,
+			before: admissionRound,
+		})
+		return res.status(200).json({ message: 'Admission round deleted' })
+	} catch (error) {
+		return next(error)
+	}
+}
+
+export {
+	getAdmissionRounds,
+	getActiveRound,
+	postAdmissionRound,
+	putAdmissionRound,
+	deleteAdmissionRound,
+}
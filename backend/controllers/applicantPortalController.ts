@@ -0,0 +1,225 @@
+import dayjs from 'dayjs'
+import { NextFunction, Request, Response } from 'express'
+import { CustomError } from 'ntnui-tools/customError'
+import { ApplicantPortalLinkModel } from '../models/ApplicantPortalLink'
+import { ApplicationModel } from '../models/Application'
+import { AdmissionRoundModel } from '../models/AdmissionRound'
+import { CommitteeModel } from '../models/Committee'
+import { InterviewInvitationModel } from '../models/InterviewInvitation'
+import { InterviewSlotModel } from '../models/InterviewSlot'
+import { StatusModel } from '../models/Status'
+import { StatusHistoryModel } from '../models/StatusHistory'
+import { sendApplicantPortalLink } from '../mail'
+import createApplicantPortalLink from '../utils/applicantPortal'
+import { PORTAL_LINK_INTERVAL_MINUTES } from '../utils/constants'
+import { AuditActions, StatusTypes } from '../utils/enums'
+import { isWithdrawable } from '../utils/statusTransitions'
+import { hashToken } from '../utils/token'
+import logAuditEvent from '../utils/auditLog'
+
+async function getApplicationByToken(token: string) {
+	const link = await ApplicantPortalLinkModel.findOne({
+		token_hash: hashToken(token),
+		expires_date: { $gt: new Date() },
+	})
+	if (!link) throw new CustomError('Could not find application', 404)
+	const application = await ApplicationModel.findById(link.application)
+	if (!application) throw new CustomError('Could not find application', 404)
+	return application
+}
+
+// The application can only be changed while its admission round is open
+async function isAdmissionRoundOpen(roundId: unknown) {
+	if (!roundId) return false
+	const round = await AdmissionRoundModel.findById(roundId)
+	const now = new Date()
+	return !!round && round.opens_at <= now && now < round.closes_at
+}
+
+const getApplicantPortal = async (
+	req: Request,
+	res: Response,
+	next: NextFunction
+) => {
+	try {
+		const application = await getApplicationByToken(req.params.token)
+		const committees = await CommitteeModel.find({
+			_id: { $in: application.committees },
+		}).select('name')
+		const statuses = await StatusModel.find({
+			_id: { $in: application.statuses },
+		})
+		// Show the committees in the order the applicant ranked them
+		const committeeIds = application.priorities.length
+			? application.priorities
+			: application.committees
+		// The applicant only sees whether they have withdrawn, the progress
+		// of the committees is told by mail
+		return res.status(200).json({
+			name: application.name,
+			email: application.email,
+			phone_number: application.phone_number,
+			text: application.text,
+			submitted_date: application.submitted_date,
+			can_edit: await isAdmissionRoundOpen(application.admission_round),
+			committees: committeeIds.map((committeeId) => {
+				const status = statuses.find((stat) => stat.committee === committeeId)
+				return {
+					_id: committeeId,
+					name: committees.find((committee) => committee._id === committeeId)?.name,
+					withdrawn: status?.value === StatusTypes.WITHDRAWN,
+					can_withdraw: !!status && isWithdrawable(status.value),
+				}
+			}),
+			answers: application.answers,
+			attachments: application.attachments.map((attachment) => ({
+				file_name: attachment.file_name,
+				size: attachment.size,
+			})),
+		})
+	} catch (error) {
+		return next(error)
+	}
+}
+
+const putApplicantPortalText = async (
+	req: Request,
+	res: Response,
+	next: NextFunction
+) => {
+	try {
+		const application = await getApplicationByToken(req.params.token)
+		if (!(await isAdmissionRoundOpen(application.admission_round))) {
+			throw new CustomError(
+				'The application can not be changed after the admission has closed',
+				409
+			)
+		}
+		const text = typeof req.body.text === 'string' ? req.body.text.trim() : ''
+		if (text.length > 2500) {
+			throw new CustomError(
+				'The application text can be at most 2500 characters',
+				400
+			)
+		}
+		application.text = text
+		await application.save()
+		return res.status(200).json({ text: application.text })
+	} catch (error) {
+		return next(error)
+	}
+}
+
+/**
+ * # Withdrawing the application from a committee
+ * 1. The committee can not have made its final decision
+ * 2. Any interview booked with the committee is released, and the
+ *    interview link can no longer be used
+ */
+const postApplicantPortalWithdrawal = async (
+	req: Request,
+	res: Response,
+	next: NextFunction
+) => {
+	try {
+		const application = await getApplicationByToken(req.params.token)
+		const committee = Number(req.body.committee)
+		const status = await StatusModel.findOne({
+			_id: { $in: application.statuses },
+			committee,
+		})
+		if (!status) {
+			throw new CustomError('The application is not sent to this committee', 400)
+		}
+		if (!isWithdrawable(status.value)) {
+			throw new CustomError(
+				'The application can not be withdrawn after the committee has decided',
+				409
+			)
+		}
+		const previousValue = status.value
+		status.value = StatusTypes.WITHDRAWN
+		status.set_by = application.name
+		await status.save()
+		await StatusHistoryModel.create({
+			status: status._id,
+			committee,
+			previous_value: previousValue,
+			value: status.value,
+			set_by: status.set_by,
+		})
+		await InterviewSlotModel.updateMany(
+			{ committee, application: application._id },
+			{ application: null }
+		)
+		await InterviewInvitationModel.deleteMany({ status: status._id })
+		await logAuditEvent(null, {
+			action: AuditActions.UPDATE_STATUS,
+			target_type: 'status',
+			target_id: status._id,
+			committee,
+			before: { value: previousValue },
+			after: { value: status.value },
+			actor_name: application.name,
+		})
+		return res.status(200).json({ message: 'Application withdrawn' })
+	} catch (error) {
+		return next(error)
+	}
+}
+
+/**
+ * Mail a new portal link for every application sent from the address. The
+ * response is the same whether any application is found or not, so it can't
+ * be used to find out who has applied. Applications that got a link less than
+ * PORTAL_LINK_INTERVAL_MINUTES ago are skipped, so the endpoint can't be used
+ * to flood the applicant with mail
+ */
+const postApplicantPortalLink = async (
+	req: Request,
+	res: Response,
+	next: NextFunction
+) => {
+	try {
+		const email = typeof req.body.email === 'string' ? req.body.email.trim() : ''
+		if (!email) throw new CustomError('An email address is required', 400)
+		const applications = await ApplicationModel.find({ email }).collation({
+			locale: 'nb',
+			strength: 2,
+		})
+		const recentlyLinked = await ApplicantPortalLinkModel.distinct(
+			'application',
+			{
+				application: { $in: applications.map((application) => application._id) },
+				created_date: {
+					$gt: dayjs().subtract(PORTAL_LINK_INTERVAL_MINUTES, 'minute').toDate(),
+				},
+			}
+		)
+		const recentlyLinkedIds = recentlyLinked.map(String)
+		await Promise.all(
+			applications
+				.filter(
+					(application) => !recentlyLinkedIds.includes(String(application._id))
+				)
+				.map(async (application) =>
+					sendApplicantPortalLink(
+						application,
+						await createApplicantPortalLink(application._id)
+					)
+				)
+		)
+		return res.status(200).json({
+			message: 'A link has been sent if there are applications from the address',
+		})
+	} catch (error) {
+		return next(error)
+	}
+}
+
+export {
+	getApplicantPortal,
+	putApplicantPortalText,
+	postApplicantPortalWithdrawal,
+	postApplicantPortalLink,
+}
@@ -1,29 +1,93 @@
 import { NextFunction, Request, Response } from 'express'
+import dayjs from 'dayjs'
 import { CustomError, UnauthorizedUserError } from 'ntnui-tools/customError'
 import { validationResult, ValidationError } from 'express-validator'
 import { RequestWithNtnuiNo } from '../utils/request'
 import { ApplicationModel, IApplication } from '../models/Application'
 import { UserModel } from '../models/User'
 import { CommitteeModel, ICommittee } from '../models/Committee'
-import isAdmissionPeriodActive from '../utils/isAdmissionPeriodActive'
-import { SortTypes, StatusTypes } from '../utils/enums'
+import { getActiveAdmissionRound } from '../utils/admissionRound'
+import { isCommitteeAdmissionOpen } from '../utils/admissionDates'
+import {
+	AuditActions,
+	ExportFormats,
+	SortTypes,
+	StatusTypes,
+} from '../utils/enums'
 import { IStatus, StatusModel } from '../models/Status'
-import { AdmissionPeriodModel } from '../models/AdmissionPeriod'
-import { getSortTypeValue } from '../utils/applicationQueryMiddleware'
-import { ELECTION_COMMITTEE_ID, MAIN_BOARD_ID } from '../utils/constants'
-
-async function getUserCommitteeIdsByUserId(userId: number | string) {
-	let committeeIds: number[] = []
-	await UserModel.findById(userId)
-		.then((user) => {
-			if (user) {
-				committeeIds = user.committees.map((committee) => committee.committee)
-			}
-		})
-		.catch(() => {
-			throw new CustomError('Something went wrong when trying to find user', 500)
-		})
-	return committeeIds
+import { StatusHistoryModel } from '../models/StatusHistory'
+import { CommentModel } from '../models/Comment'
+import { InterviewSlotModel } from '../models/InterviewSlot'
+import { InterviewInvitationModel } from '../models/InterviewInvitation'
+import { ApplicantPortalLinkModel } from '../models/ApplicantPortalLink'
+import { SessionModel } from '../models/Session'
+import { AdmissionRoundModel } from '../models/AdmissionRound'
+import {
+	getApplicationFilterStages,
+	hideMainBoardParts,
+	IApplicationFilters,
+} from '../utils/applicationQuery'
+import {
+	ExportRow,
+	getExportFileName,
+	toCsv,
+	toXlsx,
+} from '../utils/applicationExport'
+import {
+	createApplicationPdf,
+	getApplicationPdfFileName,
+} from '../utils/applicationPdf'
+import { MAIN_BOARD_ID } from '../utils/constants'
+import { sendApplicationReceipt } from '../mail'
+import logAuditEvent from '../utils/auditLog'
+import { archiveAdmissionRound } from '../utils/admissionArchive'
+import {
+	getVisibleAnswers,
+	parseApplicationAnswers,
+} from '../utils/committeeQuestions'
+import {
+	removeAttachments,
+	storeAttachments,
+	validateAttachments,
+} from '../utils/attachments'
+import fileStorage from '../storage'
+import createApplicantPortalLink from '../utils/applicantPortal'
+import {
+	findDuplicateApplications,
+	isDuplicateApplication,
+	normalizeEmail,
+	normalizePhoneNumber,
+} from '../utils/duplicates'
+import mergeApplications from '../utils/applicationMerge'
+import getApplicationWithAccess from '../utils/applicationAccess'
+import {
+	authorize,
+	can,
+	getPermissionUser,
+	IPermissionUser,
+} from '../utils/permissions'
+
+/**
+ * The priorities must rank every applied committee exactly once.
+ * Applications without a ranking have no priorities
+ */
+function parsePriorities(committees: number[], priorities: unknown) {
+	if (priorities === undefined) return []
+	if (!Array.isArray(priorities)) {
+		throw new CustomError('Priorities must be a list of committees', 400)
+	}
+	const ranking = priorities.map(Number)
+	if (
+		ranking.length !== committees.length ||
+		new Set(ranking).size !== ranking.length ||
+		ranking.some((committee) => !committees.includes(committee))
+	) {
+		throw new CustomError(
+			'Priorities must rank each applied committee exactly once',
+			400
+		)
+	}
+	return ranking
 }
 
 interface IPopulatedApplicationCommittees
@@ -31,11 +95,57 @@ interface IPopulatedApplicationCommittees
 	committees: ICommittee[]
 }
 
+interface IPopulatedStatus extends Omit<IStatus, 'committee'> {
+	committee: Pick<ICommittee, '_id' | 'name'>
+}
+
 interface IPopulatedApplicationCommitteesAndStatus
 	extends Omit<IPopulatedApplicationCommittees, 'statuses'> {
 	statuses: IStatus[]
 }
 
+/**
+ * Retrieve application by id with populated committees and statuses, as
+ * visible to the user. Parts with the main board are hidden from everyone
+ * but the election committee.
+ */
+async function getVisibleApplication(
+	applicationId: string,
+	user: IPermissionUser
+) {
+	// Retrieve application and committees the application is sent to
+	const application = await ApplicationModel.findById(applicationId)
+		.populate<IPopulatedApplicationCommittees>('committees', 'name slug')
+		.populate<{ statuses: IPopulatedStatus[] }>({
+			path: 'statuses',
+			populate: { path: 'committee', model: 'Committee', select: 'name' },
+			select: '-__v',
+		})
+		.then((applicationRes) => applicationRes)
+		.catch(() => {
+			throw new CustomError('Could not find application', 404)
+		})
+	if (!application) throw new CustomError('Could not find application', 404)
+	const committees = application.committees.map((committee) => committee._id)
+	if (!can(user, 'read_application', { committees })) {
+		throw new CustomError('You do not have access to this application', 403)
+	}
+	if (!can(user, 'read_main_board')) {
+		// Hide the status and priority of the main board, and that it is applied to
+		application.priorities = application.priorities.filter(
+			(committee) => committee !== MAIN_BOARD_ID
+		)
+		const mainBoardIndex = committees.indexOf(MAIN_BOARD_ID)
+		if (mainBoardIndex !== -1) {
+			application.committees.splice(mainBoardIndex, 1)
+			application.statuses.splice(mainBoardIndex, 1)
+		}
+	}
+	// After the main board is hidden, so its answers can not slip through
+	application.answers = getVisibleAnswers(application.answers, user)
+	return application
+}
+
 const getApplicationById = async (
 	req: RequestWithNtnuiNo,
 	res: Response,
@@ -45,69 +155,75 @@ const getApplicationById = async (
 		// Access control - retrieve committees that user is member of
 		const { ntnuiNo } = req
 		if (!ntnuiNo) throw UnauthorizedUserError
-		const userCommitteeIds: number[] = await getUserCommitteeIdsByUserId(ntnuiNo)
+		const user = await getPermissionUser(ntnuiNo)
 
-		if (!userCommitteeIds) {
+		if (!user.committeeIds.length) {
 			return res
 				.status(403)
 				.json({ message: 'The user is not member of any committee' })
 		}
 
-		// Retrieve application and committees the application is sent to
-		const application = await ApplicationModel.findById(req.params.application_id)
-			.populate<IPopulatedApplicationCommittees>('committees', 'name slug')
-			.populate({
-				path: 'statuses',
-				populate: { path: 'committee', model: 'Committee', select: 'name' },
-				select: '-__v',
-			})
-			.then((applicationRes) => applicationRes)
-			.catch(() => {
-				throw new CustomError('Could not find application', 404)
-			})
-		if (!application) throw new CustomError('Could not find application', 404)
+		const application = await getVisibleApplication(
+			req.params.application_id,
+			user
+		)
+		return res.status(200).json({ application })
+	} catch (error) {
+		return next(error)
+	}
+}
 
-		// Election committee are allowed to see all applied committees
-		if (userCommitteeIds.includes(ELECTION_COMMITTEE_ID)) {
-			return res.status(200).json({ application })
-		}
+const getApplicationPdf = async (
+	req: RequestWithNtnuiNo,
+	res: Response,
+	next: NextFunction
+) => {
+	try {
+		// Access control - retrieve committees that user is member of
+		const { ntnuiNo } = req
+		if (!ntnuiNo) throw UnauthorizedUserError
+		const user = await getPermissionUser(ntnuiNo)
 
-		const applicationCommittees: ICommittee[] = application.committees
-		// Main board are allowed to see all applied committees, but not to the main board
-		if (userCommitteeIds.includes(MAIN_BOARD_ID)) {
-			for (let i = 0; i < applicationCommittees.length; i += 1) {
-				if (applicationCommittees[i]._id === MAIN_BOARD_ID) {
-					applicationCommittees.splice(i, 1)
-					application.statuses.splice(i, 1)
-					break
-				}
-			}
+		// The PDF shows the same as the application page
+		const application = await getVisibleApplication(
+			req.params.application_id,
+			user
+		)
+		const pdf = createApplicationPdf(application)
+		res.attachment(getApplicationPdfFileName(application.name))
+		res.status(200).type('application/pdf')
+		pdf.pipe(res)
+		return pdf.end()
+	} catch (error) {
+		return next(error)
+	}
+}
 
-			if (applicationCommittees.length > 0) {
-				return res.status(200).json({ application })
-			}
-			return res
-				.status(403)
-				.json({ message: 'You do not have access to this application' })
-		}
+const getApplicationAttachment = async (
+	req: RequestWithNtnuiNo,
+	res: Response,
+	next: NextFunction
+) => {
+	try {
+		// Access control - retrieve committees that user is member of
+		const { ntnuiNo } = req
+		if (!ntnuiNo) throw UnauthorizedUserError
+		const user = await getPermissionUser(ntnuiNo)
 
-		let authorized = false
-		// Only election committee should see if application includes main board
-		for (let id = 0; id < applicationCommittees.length; id += 1) {
-			const appCommitteeId = applicationCommittees[id]._id
-			if (userCommitteeIds.includes(appCommitteeId)) {
-				authorized = true
-				// Hide parts with main board
-			} else if (appCommitteeId === MAIN_BOARD_ID) {
-				applicationCommittees.splice(id, 1)
-				application.statuses.splice(id, 1)
-				id -= 1
-			}
-		}
-		if (authorized === true) {
-			return res.status(200).json({ application })
-		}
-		throw new CustomError('You do not have access to this application', 403)
+		// Attachments are available to those who can see the application
+		const application = await getVisibleApplication(
+			req.params.application_id,
+			user
+		)
+		const attachment = application.attachments.find(
+			(other) => String(other._id) === req.params.attachment_id
+		)
+		if (!attachment) throw new CustomError('Could not find attachment', 404)
+		const file = await fileStorage.read(attachment.storage_key).catch(() => {
+			throw new CustomError('Could not find attachment', 404)
+		})
+		res.attachment(attachment.file_name)
+		return res.status(200).type('application/pdf').send(file)
 	} catch (error) {
 		return next(error)
 	}
@@ -122,9 +238,9 @@ const getApplications = async (
 		// Access control - retrieve committees that user is member of
 		const { ntnuiNo } = req
 		if (!ntnuiNo) throw UnauthorizedUserError
-		const userCommitteeIds: number[] = await getUserCommitteeIdsByUserId(ntnuiNo)
+		const user = await getPermissionUser(ntnuiNo)
 
-		if (!userCommitteeIds) {
+		if (!user.committeeIds.length) {
 			return res
 				.status(403)
 				.json({ message: 'The user is not member of any committee' })
@@ -140,125 +256,16 @@ const getApplications = async (
 		}
 		// Retrieve query parameters
 		const page: string = req.query.page as string
-		const name: string = req.query.name as string
-		const committee: string | string[] = req.query.committee as string | string[]
-		const status: string = req.query.status as string
-		const sortparam: SortTypes = req.query.sort as SortTypes
-		const sortValue = getSortTypeValue(sortparam) // Parse sort value
-
-		// Aggregation
-		const aggregationPipeline = []
-		// Only return applications that are sent to committees that user is authorized to see
-		if (userCommitteeIds.includes(ELECTION_COMMITTEE_ID)) {
-			// Election committee are allowed to see all applications
-		} else if (userCommitteeIds.includes(MAIN_BOARD_ID)) {
-			// Main board see all applications except ones only to the main board
-			const userAuthorizedCommittees = {
-				$match: {
-					committees: {
-						$ne: [MAIN_BOARD_ID],
-					},
-				},
-			}
-			aggregationPipeline.push(userAuthorizedCommittees)
-		} else {
-			// Normal committees only see applications to their own committee
-			const userAuthorizedCommittees = {
-				$match: {
-					committees: {
-						$in: userCommitteeIds,
-					},
-				},
-			}
-			aggregationPipeline.push(userAuthorizedCommittees)
-		}
-		// Query on name
-		const queryName = {
-			$match: {
-				name: {
-					$regex: name,
-					$options: 'i',
-				},
-			},
-		}
-		if (name) aggregationPipeline.push(queryName)
-
-		// Populate status to query on status for committee value
-		const populateStatus = {
-			$lookup: {
-				from: 'statuses',
-				localField: 'statuses',
-				foreignField: '_id',
-				as: 'statuses',
-			},
-		}
-		aggregationPipeline.push(populateStatus)
-
-		// Prepare committees query
-		const committeeIds = []
-		if (committee) {
-			// Parse query parameter to numbers
-			if (Array.isArray(committee)) {
-				committeeIds.push(...committee.map((id) => parseInt(id, 10)))
-			} else {
-				committeeIds.push(parseInt(committee, 10))
-			}
-		}
-		// Filter on both status and committees if both query parameters are sent
-		if (status && committee) {
-			const statusForCommittee = {
-				$match: {
-					statuses: {
-						$elemMatch: {
-							committee: {
-								$in: committeeIds,
-							},
-							value: status,
-						},
-					},
-				},
-			}
-			aggregationPipeline.push(statusForCommittee)
-		} else if (status) {
-			// Filter only on status
-			const filterStatus = {
-				$match: {
-					statuses: {
-						$elemMatch: {
-							value: status,
-						},
-					},
-				},
-			}
-			aggregationPipeline.push(filterStatus)
-		} else if (committee) {
-			// Filter only on committee(s)
-			const filterCommittee = {
-				$match: {
-					committees: {
-						$in: committeeIds,
-					},
-				},
-			}
-			aggregationPipeline.push(filterCommittee)
-		}
-
-		// Populate committees
-		const populateCommittees = {
-			$lookup: {
-				from: 'committees',
-				localField: 'committees',
-				foreignField: '_id',
-				as: 'committees',
-			},
+		const filters: IApplicationFilters = {
+			name: req.query.name as string,
+			committee: req.query.committee as string | string[],
+			status: req.query.status as string,
+			round: req.query.round as string,
+			sort: req.query.sort as SortTypes,
 		}
-		aggregationPipeline.push(populateCommittees)
 
-		// Sort
-		const sort = {
-			$sort: sortparam ? (sortValue as 1 | -1) : {},
-		}
-		if (sortparam) aggregationPipeline.push(sort)
+		// Aggregation
+		const aggregationPipeline = getApplicationFilterStages(user, filters)
 
 		// Pagination
 		const LIMIT = 4
@@ -328,19 +335,10 @@ const getApplications = async (
 				throw new CustomError('Something went wrong retrieving applications', 500)
 			})
 
-		const { applications } = applicationRes
-		// If application is sent to main board, hide parts with main board
-		if (applications && !userCommitteeIds.includes(ELECTION_COMMITTEE_ID)) {
-			for (let i = 0; i < applications.length; i += 1) {
-				// Remove status and committee if it's main board
-				applications[i].committees = applications[i].committees.filter(
-					(com) => com._id !== MAIN_BOARD_ID
-				)
-				applications[i].statuses = applications[i].statuses.filter(
-					(stat) => stat.committee !== MAIN_BOARD_ID
-				)
-			}
-		}
+		applicationRes.applications = hideMainBoardParts(
+			applicationRes.applications,
+			user
+		)
 
 		return res.status(200).json(applicationRes)
 	} catch (error) {
@@ -348,27 +346,165 @@ const getApplications = async (
 	}
 }
 
+const getApplicationExport = async (
+	req: RequestWithNtnuiNo,
+	res: Response,
+	next: NextFunction
+) => {
+	try {
+		// Access control - retrieve committees that user is member of
+		const { ntnuiNo } = req
+		if (!ntnuiNo) throw UnauthorizedUserError
+		const user = await getPermissionUser(ntnuiNo)
+
+		// Validate query parameters
+		const errorFormatter = ({ location, msg, param, value }: ValidationError) =>
+			`${location}[${param}](Value=${value}): ${msg}`
+
+		const result = validationResult(req).formatWith(errorFormatter)
+		if (!result.isEmpty()) {
+			return res.status(400).json({ message: result.array() })
+		}
+		const format = req.query.format as ExportFormats
+		const filters: IApplicationFilters = {
+			name: req.query.name as string,
+			committee: req.query.committee as string | string[],
+			status: req.query.status as string,
+			round: req.query.round as string,
+			sort: req.query.sort as SortTypes,
+		}
+
+		// Same applications as the overview, without pagination
+		const aggregationPipeline = getApplicationFilterStages(user, filters)
+		aggregationPipeline.push({
+			$project: {
+				name: 1,
+				email: 1,
+				phone_number: 1,
+				text: 1,
+				submitted_date: 1,
+				committees: { _id: 1, name: 1 },
+				statuses: { committee: 1, value: 1 },
+			},
+		})
+		const applications = hideMainBoardParts(
+			await ApplicationModel.aggregate<IPopulatedApplicationCommitteesAndStatus>(
+				aggregationPipeline
+			)
+				.exec()
+				.catch(() => {
+					throw new CustomError('Something went wrong retrieving applications', 500)
+				}),
+			user
+		)
+
+		// One column with the status for each committee applied to
+		const committeeColumns = new Map<number, string>()
+		applications.forEach((application) =>
+			application.committees.forEach((committee) =>
+				committeeColumns.set(committee._id, committee.name)
+			)
+		)
+		const columns = [
+			'Navn',
+			'E-post',
+			'Telefon',
+			'Søkt',
+			...Array.from(committeeColumns.values()),
+			'Søknadstekst',
+		]
+		const rows: ExportRow[] = applications.map((application) => {
+			const row: ExportRow = {
+				Navn: application.name,
+				'E-post': application.email,
+				Telefon: application.phone_number,
+				Søkt: dayjs(application.submitted_date).format('YYYY-MM-DD HH:mm'),
+				Søknadstekst: application.text,
+			}
+			application.statuses.forEach((status) => {
+				const committeeName = committeeColumns.get(status.committee)
+				if (committeeName) row[committeeName] = status.value
+			})
+			return row
+		})
+
+		if (format === ExportFormats.XLSX) {
+			const xlsx = await toXlsx(columns, rows)
+			res.attachment(getExportFileName(ExportFormats.XLSX))
+			return res
+				.status(200)
+				.type('application/vnd.openxmlformats-officedocument.spreadsheetml.sheet')
+				.send(xlsx)
+		}
+		res.attachment(getExportFileName(ExportFormats.CSV))
+		return res
+			.status(200)
+			.type('text/csv; charset=utf-8')
+			.send(toCsv(columns, rows))
+	} catch (error) {
+		return next(error)
+	}
+}
+
 const postApplication = async (
 	req: Request,
 	res: Response,
 	next: NextFunction
 ) => {
 	try {
-		if (!(await isAdmissionPeriodActive())) {
-			throw new CustomError('Admission period is not active', 403)
+		// Applications with attachments are sent as multipart, with the fields as JSON
+		let fields = req.body
+		if (req.is('multipart/form-data')) {
+			try {
+				fields = JSON.parse(fields.application)
+			} catch (error) {
+				throw new CustomError('The application must be sent as JSON', 400)
+			}
+		}
+		const files = (req.files || []) as Express.Multer.File[]
+		const admissionRound = await getActiveAdmissionRound()
+		if (!admissionRound) {
+			throw new CustomError('There is no active admission round', 403)
+		}
+		// Check that all applied committees take part in the admission round
+		const committeesInRound = admissionRound.committees.map(Number)
+		if (
+			!Array.isArray(fields.committees) ||
+			fields.committees.some(
+				(committee: number) => !committeesInRound.includes(Number(committee))
+			)
+		) {
+			return res.status(400).json({
+				message:
+					'A committee the application was sent to is not part of the admission round',
+			})
 		}
-		// Check that all applied committees accepts admissions
-		const closedCommittees = await CommitteeModel.findOne({
-			_id: { $in: req.body.committees },
-			accepts_admissions: false,
+		// Check that all applied committees accepts admissions today
+		const appliedCommittees = await CommitteeModel.find({
+			_id: { $in: fields.committees },
 		})
-		if (closedCommittees) {
+		if (
+			appliedCommittees.some(
+				(committee) =>
+					!isCommitteeAdmissionOpen(committee, admissionRound.time_zone)
+			)
+		) {
 			return res
 				.status(400)
 				.json({ message: 'A committee the application was sent to is closed' })
 		}
+		// Check the answers against the questions of the committees
+		const answers = await parseApplicationAnswers(
+			fields.committees.map(Number),
+			fields.answers
+		)
+		const priorities = parsePriorities(
+			fields.committees.map(Number),
+			fields.priorities
+		)
+		await validateAttachments(files)
 		// Create a status model for each committee the application is sent to
-		const statuses = req.body.committees.map((committee: number) => ({
+		const statuses = fields.committees.map((committee: number) => ({
 			committee,
 			status: StatusTypes.PENDING,
 		}))
@@ -382,13 +518,32 @@ const postApplication = async (
 			})
 		const statusIds = insertedStatuses.map((stat: IStatus) => stat)
 		// Create application
-		const application = new ApplicationModel({ ...req.body, statuses: statusIds })
+		const application = new ApplicationModel({
+			...fields,
+			normalized_email: normalizeEmail(String(fields.email || '')),
+			normalized_phone_number: normalizePhoneNumber(
+				String(fields.phone_number || '')
+			),
+			statuses: statusIds,
+			admission_round: admissionRound._id,
+			answers,
+			priorities,
+		})
+		application.attachments = await storeAttachments(application._id, files)
 		return application
 			.save()
-			.then((newApplication) =>
-				res.status(200).json({ application: newApplication })
-			)
-			.catch((err) => {
+			.then((newApplication) => {
+				// Not awaited, the applicant should not wait for the mail to be sent
+				createApplicantPortalLink(newApplication._id)
+					.then((portalLink) => sendApplicationReceipt(newApplication, portalLink))
+					.catch((error) => {
+						// eslint-disable-next-line no-console
+						console.error('📧 Could not send application receipt', error)
+					})
+				return res.status(200).json({ application: newApplication })
+			})
+			.catch(async (err) => {
+				await removeAttachments(application.attachments)
 				if (err.name === 'ValidationError') {
 					return res.status(400).json({ message: err.message })
 				}
@@ -399,6 +554,93 @@ const postApplication = async (
 	}
 }
 
+const getApplicationDuplicates = async (
+	req: RequestWithNtnuiNo,
+	res: Response,
+	next: NextFunction
+) => {
+	try {
+		const { ntnuiNo } = req
+		if (!ntnuiNo) throw UnauthorizedUserError
+		const user = await getPermissionUser(ntnuiNo)
+		const application = await getApplicationWithAccess(
+			req.params.application_id,
+			user
+		)
+		// Only list the duplicates the user could open anyway
+		const duplicates = (await findDuplicateApplications(application)).filter(
+			(duplicate) =>
+				can(user, 'read_application', { committees: duplicate.committees })
+		)
+		return res.status(200).json({
+			duplicates: duplicates.map((duplicate) => ({
+				_id: duplicate._id,
+				name: duplicate.name,
+				email: duplicate.email,
+				phone_number: duplicate.phone_number,
+				submitted_date: duplicate.submitted_date,
+			})),
+			can_merge: can(user, 'merge_applications'),
+		})
+	} catch (error) {
+		return next(error)
+	}
+}
+
+const postApplicationMerge = async (
+	req: RequestWithNtnuiNo,
+	res: Response,
+	next: NextFunction
+) => {
+	try {
+		const { ntnuiNo } = req
+		if (!ntnuiNo) throw UnauthorizedUserError
+		const user = await getPermissionUser(ntnuiNo)
+		authorize(user, 'merge_applications')
+		const application = await getApplicationWithAccess(
+			req.params.application_id,
+			user
+		)
+		const duplicate = await getApplicationWithAccess(req.body.duplicate, user)
+		if (
+			application._id.equals(duplicate._id) ||
+			!isDuplicateApplication(application, duplicate)
+		) {
+			throw new CustomError(
+				'Only duplicates of the application can be merged into it',
+				400
+			)
+		}
+		const before = {
+			duplicate: {
+				_id: duplicate._id,
+				name: duplicate.name,
+				email: duplicate.email,
+				phone_number: duplicate.phone_number,
+				committees: duplicate.committees,
+			},
+			committees: application.committees,
+		}
+		// A merge with the main board is hidden like the rest of its admission
+		const involvesMainBoard = [
+			...application.committees,
+			...duplicate.committees,
+		].includes(MAIN_BOARD_ID)
+		const mergedApplication = await mergeApplications(application, duplicate)
+		await logAuditEvent(ntnuiNo, {
+			action: AuditActions.MERGE_APPLICATIONS,
+			target_type: 'application',
+			target_id: mergedApplication._id,
+			committee: involvesMainBoard ? MAIN_BOARD_ID : null,
+			before,
+			after: { committees: mergedApplication.committees },
+		})
+		return res.status(200).json({ message: 'Applications successfully merged' })
+	} catch (error) {
+		return next(error)
+	}
+}
+
 const wipeAdmissionData = async (
 	req: RequestWithNtnuiNo,
 	res: Response,
@@ -407,17 +649,50 @@ const wipeAdmissionData = async (
 	try {
 		const { ntnuiNo } = req
 		if (!ntnuiNo) throw UnauthorizedUserError
-		const committeeIds: number[] = await getUserCommitteeIdsByUserId(ntnuiNo)
 		// Only main board can delete all applications
-		if (!committeeIds.includes(MAIN_BOARD_ID)) {
-			throw new CustomError('You do not have access to this resource', 403)
+		authorize(await getPermissionUser(ntnuiNo), 'manage_archives')
+		const name = typeof req.body.name === 'string' ? req.body.name.trim() : ''
+		if (!name || name.length > 100) {
+			throw new CustomError(
+				'The archive needs a name of at most 100 characters',
+				400
+			)
 		}
+		// Keep a copy of the admission round before clearing it
+		const archive = await archiveAdmissionRound(name, ntnuiNo)
 		await ApplicationModel.deleteMany({})
 		await StatusModel.deleteMany({})
+		await StatusHistoryModel.deleteMany({})
+		await CommentModel.deleteMany({})
+		await InterviewSlotModel.deleteMany({})
+		await InterviewInvitationModel.deleteMany({})
+		await ApplicantPortalLinkModel.deleteMany({})
 		await UserModel.deleteMany({ _id: { $ne: ntnuiNo } })
-		await AdmissionPeriodModel.deleteMany({})
-		await CommitteeModel.updateMany({}, { accepts_admissions: false })
-		return res.status(200).json({ message: 'Admission data successfully wiped' })
+		await SessionModel.deleteMany({ user: { $ne: ntnuiNo } })
+		// Upcoming rounds are not archived, and are kept for the next admission
+		await AdmissionRoundModel.deleteMany({
+			_id: { $in: archive.admission_rounds.map((round) => round._id) },
+		})
+		await CommitteeModel.updateMany(
+			{},
+			{
+				accepts_admissions: false,
+				admission_start_date: null,
+				admission_end_date: null,
+			}
+		)
+		await logAuditEvent(ntnuiNo, {
+			action: AuditActions.WIPE_ADMISSION_DATA,
+			target_type: 'admission_archive',
+			target_id: archive._id,
+			after: {
+				name: archive.name,
+				applications: archive.number_of_applications,
+			},
+		})
+		return res
+			.status(200)
+			.json({ message: 'Admission data successfully archived', archive })
 	} catch (error) {
 		return next(error)
 	}
@@ -425,6 +700,11 @@ const wipeAdmissionData = async (
 
 export {
 	getApplications,
+	getApplicationDuplicates,
+	postApplicationMerge,
+	getApplicationAttachment,
+	getApplicationExport,
+	getApplicationPdf,
 	postApplication,
 	getApplicationById,
 	wipeAdmissionData,
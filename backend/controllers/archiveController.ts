@@ -0,0 +1,209 @@
+import { NextFunction, Response } from 'express'
+import { CustomError, UnauthorizedUserError } from 'ntnui-tools/customError'
+import { RequestWithNtnuiNo } from '../utils/request'
+import { AdmissionArchiveModel } from '../models/AdmissionArchive'
+import {
+	ArchivedApplicationModel,
+	IArchivedApplication,
+} from '../models/ArchivedApplication'
+import {
+	authorize,
+	can,
+	getPermissionUser,
+	getReadableApplicationsFilter,
+	IPermissionUser,
+} from '../utils/permissions'
+import { restoreAdmissionArchive } from '../utils/admissionArchive'
+import logAuditEvent from '../utils/auditLog'
+import { AuditActions } from '../utils/enums'
+import { removeAttachments } from '../utils/attachments'
+
+const LIMIT = 20
+
+// Only main board can see and manage the archived admission rounds
+async function checkArchiveAccess(ntnuiNo: number | string) {
+	const user = await getPermissionUser(ntnuiNo)
+	authorize(user, 'manage_archives')
+	return user
+}
+
+/**
+ * The archived statuses and comments the user can see, by the same rules as
+ * for the applications of the current admission
+ */
+function getVisibleArchivedParts(
+	archived: IArchivedApplication,
+	user: IPermissionUser
+) {
+	return {
+		statuses: archived.statuses.filter((status) =>
+			can(user, 'read_status', {
+				committee: status.committee,
+				applicationCommittees: archived.application.committees,
+			})
+		),
+		comments: archived.comments.filter((comment) =>
+			can(user, 'read_comments', { committee: comment.committee })
+		),
+	}
+}
+
+async function findArchive(archiveId: string) {
+	const archive = await AdmissionArchiveModel.findById(archiveId).catch(() => {
+		throw new CustomError('Invalid archive id', 400)
+	})
+	if (!archive) throw new CustomError('Archive not found', 404)
+	return archive
+}
+
+const getArchives = async (
+	req: RequestWithNtnuiNo,
+	res: Response,
+	next: NextFunction
+) => {
+	try {
+		const { ntnuiNo } = req
+		if (!ntnuiNo) throw UnauthorizedUserError
+		await checkArchiveAccess(ntnuiNo)
+		const archives = await AdmissionArchiveModel.find()
+			.select('-interview_slots')
+			.sort({ created_date: -1 })
+		return res.status(200).json({ archives })
+	} catch (error) {
+		return next(error)
+	}
+}
+
+const getArchivedApplications = async (
+	req: RequestWithNtnuiNo,
+	res: Response,
+	next: NextFunction
+) => {
+	try {
+		const { ntnuiNo } = req
+		if (!ntnuiNo) throw UnauthorizedUserError
+		const user = await checkArchiveAccess(ntnuiNo)
+		const archive = await findArchive(req.params.archiveId)
+		const committeeNames = new Map(
+			archive.committees.map((committee) => [committee._id, committee.name])
+		)
+
+		const filter: Record<string, unknown> = {
+			archive: archive._id,
+			...getReadableApplicationsFilter(user, 'application.committees'),
+		}
+		if (req.query.name) {
+			const name = String(req.query.name).replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+			filter['application.name'] = { $regex: name, $options: 'i' }
+		}
+		const page = Number(req.query.page) || 1
+		const [archivedApplications, total] = await Promise.all([
+			ArchivedApplicationModel.find(filter)
+				.sort({ 'application.name': 1 })
+				.skip((page - 1) * LIMIT)
+				.limit(LIMIT),
+			ArchivedApplicationModel.countDocuments(filter),
+		])
+
+		const applications = archivedApplications.map((archived) => {
+			const { statuses, comments } = getVisibleArchivedParts(archived, user)
+			return {
+				_id: archived._id,
+				name: archived.application.name,
+				email: archived.application.email,
+				phone_number: archived.application.phone_number,
+				text: archived.application.text,
+				submitted_date: archived.application.submitted_date,
+				statuses: statuses.map((status) => ({
+					committee: committeeNames.get(status.committee) || status.committee,
+					value: status.value,
+					set_by: status.set_by,
+				})),
+				comments: comments.map((comment) => ({
+					committee: committeeNames.get(comment.committee) || comment.committee,
+					author_name: comment.author_name,
+					text: comment.text,
+					created_date: comment.created_date,
+				})),
+			}
+		})
+		return res.status(200).json({
+			applications,
+			pagination: {
+				currentPage: page,
+				numberOfPages: Math.ceil(total / LIMIT),
+			},
+		})
+	} catch (error) {
+		return next(error)
+	}
+}
+
+const restoreArchive = async (
+	req: RequestWithNtnuiNo,
+	res: Response,
+	next: NextFunction
+) => {
+	try {
+		const { ntnuiNo } = req
+		if (!ntnuiNo) throw UnauthorizedUserError
+		await checkArchiveAccess(ntnuiNo)
+		const archive = await findArchive(req.params.archiveId)
+		await restoreAdmissionArchive(archive)
+		archive.restored_date = new Date()
+		await archive.save()
+		await logAuditEvent(ntnuiNo, {
+			action: AuditActions.RESTORE_ADMISSION_ARCHIVE,
+			target_type: 'admission_archive',
+			target_id: archive._id,
+			after: { name: archive.name },
+		})
+		return res.status(200).json({ message: 'Archive successfully restored' })
+	} catch (error) {
+		return next(error)
+	}
+}
+
+const purgeArchive = async (
+	req: RequestWithNtnuiNo,
+	res: Response,
+	next: NextFunction
+) => {
+	try {
+		const { ntnuiNo } = req
+		if (!ntnuiNo) throw UnauthorizedUserError
+		await checkArchiveAccess(ntnuiNo)
+		const archive = await findArchive(req.params.archiveId)
+		if (archive.purge_after > new Date()) {
+			throw new CustomError(
+				'The archive can not be purged before its retention period has ended',
+				409
+			)
+		}
+		// The attached files are kept with the archive until it is purged
+		const archivedApplications = await ArchivedApplicationModel.find({
+			archive: archive._id,
+		}).select('application.attachments')
+		await removeAttachments(
+			archivedApplications.flatMap(
+				(archived) => archived.application.attachments || []
+			)
+		)
+		await ArchivedApplicationModel.deleteMany({ archive: archive._id })
+		await archive.deleteOne()
+		await logAuditEvent(ntnuiNo, {
+			action: AuditActions.PURGE_ADMISSION_ARCHIVE,
+			target_type: 'admission_archive',
+			target_id: archive._id,
+			before: {
+				name: archive.name,
+				applications: archive.number_of_applications,
+			},
+		})
+		return res.status(200).json({ message: 'Archive successfully purged' })
+	} catch (error) {
+		return next(error)
+	}
+}
+
+export { getArchives, getArchivedApplications, restoreArchive, purgeArchive }
@@ -0,0 +1,89 @@
+import { NextFunction, Response } from 'express'
+import dayjs from 'dayjs'
+import { CustomError, UnauthorizedUserError } from 'ntnui-tools/customError'
+import { RequestWithNtnuiNo } from '../utils/request'
+import { AuditLogModel } from '../models/AuditLog'
+import { authorize, can, getPermissionUser } from '../utils/permissions'
+import { MAIN_BOARD_ID } from '../utils/constants'
+import { AuditActions } from '../utils/enums'
+
+const LIMIT = 25
+
+function escapeRegex(text: string) {
+	return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+const getAuditLog = async (
+	req: RequestWithNtnuiNo,
+	res: Response,
+	next: NextFunction
+) => {
+	try {
+		const { ntnuiNo } = req
+		if (!ntnuiNo) throw UnauthorizedUserError
+		// Only main board and election committee can see the audit log
+		const user = await getPermissionUser(ntnuiNo)
+		authorize(user, 'read_audit_log')
+
+		const {
+			action,
+			actor,
+			target_type: targetType,
+			target_id: targetId,
+			from,
+			to,
+		} = req.query
+		const filter: Record<string, unknown> = {}
+		// What is done with applications to the main board is hidden from it
+		if (!can(user, 'read_main_board')) {
+			filter.committee = { $ne: MAIN_BOARD_ID }
+		}
+		if (action) {
+			if (!Object.values<unknown>(AuditActions).includes(action)) {
+				throw new CustomError(`${action} is not a supported action`, 400)
+			}
+			filter.action = action
+		}
+		// Search on the name or member number of the actor
+		if (actor) {
+			const actorSearch = String(actor)
+			filter.$or = [
+				{ actor_name: { $regex: escapeRegex(actorSearch), $options: 'i' } },
+				...(Number(actorSearch) ? [{ actor: Number(actorSearch) }] : []),
+			]
+		}
+		if (targetType) filter.target_type = String(targetType)
+		if (targetId) filter.target_id = String(targetId)
+		if (from || to) {
+			const dateFilter: Record<string, Date> = {}
+			if (from) dateFilter.$gte = dayjs(String(from)).startOf('day').toDate()
+			if (to) dateFilter.$lte = dayjs(String(to)).endOf('day').toDate()
+			if (Object.values(dateFilter).some((date) => Number.isNaN(date.getTime()))) {
+				throw new CustomError('The dates are invalid', 400)
+			}
+			filter.created_date = dateFilter
+		}
+
+		const page = Number(req.query.page) || 1
+		const [entries, total] = await Promise.all([
+			AuditLogModel.find(filter)
+				.sort({ created_date: -1 })
+				.skip((page - 1) * LIMIT)
+				.limit(LIMIT),
+			AuditLogModel.countDocuments(filter),
+		]).catch(() => {
+			throw new CustomError('Something went wrong retrieving the audit log', 500)
+		})
+		return res.status(200).json({
+			entries,
+			pagination: {
+				currentPage: page,
+				numberOfPages: Math.ceil(total / LIMIT),
+			},
+		})
+	} catch (error) {
+		return next(error)
+	}
+}
+
+export default getAuditLog
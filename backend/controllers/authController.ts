@@ -1,16 +1,20 @@
 import { NextFunction, Request, Response } from 'express'
 import jsonwebtoken, { JwtPayload } from 'jsonwebtoken'
-import {
-	getRoleInGroup,
-	getNtnuiToken,
-	isValidNtnuiToken,
-	refreshNtnuiToken,
-	getNtnuiProfile,
-} from 'ntnui-tools'
+import { getNtnuiToken, getNtnuiProfile } from 'ntnui-tools'
 import { CustomError, UnauthorizedUserError } from 'ntnui-tools/customError'
-import { CommitteeModel } from '../models/Committee'
-import { MembershipType } from '../utils/enums'
 import { IRoleInCommittee, UserModel } from '../models/User'
+import { getRolesInCommittees } from '../utils/committeeRoles'
+import { SessionModel } from '../models/Session'
+import { RequestWithNtnuiNo } from '../utils/request'
+import {
+	createSession,
+	findSession,
+	getSessionAccessToken,
+	SESSION_COOKIE,
+	sessionCookieOptions,
+} from '../utils/session'
+import { getTokenValidationStats } from '../utils/tokenValidation'
+import { hashToken } from '../utils/token'
 
 async function updateOrCreateUserModel(
 	ntnui_no: number,
@@ -25,6 +29,7 @@ async function updateOrCreateUserModel(
 			first_name,
 			last_name,
 			committees: rolesInCommittees,
+			roles_synced_date: new Date(),
 		},
 		{
 			upsert: true,
@@ -41,51 +46,19 @@ async function updateOrCreateUserModel(
 		})
 }
 
-async function getCommittees() {
-	return CommitteeModel.find()
-		.then((committees) => committees)
-		.catch(() => {
-			throw new CustomError(
-				'Could not retrieve committees from local database',
-				500
-			)
-		})
-}
-
-function isRoleInAccessRoles(role: string, access_roles: string[]) {
-	return role && (role === MembershipType.leader || access_roles.includes(role))
-}
-
-export async function refresh(req: Request, res: Response, next: NextFunction) {
+export async function verify(req: Request, res: Response, next: NextFunction) {
 	try {
-		if (!req.body.refresh) {
-			return res.status(403).json({ message: 'No refresh-token sent!' })
+		const session = await findSession(req.cookies[SESSION_COOKIE])
+		if (!session) {
+			return res.status(401).json({ message: 'No session!' })
 		}
-		const token = req.body.refresh
-		const tokens = await refreshNtnuiToken(token)
-		if (tokens) {
-			return res.status(200).json({ access: tokens.access })
-		}
-		return res
-			.status(401)
-			.json({ message: 'Refresh token is invalid or expired' })
+		await getSessionAccessToken(session)
+		return res.status(200).json({ message: 'Token is valid' })
 	} catch (error) {
 		return next(error)
 	}
 }
 
-export async function verify(req: Request, res: Response) {
-	if (!req.cookies.accessToken) {
-		return res.status(401).json({ message: 'No token sent!' })
-	}
-	const { accessToken } = req.cookies
-	const isValidToken = await isValidNtnuiToken(accessToken)
-	if (isValidToken) {
-		return res.status(200).json({ message: 'Token is valid' })
-	}
-	return res.status(401).json({ message: 'Token is invalid or expired' })
-}
-
 /**
  * # The login process
  * 1. Send request to NTNUI and retrieve tokens
@@ -97,7 +70,7 @@ export async function verify(req: Request, res: Response) {
  * 	     * If true, push to array of role in committee
  * 	   - Retrieve NTNUI profile
  *     - Update user model in local database with roles in committees and name
- *     - Set cookies and allow login
+ *     - Start a session holding the tokens, set the session cookie and allow login
  * 4. If role in committees is empty, unauthorized user
  * @param req express Request object
  * @param res express Response object
@@ -113,25 +86,8 @@ export async function login(req: Request, res: Response, next: NextFunction) {
 			tokens.access
 		)
 		if (decodedToken && typeof decodedToken !== 'string') {
-			// Get all committees from local db
-			const committees = await getCommittees()
-			// Get what role user has in every committee
-			const rolesResults = committees.map((committee) =>
-				getRoleInGroup(committee.slug, tokens.access)
-			)
-			const roles = await Promise.all(rolesResults)
 			// Get roles in committees
-			const rolesInCommittees: IRoleInCommittee[] = []
-			for (let roleIdx = 0; roleIdx < roles.length; roleIdx += 1) {
-				const committee = committees[roleIdx]
-				const role = roles[roleIdx]
-				if (role && isRoleInAccessRoles(role, committee.access_roles)) {
-					rolesInCommittees.push({
-						committee: committee._id,
-						role,
-					})
-				}
-			}
+			const rolesInCommittees = await getRolesInCommittees(tokens.access)
 			const ntnuiNo = decodedToken.ntnui_no
 			if (rolesInCommittees.length) {
 				// Retrieve profile from NTNUI
@@ -149,19 +105,13 @@ export async function login(req: Request, res: Response, next: NextFunction) {
 					profile.last_name,
 					rolesInCommittees
 				)
+				const sessionToken = await createSession(
+					ntnuiNo,
+					tokens,
+					req.get('User-Agent')
+				)
 				return res
-					.cookie('accessToken', tokens.access, {
-						maxAge: 1800000, // 30 minutes
-						httpOnly: true,
-						secure: process.env.NODE_ENV === 'production',
-						sameSite: true,
-					})
-					.cookie('refreshToken', tokens.refresh, {
-						maxAge: 86400000, // 1 day
-						httpOnly: true,
-						secure: process.env.NODE_ENV === 'production',
-						sameSite: true,
-					})
+					.cookie(SESSION_COOKIE, sessionToken, sessionCookieOptions)
 					.status(200)
 					.json({ message: 'Successful login' })
 			}
@@ -172,10 +122,42 @@ export async function login(req: Request, res: Response, next: NextFunction) {
 	}
 }
 
-export function logout(_req: Request, res: Response) {
-	return res
-		.clearCookie('accessToken')
-		.clearCookie('refreshToken')
-		.status(200)
-		.json({ message: 'Successfully logged out' })
+// Shows how often tokens are validated without asking NTNUI
+export function getTokenValidation(_req: Request, res: Response) {
+	return res.status(200).json(getTokenValidationStats())
+}
+
+// Revokes the session, so the session cookie can't be used even if copied
+export async function logout(req: Request, res: Response, next: NextFunction) {
+	try {
+		const token = req.cookies[SESSION_COOKIE]
+		if (typeof token === 'string' && token) {
+			await SessionModel.deleteOne({ token_hash: hashToken(token) })
+		}
+		return res
+			.clearCookie(SESSION_COOKIE)
+			.status(200)
+			.json({ message: 'Successfully logged out' })
+	} catch (error) {
+		return next(error)
+	}
+}
+
+// Revokes every session of the user, including the current one
+export async function logoutEverywhere(
+	req: RequestWithNtnuiNo,
+	res: Response,
+	next: NextFunction
+) {
+	try {
+		const { ntnuiNo } = req
+		if (!ntnuiNo) throw UnauthorizedUserError
+		await SessionModel.deleteMany({ user: ntnuiNo })
+		return res
+			.clearCookie(SESSION_COOKIE)
+			.status(200)
+			.json({ message: 'Successfully logged out of all sessions' })
+	} catch (error) {
+		return next(error)
+	}
 }
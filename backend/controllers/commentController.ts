@@ -0,0 +1,166 @@
+import { NextFunction, Response } from 'express'
+import { CustomError, UnauthorizedUserError } from 'ntnui-tools/customError'
+import { RequestWithNtnuiNo } from '../utils/request'
+import { IApplication } from '../models/Application'
+import { CommentModel, IComment } from '../models/Comment'
+import { UserModel } from '../models/User'
+import getApplicationWithAccess from '../utils/applicationAccess'
+import { can, getPermissionUser, IPermissionUser } from '../utils/permissions'
+import logAuditEvent from '../utils/auditLog'
+import { AuditActions } from '../utils/enums'
+
+/**
+ * Comments are only visible to members of the committee they are written for.
+ * The election committee handles applications to the main board, so they see
+ * the main board's comments, while the main board never does.
+ */
+function getCommentCommitteeIds(
+	application: IApplication,
+	user: IPermissionUser
+) {
+	return application.committees.filter((committee) =>
+		can(user, 'read_comments', { committee })
+	)
+}
+
+// The text is internal to the committee, so it is left out of the audit log
+function getCommentAuditDetails(comment: IComment) {
+	return {
+		application: comment.application,
+		committee: comment.committee,
+		author: comment.author,
+		author_name: comment.author_name,
+	}
+}
+
+const getComments = async (
+	req: RequestWithNtnuiNo,
+	res: Response,
+	next: NextFunction
+) => {
+	try {
+		const { ntnuiNo } = req
+		if (!ntnuiNo) throw UnauthorizedUserError
+		const user = await getPermissionUser(ntnuiNo)
+		const application = await getApplicationWithAccess(
+			req.params.application_id,
+			user
+		)
+		const committeeIds = getCommentCommitteeIds(application, user)
+		const comments = await CommentModel.find({
+			application: application._id,
+			committee: { $in: committeeIds },
+		})
+			.populate('committee', 'name')
+			.sort({ created_date: 1 })
+			.lean()
+			.catch(() => {
+				throw new CustomError('Something went wrong retrieving comments', 500)
+			})
+		return res.status(200).json({
+			comments: comments.map(({ author, ...comment }) => ({
+				...comment,
+				is_author: author === Number(ntnuiNo),
+			})),
+			// Committees the user can write comments for
+			committees: committeeIds,
+		})
+	} catch (error) {
+		return next(error)
+	}
+}
+
+const postComment = async (
+	req: RequestWithNtnuiNo,
+	res: Response,
+	next: NextFunction
+) => {
+	try {
+		const { ntnuiNo } = req
+		if (!ntnuiNo) throw UnauthorizedUserError
+		const user = await UserModel.findById(ntnuiNo)
+		if (!user) throw UnauthorizedUserError
+		const permissionUser = await getPermissionUser(ntnuiNo)
+		const application = await getApplicationWithAccess(
+			req.params.application_id,
+			permissionUser
+		)
+		const committee = Number(req.body.committee)
+		if (
+			!getCommentCommitteeIds(application, permissionUser).includes(committee)
+		) {
+			throw new CustomError(
+				'You do not have access to comment on this application for this committee',
+				403
+			)
+		}
+		const comment = new CommentModel({
+			application: application._id,
+			committee,
+			author: user._id,
+			author_name: `${user.first_name} ${user.last_name}`,
+			text: req.body.text,
+		})
+		return comment
+			.save()
+			.then(async (newComment) => {
+				await logAuditEvent(ntnuiNo, {
+					action: AuditActions.CREATE_COMMENT,
+					target_type: 'comment',
+					target_id: newComment._id,
+					committee: newComment.committee,
+					after: getCommentAuditDetails(newComment),
+				})
+				await newComment.populate('committee', 'name')
+				const { author, ...commentObject } = newComment.toObject()
+				return res
+					.status(201)
+					.json({ comment: { ...commentObject, is_author: true } })
+			})
+			.catch((err) => {
+				if (err.name === 'ValidationError') {
+					return res.status(400).json({ message: err.message })
+				}
+				return res.status(500).json({ message: 'Unable to save comment' })
+			})
+	} catch (error) {
+		return next(error)
+	}
+}
+
+const deleteComment = async (
+	req: RequestWithNtnuiNo,
+	res: Response,
+	next: NextFunction
+) => {
+	try {
+		const { ntnuiNo } = req
+		if (!ntnuiNo) throw UnauthorizedUserError
+		const comment = await CommentModel.findOne({
+			_id: req.params.comment_id,
+			application: req.params.application_id,
+		})
+			.then((commentRes) => commentRes)
+			.catch(() => {
+				throw new CustomError('Could not find comment', 404)
+			})
+		if (!comment) throw new CustomError('Could not find comment', 404)
+		// Only the author can delete a comment
+		if (comment.author !== Number(ntnuiNo)) {
+			throw new CustomError('You can only delete your own comments', 403)
+		}
+		await comment.deleteOne()
+		await logAuditEvent(ntnuiNo, {
+			action: AuditActions.DELETE_COMMENT,
+			target_type: 'comment',
+			target_id: comment._id,
+			committee: comment.committee,
+			before: getCommentAuditDetails(comment),
+		})
+		return res.status(200).json({ message: 'Comment deleted' })
+	} catch (error) {
+		return next(error)
+	}
+}
+
+export { getComments, postComment, deleteComment }
@@ -1,13 +1,22 @@
 import { NextFunction, Request, Response } from 'express'
 import { CustomError, UnauthorizedUserError } from 'ntnui-tools/customError'
 import { CommitteeModel } from '../models/Committee'
-import { MAIN_BOARD_ID } from '../utils/constants'
 import { RequestWithNtnuiNo } from '../utils/request'
-import { getUserRoleInCommitteeByUserId } from '../utils/userCommittee'
+import { can, getPermissionUser, takesApplications } from '../utils/permissions'
+import logAuditEvent from '../utils/auditLog'
+import { AuditActions } from '../utils/enums'
+import { validateDateString } from '../utils/admissionRound'
 
 const getCommittees = (_req: Request, res: Response) => {
 	CommitteeModel.find()
-		.then((committees) => res.json(committees))
+		.then((committees) =>
+			res.json(
+				committees.map((committee) => ({
+					...committee.toObject(),
+					takes_applications: takesApplications(committee._id),
+				}))
+			)
+		)
 		.catch((err) => res.status(404).json({ message: err.message }))
 }
 
@@ -25,24 +34,26 @@ async function acceptAdmissions(
 		if (!committee) {
 			return res.status(404).json({ message: 'Committee not found' })
 		}
-		// Check if user is organizer or board member of the committee
-		const rolesInCommittees = await getUserRoleInCommitteeByUserId(ntnuiNo)
-		const isOrganizerOrBoardMember = rolesInCommittees.some(
-			(roleInCommittee) =>
-				roleInCommittee.committee === MAIN_BOARD_ID ||
-				roleInCommittee.committee === committee._id
-		)
-		if (isOrganizerOrBoardMember) {
+		// Check if user can open and close the admissions of the committee
+		const user = await getPermissionUser(ntnuiNo)
+		if (can(user, 'manage_admissions', { committee: committee._id })) {
 			// Toggle accepts_admissions for a committee
 			committee.accepts_admissions = !committee.accepts_admissions
 
 			return committee
 				.save()
-				.then(() =>
-					res.status(200).json({
+				.then(async () => {
+					await logAuditEvent(ntnuiNo, {
+						action: AuditActions.TOGGLE_ACCEPTS_ADMISSIONS,
+						target_type: 'committee',
+						target_id: committee._id,
+						before: { accepts_admissions: !committee.accepts_admissions },
+						after: { accepts_admissions: committee.accepts_admissions },
+					})
+					return res.status(200).json({
 						accepts_admissions: committee.accepts_admissions,
 					})
-				)
+				})
 				.catch((err) => res.status(500).json({ message: err.message }))
 		}
 		throw new CustomError(
@@ -54,4 +65,59 @@ async function acceptAdmissions(
 	}
 }
 
-export { getCommittees, acceptAdmissions }
+// Parse an optional date from the request body, null clears the date
+function parseOptionalDate(value: unknown) {
+	if (value === null || value === undefined || value === '') return null
+	return validateDateString(String(value))
+}
+
+async function updateAdmissionWindow(
+	req: RequestWithNtnuiNo,
+	res: Response,
+	next: NextFunction
+) {
+	try {
+		const { ntnuiNo } = req
+		if (!ntnuiNo) throw UnauthorizedUserError
+		const { slug } = req.params
+		const committee = await CommitteeModel.findOne({ slug })
+		if (!committee) {
+			return res.status(404).json({ message: 'Committee not found' })
+		}
+		const user = await getPermissionUser(ntnuiNo)
+		if (!can(user, 'manage_admissions', { committee: committee._id })) {
+			throw new CustomError(
+				'You are not authorized to change the admission window of this committee',
+				403
+			)
+		}
+		const startDate = parseOptionalDate(req.body.admission_start_date)
+		const endDate = parseOptionalDate(req.body.admission_end_date)
+		if (startDate && endDate && startDate > endDate) {
+			throw new CustomError("The start date can't be after the end date", 400)
+		}
+		const before = {
+			admission_start_date: committee.admission_start_date,
+			admission_end_date: committee.admission_end_date,
+		}
+		committee.admission_start_date = startDate
+		committee.admission_end_date = endDate
+		await committee.save()
+		const after = {
+			admission_start_date: committee.admission_start_date,
+			admission_end_date: committee.admission_end_date,
+		}
+		await logAuditEvent(ntnuiNo, {
+			action: AuditActions.UPDATE_ADMISSION_WINDOW,
+			target_type: 'committee',
+			target_id: committee._id,
+			before,
+			after,
+		})
+		return res.status(200).json(after)
+	} catch (error) {
+		return next(error)
+	}
+}
+
+export { getCommittees, acceptAdmissions, updateAdmissionWindow }
@@ -0,0 +1,141 @@
+import { NextFunction, Request, Response } from 'express'
+import { CustomError, UnauthorizedUserError } from 'ntnui-tools/customError'
+import { CommitteeModel } from '../models/Committee'
+import { CommitteeQuestionModel } from '../models/CommitteeQuestion'
+import { RequestWithNtnuiNo } from '../utils/request'
+import { can, getPermissionUser, IPermissionUser } from '../utils/permissions'
+import { parseQuestion } from '../utils/committeeQuestions'
+import logAuditEvent from '../utils/auditLog'
+import { AuditActions } from '../utils/enums'
+
+function checkQuestionAccess(committee: number, user: IPermissionUser) {
+	if (!can(user, 'manage_committee', { committee })) {
+		throw new CustomError(
+			'You do not have access to the questions of this committee',
+			403
+		)
+	}
+}
+
+async function findQuestion(questionId: string) {
+	const question = await CommitteeQuestionModel.findById(questionId).catch(
+		() => {
+			throw new CustomError('Could not find question', 404)
+		}
+	)
+	if (!question) throw new CustomError('Could not find question', 404)
+	return question
+}
+
+const getCommitteeQuestions = async (
+	req: Request,
+	res: Response,
+	next: NextFunction
+) => {
+	try {
+		// Optionally only the questions of the given committees
+		const committees = ([] as unknown[])
+			.concat(req.query.committee || [])
+			.map(Number)
+		if (committees.some((committee) => Number.isNaN(committee))) {
+			throw new CustomError('Committee must be a number', 400)
+		}
+		const questions = await CommitteeQuestionModel.find(
+			committees.length ? { committee: { $in: committees } } : {}
+		).sort({ committee: 1, created_date: 1 })
+		return res.status(200).json({ questions })
+	} catch (error) {
+		return next(error)
+	}
+}
+
+const postCommitteeQuestion = async (
+	req: RequestWithNtnuiNo,
+	res: Response,
+	next: NextFunction
+) => {
+	try {
+		const { ntnuiNo } = req
+		if (!ntnuiNo) throw UnauthorizedUserError
+		const user = await getPermissionUser(ntnuiNo)
+		const committee = Number(req.body.committee)
+		checkQuestionAccess(committee, user)
+		if (!(await CommitteeModel.exists({ _id: committee }))) {
+			throw new CustomError('Could not find committee', 404)
+		}
+		const question = await CommitteeQuestionModel.create({
+			committee,
+			...parseQuestion(req.body),
+		})
+		await logAuditEvent(ntnuiNo, {
+			action: AuditActions.CREATE_COMMITTEE_QUESTION,
+			target_type: 'committee_question',
+			target_id: question._id,
+			after: question,
+		})
+		return res.status(201).json({ question })
+	} catch (error) {
+		return next(error)
+	}
+}
+
+const putCommitteeQuestion = async (
+	req: RequestWithNtnuiNo,
+	res: Response,
+	next: NextFunction
+) => {
+	try {
+		const { ntnuiNo } = req
+		if (!ntnuiNo) throw UnauthorizedUserError
+		const user = await getPermissionUser(ntnuiNo)
+		const previousQuestion = await findQuestion(req.params.questionId)
+		checkQuestionAccess(previousQuestion.committee, user)
+		// Answers already given keep the question as it was when they were given
+		const question = await CommitteeQuestionModel.findByIdAndUpdate(
+			previousQuestion._id,
+			parseQuestion(req.body),
+			{ new: true }
+		)
+		await logAuditEvent(ntnuiNo, {
+			action: AuditActions.UPDATE_COMMITTEE_QUESTION,
+			target_type: 'committee_question',
+			target_id: previousQuestion._id,
+			before: previousQuestion,
+			after: question,
+		})
+		return res.status(200).json({ question })
+	} catch (error) {
+		return next(error)
+	}
+}
+
+const deleteCommitteeQuestion = async (
+	req: RequestWithNtnuiNo,
+	res: Response,
+	next: NextFunction
+) => {
+	try {
+		const { ntnuiNo } = req
+		if (!ntnuiNo) throw UnauthorizedUserError
+		const user = await getPermissionUser(ntnuiNo)
+		const question = await findQuestion(req.params.questionId)
+		checkQuestionAccess(question.committee, user)
+		await question.deleteOne()
+		await logAuditEvent(ntnuiNo, {
+			action: AuditActions.DELETE_COMMITTEE_QUESTION,
+			target_type: 'committee_question',
+			target_id: question._id,
+			before: question,
+		})
+		return res.status(200).json({ message: 'Question deleted' })
+	} catch (error) {
+		return next(error)
+	}
+}
+
+export {
+	getCommitteeQuestions,
+	postCommitteeQuestion,
+	putCommitteeQuestion,
+	deleteCommitteeQuestion,
+}
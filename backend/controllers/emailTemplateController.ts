@@ -0,0 +1,208 @@
+import { NextFunction, Response } from 'express'
+import dayjs from 'dayjs'
+import { CustomError, UnauthorizedUserError } from 'ntnui-tools/customError'
+import { RequestWithNtnuiNo } from '../utils/request'
+import { ApplicationModel } from '../models/Application'
+import { CommitteeModel } from '../models/Committee'
+import { EmailTemplateModel } from '../models/EmailTemplate'
+import { InterviewSlotModel } from '../models/InterviewSlot'
+import { UserModel } from '../models/User'
+import { AuditActions, MailLanguages, StatusTypes } from '../utils/enums'
+import { FRONTEND_URL } from '../utils/constants'
+import { can, getPermissionUser, IPermissionUser } from '../utils/permissions'
+import logAuditEvent from '../utils/auditLog'
+import { formatInterviewTime } from '../mail'
+import {
+	DEFAULT_STATUS_TEMPLATES,
+	PLACEHOLDERS,
+	renderMailTemplate,
+} from '../mail/templates'
+
+function checkTemplateAccess(committee: number, user: IPermissionUser) {
+	if (!can(user, 'manage_committee', { committee })) {
+		throw new CustomError(
+			'You do not have access to the email templates of this committee',
+			403
+		)
+	}
+}
+
+const getEmailTemplates = async (
+	req: RequestWithNtnuiNo,
+	res: Response,
+	next: NextFunction
+) => {
+	try {
+		const { ntnuiNo } = req
+		if (!ntnuiNo) throw UnauthorizedUserError
+		const user = await getPermissionUser(ntnuiNo)
+		const committee = Number(req.query.committee)
+		if (!committee) throw new CustomError('Committee must be a number', 400)
+		checkTemplateAccess(committee, user)
+		const committeeTemplates = await EmailTemplateModel.find({
+			committee,
+		}).catch(() => {
+			throw new CustomError('Something went wrong retrieving email templates', 500)
+		})
+		// Applicants are never sent mails about the initial status, or about
+		// withdrawing, which they do themselves
+		const statuses = Object.values(StatusTypes).filter(
+			(status) =>
+				status !== StatusTypes.PENDING && status !== StatusTypes.WITHDRAWN
+		)
+		const templates = statuses.flatMap((status) =>
+			Object.values(MailLanguages).map((language) => {
+				const committeeTemplate = committeeTemplates.find(
+					(template) => template.status === status && template.language === language
+				)
+				if (committeeTemplate) {
+					return { ...committeeTemplate.toObject(), is_default: false }
+				}
+				const defaultTemplate = DEFAULT_STATUS_TEMPLATES[status]?.[language]
+				return {
+					committee,
+					status,
+					language,
+					subject: defaultTemplate?.subject || '',
+					body: defaultTemplate?.body || '',
+					is_default: true,
+				}
+			})
+		)
+		return res.status(200).json({ templates, placeholders: PLACEHOLDERS })
+	} catch (error) {
+		return next(error)
+	}
+}
+
+const putEmailTemplate = async (
+	req: RequestWithNtnuiNo,
+	res: Response,
+	next: NextFunction
+) => {
+	try {
+		const { ntnuiNo } = req
+		if (!ntnuiNo) throw UnauthorizedUserError
+		const user = await UserModel.findById(ntnuiNo)
+		if (!user) throw UnauthorizedUserError
+		const committee = Number(req.body.committee)
+		checkTemplateAccess(committee, await getPermissionUser(ntnuiNo))
+		const { status, language, subject, body } = req.body
+		const previousTemplate = await EmailTemplateModel.findOne({
+			committee,
+			status,
+			language,
+		}).catch(() => null)
+		return EmailTemplateModel.findOneAndUpdate(
+			{ committee, status, language },
+			{
+				subject,
+				body,
+				updated_by: `${user.first_name} ${user.last_name}`,
+			},
+			{ new: true, upsert: true, runValidators: true }
+		)
+			.then(async (template) => {
+				await logAuditEvent(ntnuiNo, {
+					action: AuditActions.UPDATE_EMAIL_TEMPLATE,
+					target_type: 'email_template',
+					target_id: template._id,
+					before: previousTemplate,
+					after: template,
+				})
+				return res
+					.status(200)
+					.json({ template: { ...template.toObject(), is_default: false } })
+			})
+			.catch((err) => {
+				if (err.name === 'ValidationError' || err.name === 'CastError') {
+					return res.status(400).json({ message: err.message })
+				}
+				return res.status(500).json({ message: 'Unable to save email template' })
+			})
+	} catch (error) {
+		return next(error)
+	}
+}
+
+const deleteEmailTemplate = async (
+	req: RequestWithNtnuiNo,
+	res: Response,
+	next: NextFunction
+) => {
+	try {
+		const { ntnuiNo } = req
+		if (!ntnuiNo) throw UnauthorizedUserError
+		const user = await getPermissionUser(ntnuiNo)
+		const template = await EmailTemplateModel.findById(req.params.templateId)
+			.then((templateRes) => templateRes)
+			.catch(() => {
+				throw new CustomError('Could not find email template', 404)
+			})
+		if (!template) throw new CustomError('Could not find email template', 404)
+		checkTemplateAccess(template.committee, user)
+		// The default template is used again
+		await template.deleteOne()
+		await logAuditEvent(ntnuiNo, {
+			action: AuditActions.DELETE_EMAIL_TEMPLATE,
+			target_type: 'email_template',
+			target_id: template._id,
+			before: template,
+		})
+		return res.status(200).json({ message: 'Email template deleted' })
+	} catch (error) {
+		return next(error)
+	}
+}
+
+const postEmailTemplatePreview = async (
+	req: RequestWithNtnuiNo,
+	res: Response,
+	next: NextFunction
+) => {
+	try {
+		const { ntnuiNo } = req
+		if (!ntnuiNo) throw UnauthorizedUserError
+		const user = await getPermissionUser(ntnuiNo)
+		const committeeId = Number(req.body.committee)
+		checkTemplateAccess(committeeId, user)
+		const committee = await CommitteeModel.findById(committeeId)
+		if (!committee) throw new CustomError('Could not find committee', 404)
+		// Render the template as it would be sent to the latest applicant to the
+		// committee, which those managing it can read. Placeholder data is used
+		// for what is missing.
+		const application = await ApplicationModel.findOne({
+			committees: committeeId,
+		}).sort({ submitted_date: -1 })
+		const interview = application
+			? await InterviewSlotModel.findOne({
+					committee: committeeId,
+					application: application._id,
+			  })
+			: null
+		const preview = renderMailTemplate(
+			{ subject: req.body.subject || '', body: req.body.body || '' },
+			{
+				candidate_name: application?.name || 'Ola Nordmann',
+				committee_name: committee.name,
+				interview_time: formatInterviewTime(
+					interview?.start_time || dayjs().add(1, 'day').hour(12).minute(0).toDate()
+				),
+				// Links are only made when the applicant is invited
+				interview_link: `${FRONTEND_URL}/interview/eksempel`,
+			}
+		)
+		return res.status(200).json({
+			preview: { ...preview, applicant_name: application?.name || null },
+		})
+	} catch (error) {
+		return next(error)
+	}
+}
+
+export {
+	getEmailTemplates,
+	putEmailTemplate,
+	deleteEmailTemplate,
+	postEmailTemplatePreview,
+}
@@ -0,0 +1,202 @@
+import { NextFunction, Response } from 'express'
+import mongoose from 'mongoose'
+import { CustomError, UnauthorizedUserError } from 'ntnui-tools/customError'
+import { RequestWithNtnuiNo } from '../utils/request'
+import { InterviewSlotModel } from '../models/InterviewSlot'
+import bookInterviewSlot from '../utils/interviewBooking'
+import { MAIN_BOARD_ID } from '../utils/constants'
+import { AuditActions } from '../utils/enums'
+import getApplicationWithAccess from '../utils/applicationAccess'
+import { can, getPermissionUser, IPermissionUser } from '../utils/permissions'
+import logAuditEvent from '../utils/auditLog'
+
+const getInterviewSlots = async (
+	req: RequestWithNtnuiNo,
+	res: Response,
+	next: NextFunction
+) => {
+	try {
+		const { ntnuiNo } = req
+		if (!ntnuiNo) throw UnauthorizedUserError
+		const user = await getPermissionUser(ntnuiNo)
+		const committee = Number(req.query.committee)
+		if (!committee) throw new CustomError('Committee must be a number', 400)
+		if (!can(user, 'manage_committee', { committee })) {
+			throw new CustomError(
+				'You do not have access to the interview slots of this committee',
+				403
+			)
+		}
+		const slots = await InterviewSlotModel.find({ committee })
+			.populate('application', 'name')
+			.sort({ start_time: 1 })
+			.catch(() => {
+				throw new CustomError(
+					'Something went wrong retrieving interview slots',
+					500
+				)
+			})
+		return res.status(200).json({ slots })
+	} catch (error) {
+		return next(error)
+	}
+}
+
+const postInterviewSlot = async (
+	req: RequestWithNtnuiNo,
+	res: Response,
+	next: NextFunction
+) => {
+	try {
+		const { ntnuiNo } = req
+		if (!ntnuiNo) throw UnauthorizedUserError
+		const user = await getPermissionUser(ntnuiNo)
+		const committee = Number(req.body.committee)
+		if (!can(user, 'manage_committee', { committee })) {
+			throw new CustomError(
+				'You do not have access to publish interview slots for this committee',
+				403
+			)
+		}
+		const slot = new InterviewSlotModel({
+			committee,
+			start_time: req.body.start_time,
+			end_time: req.body.end_time,
+			location: req.body.location,
+			interviewers: req.body.interviewers,
+		})
+		return slot
+			.save()
+			.then(async (newSlot) => {
+				await logAuditEvent(ntnuiNo, {
+					action: AuditActions.CREATE_INTERVIEW_SLOT,
+					target_type: 'interview_slot',
+					target_id: newSlot._id,
+					committee: newSlot.committee,
+					after: newSlot,
+				})
+				return res.status(201).json({ slot: newSlot })
+			})
+			.catch((err) => {
+				if (err.name === 'ValidationError' || err.name === 'CastError') {
+					return res.status(400).json({ message: err.message })
+				}
+				return res.status(500).json({ message: 'Unable to save interview slot' })
+			})
+	} catch (error) {
+		return next(error)
+	}
+}
+
+async function getManagedSlot(slotId: string, user: IPermissionUser) {
+	const slot = await InterviewSlotModel.findById(slotId)
+		.then((slotRes) => slotRes)
+		.catch(() => {
+			throw new CustomError('Could not find interview slot', 404)
+		})
+	if (!slot) throw new CustomError('Could not find interview slot', 404)
+	if (!can(user, 'manage_committee', { committee: slot.committee })) {
+		throw new CustomError(
+			'You do not have access to the interview slots of this committee',
+			403
+		)
+	}
+	return slot
+}
+
+const deleteInterviewSlot = async (
+	req: RequestWithNtnuiNo,
+	res: Response,
+	next: NextFunction
+) => {
+	try {
+		const { ntnuiNo } = req
+		if (!ntnuiNo) throw UnauthorizedUserError
+		const user = await getPermissionUser(ntnuiNo)
+		const slot = await getManagedSlot(req.params.slotId, user)
+		await slot.deleteOne()
+		await logAuditEvent(ntnuiNo, {
+			action: AuditActions.DELETE_INTERVIEW_SLOT,
+			target_type: 'interview_slot',
+			target_id: slot._id,
+			committee: slot.committee,
+			before: slot,
+		})
+		return res.status(200).json({ message: 'Interview slot deleted' })
+	} catch (error) {
+		return next(error)
+	}
+}
+
+const putInterviewSlotApplication = async (
+	req: RequestWithNtnuiNo,
+	res: Response,
+	next: NextFunction
+) => {
+	try {
+		const { ntnuiNo } = req
+		if (!ntnuiNo) throw UnauthorizedUserError
+		const user = await getPermissionUser(ntnuiNo)
+		const slot = await getManagedSlot(req.params.slotId, user)
+		const previousApplication = slot.application
+		let updatedSlot
+		if (req.body.application) {
+			updatedSlot = await bookInterviewSlot(slot._id, req.body.application)
+		} else {
+			// Release the slot
+			slot.application = null
+			updatedSlot = await slot.save()
+		}
+		await logAuditEvent(ntnuiNo, {
+			action: AuditActions.BOOK_INTERVIEW_SLOT,
+			target_type: 'interview_slot',
+			target_id: slot._id,
+			committee: slot.committee,
+			before: { application: previousApplication },
+			after: { application: updatedSlot.application },
+		})
+		return res.status(200).json({ slot: updatedSlot })
+	} catch (error) {
+		return next(error)
+	}
+}
+
+const getApplicationInterviews = async (
+	req: RequestWithNtnuiNo,
+	res: Response,
+	next: NextFunction
+) => {
+	try {
+		const { ntnuiNo } = req
+		if (!ntnuiNo) throw UnauthorizedUserError
+		const user = await getPermissionUser(ntnuiNo)
+		const application = await getApplicationWithAccess(
+			req.params.application_id,
+			user
+		)
+		const slotQuery: {
+			application: mongoose.Types.ObjectId
+			committee?: object
+		} = { application: application._id }
+		// Only election committee should see interviews with the main board
+		if (!can(user, 'read_main_board')) {
+			slotQuery.committee = { $ne: MAIN_BOARD_ID }
+		}
+		const slots = await InterviewSlotModel.find(slotQuery)
+			.sort({ start_time: 1 })
+			.catch(() => {
+				throw new CustomError('Something went wrong retrieving interviews', 500)
+			})
+		return res.status(200).json({ slots })
+	} catch (error) {
+		return next(error)
+	}
+}
+
+export {
+	getInterviewSlots,
+	postInterviewSlot,
+	deleteInterviewSlot,
+	putInterviewSlotApplication,
+	getApplicationInterviews,
+}
@@ -0,0 +1,93 @@
+import { NextFunction, Request, Response } from 'express'
+import { CustomError } from 'ntnui-tools/customError'
+import { ApplicationModel } from '../models/Application'
+import { CommitteeModel } from '../models/Committee'
+import { InterviewInvitationModel } from '../models/InterviewInvitation'
+import { InterviewSlotModel } from '../models/InterviewSlot'
+import { StatusModel } from '../models/Status'
+import bookInterviewSlot from '../utils/interviewBooking'
+import { StatusTypes } from '../utils/enums'
+import { hashToken } from '../utils/token'
+
+async function getInvitationByToken(token: string) {
+	const invitation = await InterviewInvitationModel.findOne({
+		token_hash: hashToken(token),
+	})
+	if (!invitation) throw new CustomError('Could not find invitation', 404)
+	return invitation
+}
+
+const getInterviewInvitation = async (
+	req: Request,
+	res: Response,
+	next: NextFunction
+) => {
+	try {
+		const invitation = await getInvitationByToken(req.params.token)
+		const application = await ApplicationModel.findById(invitation.application)
+		if (!application) throw new CustomError('Could not find application', 404)
+		const committee = await CommitteeModel.findById(invitation.committee)
+		const status = await StatusModel.findById(invitation.status)
+		const canBook = status?.value === StatusTypes.INVITED_TO_INTERVIEW
+		const bookedSlot = await InterviewSlotModel.findOne({
+			committee: invitation.committee,
+			application: application._id,
+		}).select('-interviewers -application')
+		// Only expose the free slots, and never who booked the other slots
+		const slots = canBook
+			? await InterviewSlotModel.find({
+					committee: invitation.committee,
+					application: null,
+					start_time: { $gt: new Date() },
+			  })
+					.select('-interviewers -application')
+					.sort({ start_time: 1 })
+			: []
+		return res.status(200).json({
+			name: application.name,
+			committee: committee?.name,
+			can_book: canBook,
+			booked_slot: bookedSlot,
+			slots,
+		})
+	} catch (error) {
+		return next(error)
+	}
+}
+
+const postInterviewInvitationBooking = async (
+	req: Request,
+	res: Response,
+	next: NextFunction
+) => {
+	try {
+		const invitation = await getInvitationByToken(req.params.token)
+		const slot = await InterviewSlotModel.findById(req.body.slot)
+			.then((slotRes) => slotRes)
+			.catch(() => {
+				throw new CustomError('Could not find interview slot', 404)
+			})
+		// The invitation is only valid for the slots of its committee
+		if (!slot || slot.committee !== invitation.committee) {
+			throw new CustomError('Could not find interview slot', 404)
+		}
+		if (slot.start_time <= new Date()) {
+			throw new CustomError('The interview slot has already started', 409)
+		}
+		// Refuses booking unless the applicant is still invited to interview
+		const bookedSlot = await bookInterviewSlot(slot._id, invitation.application)
+		return res.status(200).json({
+			booked_slot: {
+				_id: bookedSlot._id,
+				committee: bookedSlot.committee,
+				start_time: bookedSlot.start_time,
+				end_time: bookedSlot.end_time,
+				location: bookedSlot.location,
+			},
+		})
+	} catch (error) {
+		return next(error)
+	}
+}
+
+export { getInterviewInvitation, postInterviewInvitationBooking }
@@ -0,0 +1,115 @@
+import { NextFunction, Response } from 'express'
+import { CustomError, UnauthorizedUserError } from 'ntnui-tools/customError'
+import { CommitteeModel } from '../models/Committee'
+import { ScheduledJobModel } from '../models/ScheduledJob'
+import { RequestWithNtnuiNo } from '../utils/request'
+import { can, getPermissionUser } from '../utils/permissions'
+import logAuditEvent from '../utils/auditLog'
+import { AuditActions, ScheduledJobTypes } from '../utils/enums'
+
+// Retrieve committee by slug, if the user can open and close its admissions
+async function findManagedCommittee(slug: string, ntnuiNo: number | string) {
+	const committee = await CommitteeModel.findOne({ slug })
+	if (!committee) throw new CustomError('Committee not found', 404)
+	const user = await getPermissionUser(ntnuiNo)
+	if (!can(user, 'manage_admissions', { committee: committee._id })) {
+		throw new CustomError(
+			'You are not authorized to schedule the admissions of this committee',
+			403
+		)
+	}
+	return committee
+}
+
+const getScheduledJobs = async (
+	req: RequestWithNtnuiNo,
+	res: Response,
+	next: NextFunction
+) => {
+	try {
+		const { ntnuiNo } = req
+		if (!ntnuiNo) throw UnauthorizedUserError
+		const committee = await findManagedCommittee(req.params.slug, ntnuiNo)
+		// Upcoming jobs, and the jobs that failed so they can be followed up
+		const scheduledJobs = await ScheduledJobModel.find({
+			committee: committee._id,
+			$or: [{ executed_date: null }, { error: { $ne: null } }],
+		}).sort({ run_at: 1 })
+		return res.status(200).json({ scheduledJobs })
+	} catch (error) {
+		return next(error)
+	}
+}
+
+const postScheduledJob = async (
+	req: RequestWithNtnuiNo,
+	res: Response,
+	next: NextFunction
+) => {
+	try {
+		const { ntnuiNo } = req
+		if (!ntnuiNo) throw UnauthorizedUserError
+		const committee = await findManagedCommittee(req.params.slug, ntnuiNo)
+		const { type } = req.body
+		if (!Object.values(ScheduledJobTypes).includes(type)) {
+			throw new CustomError('Invalid job type', 400)
+		}
+		const runAt = new Date(req.body.run_at)
+		if (Number.isNaN(runAt.getTime())) {
+			throw new CustomError('Invalid time', 400)
+		}
+		if (runAt <= new Date()) {
+			throw new CustomError('The time must be in the future', 400)
+		}
+		const scheduledJob = await ScheduledJobModel.create({
+			type,
+			committee: committee._id,
+			run_at: runAt,
+			created_by: ntnuiNo,
+		})
+		await logAuditEvent(ntnuiNo, {
+			action: AuditActions.CREATE_SCHEDULED_JOB,
+			target_type: 'scheduled_job',
+			target_id: scheduledJob._id,
+			after: scheduledJob,
+		})
+		return res.status(201).json({ scheduledJob })
+	} catch (error) {
+		return next(error)
+	}
+}
+
+const deleteScheduledJob = async (
+	req: RequestWithNtnuiNo,
+	res: Response,
+	next: NextFunction
+) => {
+	try {
+		const { ntnuiNo } = req
+		if (!ntnuiNo) throw UnauthorizedUserError
+		const committee = await findManagedCommittee(req.params.slug, ntnuiNo)
+		const scheduledJob = await ScheduledJobModel.findOne({
+			_id: req.params.jobId,
+			committee: committee._id,
+		}).catch(() => {
+			throw new CustomError('Invalid job id', 400)
+		})
+		if (!scheduledJob) throw new CustomError('Scheduled job not found', 404)
+		// A failed job can be removed once it has been followed up
+		if (scheduledJob.executed_date && !scheduledJob.error) {
+			throw new CustomError('The job has already been run', 409)
+		}
+		await scheduledJob.deleteOne()
+		await logAuditEvent(ntnuiNo, {
+			action: AuditActions.DELETE_SCHEDULED_JOB,
+			target_type: 'scheduled_job',
+			target_id: scheduledJob._id,
+			before: scheduledJob,
+		})
+		return res.status(200).json({ message: 'Scheduled job deleted' })
+	} catch (error) {
+		return next(error)
+	}
+}
+
+export { getScheduledJobs, postScheduledJob, deleteScheduledJob }
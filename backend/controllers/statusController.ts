@@ -1,9 +1,19 @@
-import { NextFunction, Response } from 'express'
+import { NextFunction, Request, Response } from 'express'
 import { CustomError, UnauthorizedUserError } from 'ntnui-tools/customError'
 import { RequestWithNtnuiNo } from '../utils/request'
 import { IUser, UserModel } from '../models/User'
 import { StatusModel } from '../models/Status'
-import { ELECTION_COMMITTEE_ID, MAIN_BOARD_ID } from '../utils/constants'
+import { StatusHistoryModel } from '../models/StatusHistory'
+import { ApplicationModel } from '../models/Application'
+import { can, getPermissionUser } from '../utils/permissions'
+import { AuditActions, StatusTypes } from '../utils/enums'
+import {
+	isLegalStatusTransition,
+	STATUS_TRANSITIONS,
+} from '../utils/statusTransitions'
+import createInterviewInvitation from '../utils/interviewInvitation'
+import { sendStatusMail } from '../mail'
+import logAuditEvent, { writeAuditEvent } from '../utils/auditLog'
 
 const putStatus = async (
 	req: RequestWithNtnuiNo,
@@ -30,36 +40,85 @@ const putStatus = async (
 				)
 			})
 		if (!status) throw new CustomError('Could not find status', 404)
-		// Check that user is in committee that status is set for
-		const isUserInCommittee = user.committees.find(
-			(committee) => committee.committee === status.committee
-		)
-		// Check if user is in election committee
-		const isUserInElectionCommittee = user.committees
-			.map((committee) => committee.committee)
-			.includes(ELECTION_COMMITTEE_ID)
-		// Check if status is for main board
-		const isStatusForMainBoard = status.committee === MAIN_BOARD_ID
+		// Committees can only change their own statuses, except for the main
+		// board whose statuses are handled by the election committee
+		const permissionUser = await getPermissionUser(ntnuiNo)
 		if (
-			isUserInCommittee ||
-			(isStatusForMainBoard && isUserInElectionCommittee)
+			can(permissionUser, 'manage_committee', { committee: status.committee })
 		) {
+			if (!Object.values<string>(StatusTypes).includes(req.body.value)) {
+				throw new CustomError(`${req.body.value} is not a supported value`, 400)
+			}
+			// Only allow moving the status along the status workflow
+			if (!isLegalStatusTransition(status.value, req.body.value)) {
+				throw new CustomError(
+					`The status can not be changed from ${status.value} to ${req.body.value}`,
+					409
+				)
+			}
+			const previousValue = status.value
+			const previousSetBy = status.set_by
 			status.value = req.body.value
 			status.set_by = `${user.first_name} ${user.last_name}`
-			// Save status
-			return status
+			// Without transactions, the history entry is written first and the
+			// changes are undone if the status or the audit entry can't be saved,
+			// so the status is never changed without a record of it
+			const history = await StatusHistoryModel.create({
+				status: status._id,
+				committee: status.committee,
+				previous_value: previousValue,
+				value: status.value,
+				set_by: status.set_by,
+			}).catch(() => {
+				throw new CustomError('Could not update status', 500)
+			})
+			let isStatusSaved = false
+			const newStatus = await status
 				.save()
-				.then((newStatus) =>
-					res.status(200).json({
-						status: newStatus,
+				.then(async (savedStatus) => {
+					isStatusSaved = true
+					await writeAuditEvent(ntnuiNo, {
+						action: AuditActions.UPDATE_STATUS,
+						target_type: 'status',
+						target_id: savedStatus._id,
+						committee: savedStatus.committee,
+						before: { value: previousValue },
+						after: { value: savedStatus.value },
 					})
-				)
-				.catch((err) => {
+					return savedStatus
+				})
+				.catch(async (err) => {
+					await StatusHistoryModel.deleteOne({ _id: history._id })
+					if (isStatusSaved) {
+						await StatusModel.updateOne(
+							{ _id: status._id },
+							{ value: previousValue, set_by: previousSetBy }
+						)
+					}
 					if (err.name === 'ValidationError') {
-						return res.status(400).json({ message: err.message })
+						throw new CustomError(err.message, 400)
 					}
 					throw new CustomError('Could not update status', 500)
 				})
+			const application = await ApplicationModel.findOne({
+				statuses: newStatus._id,
+			})
+			let interviewLink: string | undefined
+			if (application) {
+				// Give the applicant a link to book an interview
+				if (newStatus.value === StatusTypes.INVITED_TO_INTERVIEW) {
+					interviewLink = await createInterviewInvitation(
+						newStatus._id,
+						newStatus.committee,
+						application._id
+					)
+				}
+				sendStatusMail(application, newStatus, interviewLink)
+			}
+			return res.status(200).json({
+				status: newStatus,
+				interview_link: interviewLink,
+			})
 		}
 		throw new CustomError(
 			'You do not have access to change the status of this application for this committee',
@@ -70,4 +129,91 @@ const putStatus = async (
 	}
 }
 
-export default putStatus
+const getStatusHistory = async (
+	req: RequestWithNtnuiNo,
+	res: Response,
+	next: NextFunction
+) => {
+	try {
+		// Access control - retrieve committees that user is member of
+		const { ntnuiNo } = req
+		if (!ntnuiNo) throw UnauthorizedUserError
+		const user = await getPermissionUser(ntnuiNo)
+		// Retrieve status and the application it belongs to
+		const status = await StatusModel.findById(req.params.statusId)
+			.then((statusRes) => statusRes)
+			.catch(() => {
+				throw new CustomError('Could not find status', 404)
+			})
+		if (!status) throw new CustomError('Could not find status', 404)
+		const application = await ApplicationModel.findOne({ statuses: status._id })
+		if (!application) throw new CustomError('Could not find application', 404)
+
+		// Same visibility rules as when retrieving the application
+		if (
+			!can(user, 'read_status', {
+				committee: status.committee,
+				applicationCommittees: application.committees,
+			})
+		) {
+			throw new CustomError('You do not have access to this status', 403)
+		}
+
+		const history = await StatusHistoryModel.find({ status: status._id })
+			.sort({ set_date: -1 })
+			.select('-status')
+		return res.status(200).json({ history })
+	} catch (error) {
+		return next(error)
+	}
+}
+
+const postInterviewLink = async (
+	req: RequestWithNtnuiNo,
+	res: Response,
+	next: NextFunction
+) => {
+	try {
+		const { ntnuiNo } = req
+		if (!ntnuiNo) throw UnauthorizedUserError
+		const user = await getPermissionUser(ntnuiNo)
+		const status = await StatusModel.findById(req.params.statusId)
+			.then((statusRes) => statusRes)
+			.catch(() => {
+				throw new CustomError('Could not find status', 404)
+			})
+		if (!status) throw new CustomError('Could not find status', 404)
+		if (!can(user, 'manage_committee', { committee: status.committee })) {
+			throw new CustomError(
+				'You do not have access to invite the applicant to interview for this committee',
+				403
+			)
+		}
+		if (status.value !== StatusTypes.INVITED_TO_INTERVIEW) {
+			throw new CustomError('The applicant is not invited to interview', 409)
+		}
+		const application = await ApplicationModel.findOne({ statuses: status._id })
+		if (!application) throw new CustomError('Could not find application', 404)
+		// Replaces the previous link, which stops working
+		const interviewLink = await createInterviewInvitation(
+			status._id,
+			status.committee,
+			application._id
+		)
+		await logAuditEvent(ntnuiNo, {
+			action: AuditActions.CREATE_INTERVIEW_LINK,
+			target_type: 'status',
+			target_id: status._id,
+			committee: status.committee,
+		})
+		sendStatusMail(application, status, interviewLink)
+		return res.status(201).json({ interview_link: interviewLink })
+	} catch (error) {
+		return next(error)
+	}
+}
+
+const getStatusTransitions = (_req: Request, res: Response) =>
+	res.status(200).json({ transitions: STATUS_TRANSITIONS })
+
+export { putStatus, getStatusHistory, postInterviewLink, getStatusTransitions }
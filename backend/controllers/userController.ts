@@ -1,7 +1,10 @@
 import { NextFunction, Response } from 'express'
-import { UnauthorizedUserError } from 'ntnui-tools/customError'
+import { CustomError, UnauthorizedUserError } from 'ntnui-tools/customError'
 import { RequestWithNtnuiNo } from '../utils/request'
 import { UserModel } from '../models/User'
+import { SessionModel } from '../models/Session'
+import { CommitteeModel } from '../models/Committee'
+import { getPermissionUser, getUserPermissions } from '../utils/permissions'
 
 const getUserCommittees = async (
 	req: RequestWithNtnuiNo,
@@ -46,4 +49,82 @@ const getUserProfile = async (
 	}
 }
 
-export { getUserCommittees, getUserProfile }
+const getUserPermissionsById = async (
+	req: RequestWithNtnuiNo,
+	res: Response,
+	next: NextFunction
+) => {
+	try {
+		const { ntnuiNo } = req
+		if (!ntnuiNo) throw UnauthorizedUserError
+		const user = await getPermissionUser(ntnuiNo)
+		const committees = await CommitteeModel.find().select('_id')
+		return res.status(200).json({
+			permissions: getUserPermissions(
+				user,
+				committees.map((committee) => committee._id)
+			),
+		})
+	} catch (error) {
+		return next(error)
+	}
+}
+
+const getUserSessions = async (
+	req: RequestWithNtnuiNo,
+	res: Response,
+	next: NextFunction
+) => {
+	try {
+		const { ntnuiNo, sessionId } = req
+		if (!ntnuiNo) throw UnauthorizedUserError
+		const sessions = await SessionModel.find({
+			user: ntnuiNo,
+			expires_date: { $gt: new Date() },
+		}).sort({ last_used_date: -1 })
+		return res.status(200).json({
+			sessions: sessions.map((session) => ({
+				_id: session._id,
+				user_agent: session.user_agent,
+				created_date: session.created_date,
+				last_used_date: session.last_used_date,
+				current: String(session._id) === sessionId,
+			})),
+		})
+	} catch (error) {
+		return next(error)
+	}
+}
+
+const deleteUserSession = async (
+	req: RequestWithNtnuiNo,
+	res: Response,
+	next: NextFunction
+) => {
+	try {
+		const { ntnuiNo } = req
+		if (!ntnuiNo) throw UnauthorizedUserError
+		// Users can only revoke their own sessions
+		const session = await SessionModel.findOne({
+			_id: req.params.session_id,
+			user: ntnuiNo,
+		})
+			.then((sessionRes) => sessionRes)
+			.catch(() => {
+				throw new CustomError('Could not find session', 404)
+			})
+		if (!session) throw new CustomError('Could not find session', 404)
+		await session.deleteOne()
+		return res.status(200).json({ message: 'Session revoked' })
+	} catch (error) {
+		return next(error)
+	}
+}
+
+export {
+	getUserCommittees,
+	getUserProfile,
+	getUserPermissionsById,
+	getUserSessions,
+	deleteUserSession,
+}
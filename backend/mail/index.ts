@@ -0,0 +1,132 @@
+/* eslint-disable no-console */
+import dayjs from 'dayjs'
+import 'dayjs/locale/nb'
+import mongoose from 'mongoose'
+import { IApplication } from '../models/Application'
+import { CommitteeModel } from '../models/Committee'
+import { EmailTemplateModel } from '../models/EmailTemplate'
+import { InterviewSlotModel } from '../models/InterviewSlot'
+import { IStatus } from '../models/Status'
+import { StatusTypes } from '../utils/enums'
+import mailTransport from './transports'
+import {
+	DEFAULT_STATUS_TEMPLATES,
+	MailTemplates,
+	MailValues,
+	PORTAL_LINK_TEMPLATES,
+	RECEIPT_TEMPLATES,
+	renderBilingualMail,
+} from './templates'
+
+const MAIL_FROM = process.env.MAIL_FROM || 'NTNUI Admin <noreply@ntnui.no>'
+
+function formatInterviewTime(startTime: Date) {
+	return dayjs(startTime).locale('nb').format('dddd D. MMMM YYYY [kl.] HH:mm')
+}
+
+/**
+ * The templates written by the committee for the status, falling back to
+ * the default templates for the languages the committee has not written.
+ * Returns null if no mail should be sent for the status.
+ */
+async function getStatusMailTemplates(
+	committee: number,
+	status: StatusTypes
+): Promise<Partial<MailTemplates> | null> {
+	const committeeTemplates = await EmailTemplateModel.find({
+		committee,
+		status,
+	})
+	const defaultTemplates = DEFAULT_STATUS_TEMPLATES[status]
+	const templates: Partial<MailTemplates> = { ...defaultTemplates }
+	committeeTemplates.forEach((template) => {
+		templates[template.language] = {
+			subject: template.subject,
+			body: template.body,
+		}
+	})
+	return Object.keys(templates).length ? templates : null
+}
+
+/**
+ * Sending mails should never fail the request that triggered it,
+ * so failures are only logged
+ */
+async function sendMail(
+	to: string,
+	templates: Partial<MailTemplates>,
+	values: MailValues
+) {
+	try {
+		const { subject, text } = renderBilingualMail(templates, values)
+		await mailTransport.send({ from: MAIL_FROM, to, subject, text })
+	} catch (error) {
+		console.error(`📧 Could not send mail to ${to}`, error)
+	}
+}
+
+async function getCommitteeNames(application: IApplication) {
+	const committees = await CommitteeModel.find({
+		_id: { $in: application.committees },
+	}).catch(() => [])
+	const committeeNames = committees.map((committee) => committee.name)
+	return committeeNames.length > 1
+		? `${committeeNames.slice(0, -1).join(', ')} og ${committeeNames.slice(-1)}`
+		: committeeNames.join('')
+}
+
+async function sendApplicationReceipt(
+	application: IApplication,
+	portalLink: string
+) {
+	return sendMail(application.email, RECEIPT_TEMPLATES, {
+		candidate_name: application.name,
+		committee_name: await getCommitteeNames(application),
+		portal_link: portalLink,
+	})
+}
+
+async function sendApplicantPortalLink(
+	application: IApplication,
+	portalLink: string
+) {
+	return sendMail(application.email, PORTAL_LINK_TEMPLATES, {
+		candidate_name: application.name,
+		committee_name: await getCommitteeNames(application),
+		portal_link: portalLink,
+	})
+}
+
+async function sendStatusMail(
+	application: IApplication & { _id: mongoose.Types.ObjectId },
+	status: IStatus,
+	interviewLink?: string
+) {
+	try {
+		const templates = await getStatusMailTemplates(
+			status.committee,
+			status.value as StatusTypes
+		)
+		if (!templates) return
+		const committee = await CommitteeModel.findById(status.committee)
+		const interview = await InterviewSlotModel.findOne({
+			committee: status.committee,
+			application: application._id,
+		})
+		await sendMail(application.email, templates, {
+			candidate_name: application.name,
+			committee_name: committee?.name || 'NTNUI',
+			interview_time: interview ? formatInterviewTime(interview.start_time) : '',
+			interview_link: interviewLink || '',
+		})
+	} catch (error) {
+		console.error('📧 Could not send status mail', error)
+	}
+}
+
+export {
+	sendApplicationReceipt,
+	sendApplicantPortalLink,
+	sendStatusMail,
+	formatInterviewTime,
+}
@@ -0,0 +1,177 @@
+import { MailLanguages, StatusTypes } from '../utils/enums'
+
+interface IMailTemplate {
+	subject: string
+	body: string
+}
+
+type MailTemplates = Record<MailLanguages, IMailTemplate>
+
+type MailValues = Record<string, string>
+
+// Variables that can be used in templates as {{variable}}
+const PLACEHOLDERS = [
+	'candidate_name',
+	'committee_name',
+	'interview_time',
+	'interview_link',
+]
+
+const RECEIPT_TEMPLATES: MailTemplates = {
+	[MailLanguages.NORWEGIAN]: {
+		subject: 'Vi har mottatt søknaden din',
+		body: `Hei {{candidate_name}}!
+
+Takk for at du søker verv i NTNUI. Vi har mottatt søknaden din til {{committee_name}}.
+Du vil høre fra utvalgene når søknaden er behandlet.
+
+Her kan du se søknaden din, endre søknadsteksten mens opptaket pågår eller
+trekke søknaden: {{portal_link}}
+
+Med vennlig hilsen
+NTNUI`,
+	},
+	[MailLanguages.ENGLISH]: {
+		subject: 'We have received your application',
+		body: `Hi {{candidate_name}}!
+
+Thank you for applying for a position in NTNUI. We have received your application to {{committee_name}}.
+You will hear from the committees when your application has been processed.
+
+Here you can see your application, change the application text while the
+admission is open or withdraw your application: {{portal_link}}
+
+Best regards
+NTNUI`,
+	},
+}
+
+const PORTAL_LINK_TEMPLATES: MailTemplates = {
+	[MailLanguages.NORWEGIAN]: {
+		subject: 'Lenke til søknaden din',
+		body: `Hei {{candidate_name}}!
+
+Her er lenken til søknaden din til {{committee_name}}: {{portal_link}}
+Lenken er personlig, så ikke del den med andre.
+
+Med vennlig hilsen
+NTNUI`,
+	},
+	[MailLanguages.ENGLISH]: {
+		subject: 'Link to your application',
+		body: `Hi {{candidate_name}}!
+
+Here is the link to your application to {{committee_name}}: {{portal_link}}
+The link is personal, so do not share it with anyone.
+
+Best regards
+NTNUI`,
+	},
+}
+
+// Used for the statuses a committee has not written its own templates for
+const DEFAULT_STATUS_TEMPLATES: Partial<Record<StatusTypes, MailTemplates>> = {
+	[StatusTypes.INVITED_TO_INTERVIEW]: {
+		[MailLanguages.NORWEGIAN]: {
+			subject: 'Invitasjon til intervju med {{committee_name}}',
+			body: `Hei {{candidate_name}}!
+
+{{committee_name}} vil gjerne invitere deg til intervju.
+Velg tidspunktet som passer deg best her: {{interview_link}}
+
+Med vennlig hilsen
+{{committee_name}}`,
+		},
+		[MailLanguages.ENGLISH]: {
+			subject: 'Invitation to interview with {{committee_name}}',
+			body: `Hi {{candidate_name}}!
+
+{{committee_name}} would like to invite you to an interview.
+Choose the time that suits you best here: {{interview_link}}
+
+Best regards
+{{committee_name}}`,
+		},
+	},
+	[StatusTypes.OFFER_GIVEN]: {
+		[MailLanguages.NORWEGIAN]: {
+			subject: 'Tilbud om verv i {{committee_name}}',
+			body: `Hei {{candidate_name}}!
+
+Vi er glade for å kunne tilby deg verv i {{committee_name}}.
+Du vil snart bli kontaktet med mer informasjon.
+
+Med vennlig hilsen
+{{committee_name}}`,
+		},
+		[MailLanguages.ENGLISH]: {
+			subject: 'Offer of a position in {{committee_name}}',
+			body: `Hi {{candidate_name}}!
+
+We are happy to offer you a position in {{committee_name}}.
+You will soon be contacted with more information.
+
+Best regards
+{{committee_name}}`,
+		},
+	},
+	[StatusTypes.REJECTED]: {
+		[MailLanguages.NORWEGIAN]: {
+			subject: 'Svar på søknad til {{committee_name}}',
+			body: `Hei {{candidate_name}}!
+
+Takk for din interesse for {{committee_name}}. Vi har dessverre ikke mulighet
+til å gå videre med søknaden din denne gangen.
+
+Med vennlig hilsen
+{{committee_name}}`,
+		},
+		[MailLanguages.ENGLISH]: {
+			subject: 'Reply to your application to {{committee_name}}',
+			body: `Hi {{candidate_name}}!
+
+Thank you for your interest in {{committee_name}}. Unfortunately, we are not
+able to proceed with your application this time.
+
+Best regards
+{{committee_name}}`,
+		},
+	},
+}
+
+// Replace {{placeholder}} with the value, unknown placeholders are removed
+function fillPlaceholders(text: string, values: MailValues) {
+	return text.replace(/{{\s*(\w+)\s*}}/g, (_match, key) => values[key] || '')
+}
+
+function renderMailTemplate(template: IMailTemplate, values: MailValues) {
+	return {
+		subject: fillPlaceholders(template.subject, values),
+		text: fillPlaceholders(template.body, values),
+	}
+}
+
+// Applicants are sent all the languages in the same mail, Norwegian first
+function renderBilingualMail(
+	templates: Partial<MailTemplates>,
+	values: MailValues
+) {
+	const mails = Object.values(MailLanguages)
+		.map((language) => templates[language])
+		.filter((template): template is IMailTemplate => !!template)
+		.map((template) => renderMailTemplate(template, values))
+	return {
+		subject: mails.map((mail) => mail.subject).join(' / '),
+		text: mails.map((mail) => mail.text).join('\n\n---\n\n'),
+	}
+}
+
+export {
+	PLACEHOLDERS,
+	RECEIPT_TEMPLATES,
+	PORTAL_LINK_TEMPLATES,
+	DEFAULT_STATUS_TEMPLATES,
+	renderMailTemplate,
+	renderBilingualMail,
+}
+export type { IMailTemplate, MailTemplates, MailValues }
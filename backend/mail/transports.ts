@@ -0,0 +1,76 @@
+/* eslint-disable no-console */
+import fs from 'fs/promises'
+import path from 'path'
+import nodemailer from 'nodemailer'
+
+interface IMail {
+	from: string
+	to: string
+	subject: string
+	text: string
+}
+
+interface IMailTransport {
+	send: (mail: IMail) => Promise<void>
+}
+
+function createSmtpTransport(): IMailTransport {
+	const transporter = nodemailer.createTransport({
+		host: process.env.SMTP_HOST,
+		port: Number(process.env.SMTP_PORT) || 587,
+		secure: Number(process.env.SMTP_PORT) === 465,
+		auth: process.env.SMTP_USER
+			? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+			: undefined,
+	})
+	return {
+		send: async (mail) => {
+			await transporter.sendMail(mail)
+		},
+	}
+}
+
+// Writes each mail to its own file, to inspect mails in local development
+function createFileTransport(directory: string): IMailTransport {
+	return {
+		send: async (mail) => {
+			await fs.mkdir(directory, { recursive: true })
+			const fileName = `${Date.now()}-${mail.to.replace(/[^\w.@-]/g, '_')}.txt`
+			await fs.writeFile(
+				path.join(directory, fileName),
+				`From: ${mail.from}\nTo: ${mail.to}\nSubject: ${mail.subject}\n\n${mail.text}\n`
+			)
+		},
+	}
+}
+
+const consoleTransport: IMailTransport = {
+	send: async (mail) => {
+		console.log(
+			`📧 Mail to ${mail.to}\nSubject: ${mail.subject}\n\n${mail.text}\n`
+		)
+	},
+}
+
+/**
+ * Select transport with the MAIL_TRANSPORT variable, mails are
+ * only printed to the console unless set to smtp or file
+ */
+function getMailTransport(): IMailTransport {
+	switch (process.env.MAIL_TRANSPORT) {
+		case 'smtp':
+			return createSmtpTransport()
+		case 'file':
+			return createFileTransport(process.env.MAIL_DIR || 'mails')
+		default:
+			return consoleTransport
+	}
+}
+
+const mailTransport = getMailTransport()
+console.log(
+	`📧 MAIL_TRANSPORT set to ${process.env.MAIL_TRANSPORT || 'console'}`
+)
+
+export default mailTransport
+export type { IMail, IMailTransport }
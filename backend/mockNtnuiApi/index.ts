@@ -0,0 +1,146 @@
+import crypto from 'crypto'
+import express, { NextFunction, Request, Response } from 'express'
+import jsonwebtoken, { JwtPayload } from 'jsonwebtoken'
+import { normalizePhoneNumber } from '../utils/duplicates'
+import personas, { IMockNtnuiUser } from './personas'
+
+interface IMockNtnuiApiOptions {
+	users?: IMockNtnuiUser[]
+	// Lifetime of the tokens in seconds
+	accessTokenLifetime?: number
+	refreshTokenLifetime?: number
+	// Secret the tokens are signed with, random if not given
+	secret?: string
+}
+
+interface RequestWithMockUser extends Request {
+	user?: IMockNtnuiUser
+}
+
+type TokenType = 'access' | 'refresh'
+
+/**
+ * # The mock NTNUI API
+ * Answers the parts of the NTNUI API used by ntnui-tools, so the backend can
+ * be run and tested without an NTNUI account by pointing API_URI at it.
+ * - POST /token/ with phone_number and password gives access and refresh tokens
+ * - POST /token/refresh/ with a refresh token gives a new access token
+ * - POST /token/verify/ with a token answers 200 if the token is valid
+ * - GET /users/profile/ gives the profile of the user
+ * - GET /groups/:slug/ gives the role of the user in the group, or null
+ *
+ * The tokens are JWTs with the ntnui_no of the user, like the real ones. Unless
+ * a secret is given, they are signed with a secret made when the API is
+ * created, and restarting the API therefore logs everyone out.
+ */
+function createMockNtnuiApi({
+	users = personas,
+	accessTokenLifetime = 1800,
+	refreshTokenLifetime = 86400,
+	secret = crypto.randomBytes(32).toString('hex'),
+}: IMockNtnuiApiOptions = {}) {
+	const app = express()
+	app.use(express.json())
+
+	const signToken = (user: IMockNtnuiUser, tokenType: TokenType) =>
+		jsonwebtoken.sign(
+			{ ntnui_no: user.ntnui_no, token_type: tokenType },
+			secret,
+			{
+				expiresIn:
+					tokenType === 'access' ? accessTokenLifetime : refreshTokenLifetime,
+			}
+		)
+
+	const verifyToken = (token: unknown, tokenType: TokenType) => {
+		if (typeof token !== 'string') return undefined
+		try {
+			const payload = jsonwebtoken.verify(token, secret) as JwtPayload
+			if (payload.token_type !== tokenType) return undefined
+			return users.find((user) => user.ntnui_no === payload.ntnui_no)
+		} catch (error) {
+			return undefined
+		}
+	}
+
+	const invalidToken = (res: Response) =>
+		res
+			.status(401)
+			.json({ detail: 'Token is invalid or expired', code: 'token_not_valid' })
+
+	const authentication = (
+		req: RequestWithMockUser,
+		res: Response,
+		next: NextFunction
+	) => {
+		const [scheme, token] = (req.headers.authorization || '').split(' ')
+		const user = scheme === 'Bearer' ? verifyToken(token, 'access') : undefined
+		if (!user) return invalidToken(res)
+		req.user = user
+		return next()
+	}
+
+	app.post('/token', (req: Request, res: Response) => {
+		const { phone_number: phoneNumber, password } = req.body
+		const user =
+			typeof phoneNumber === 'string' &&
+			users.find(
+				(other) =>
+					normalizePhoneNumber(other.phone_number) ===
+						normalizePhoneNumber(phoneNumber) && other.password === password
+			)
+		if (!user) {
+			return res.status(401).json({
+				detail: 'No active account found with the given credentials',
+			})
+		}
+		return res.status(200).json({
+			access: signToken(user, 'access'),
+			refresh: signToken(user, 'refresh'),
+		})
+	})
+
+	app.post('/token/refresh', (req: Request, res: Response) => {
+		const user = verifyToken(req.body.refresh, 'refresh')
+		if (!user) return invalidToken(res)
+		return res.status(200).json({ access: signToken(user, 'access') })
+	})
+
+	app.post('/token/verify', (req: Request, res: Response) => {
+		if (!verifyToken(req.body.token, 'access')) return invalidToken(res)
+		return res.status(200).json({})
+	})
+
+	app.get(
+		'/users/profile',
+		authentication,
+		(req: RequestWithMockUser, res: Response) => {
+			const user = req.user as IMockNtnuiUser
+			return res.status(200).json({
+				ntnui_no: user.ntnui_no,
+				first_name: user.first_name,
+				last_name: user.last_name,
+				email: user.email,
+				phone_number: user.phone_number,
+			})
+		}
+	)
+
+	app.get(
+		'/groups/:slug',
+		authentication,
+		(req: RequestWithMockUser, res: Response) => {
+			const membership = req.user?.groups.find(
+				(group) => group.slug === req.params.slug
+			)
+			return res
+				.status(200)
+				.json({ slug: req.params.slug, role: membership?.role || null })
+		}
+	)
+
+	return app
+}
+
+export default createMockNtnuiApi
+export type { IMockNtnuiApiOptions }
@@ -0,0 +1,67 @@
+import { MembershipType } from '../utils/enums'
+
+interface IMockGroupMembership {
+	// Slug of the group in NTNUI, matching the slug of the committee
+	slug: string
+	role: MembershipType
+}
+
+interface IMockNtnuiUser {
+	ntnui_no: number
+	phone_number: string
+	password: string
+	first_name: string
+	last_name: string
+	email: string
+	groups: IMockGroupMembership[]
+}
+
+/**
+ * Users seeded in the mock NTNUI API, matching the committees in the
+ * fixtures. All of them log in with the password "password".
+ */
+const personas: IMockNtnuiUser[] = [
+	{
+		ntnui_no: 900001,
+		phone_number: '+4790000001',
+		password: 'password',
+		first_name: 'Hanne',
+		last_name: 'Hovedstyret',
+		email: 'leder@hovedstyret.no',
+		groups: [{ slug: 'hovedstyret', role: MembershipType.leader }],
+	},
+	{
+		ntnui_no: 900002,
+		phone_number: '+4790000002',
+		password: 'password',
+		first_name: 'Vegard',
+		last_name: 'Valgkomiteen',
+		email: 'medlem@valgkomiteen.no',
+		groups: [{ slug: 'valgkomiteen', role: MembershipType.board_member }],
+	},
+	{
+		ntnui_no: 900003,
+		phone_number: '+4790000003',
+		password: 'password',
+		first_name: 'Sara',
+		last_name: 'Sprint',
+		email: 'leder@sprint.no',
+		groups: [
+			{ slug: 'sprint', role: MembershipType.leader },
+			{ slug: 'turn', role: MembershipType.member },
+		],
+	},
+	{
+		// Only an ordinary member, who should not be let in
+		ntnui_no: 900004,
+		phone_number: '+4790000004',
+		password: 'password',
+		first_name: 'Mats',
+		last_name: 'Medlem',
+		email: 'medlem@ntnui.no',
+		groups: [{ slug: 'triatlon', role: MembershipType.member }],
+	},
+]
+
+export default personas
+export type { IMockNtnuiUser, IMockGroupMembership }
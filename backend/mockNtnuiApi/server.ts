@@ -0,0 +1,35 @@
+/* eslint-disable no-console */
+import fs from 'fs'
+import dotenv from 'dotenv'
+import createMockNtnuiApi from '.'
+import personas, { IMockNtnuiUser } from './personas'
+
+dotenv.config()
+
+// Replace the seeded personas with the users in a JSON file, if given
+const users: IMockNtnuiUser[] = process.env.MOCK_NTNUI_USERS
+	? JSON.parse(fs.readFileSync(process.env.MOCK_NTNUI_USERS, 'utf-8'))
+	: personas
+
+const app = createMockNtnuiApi({
+	users,
+	accessTokenLifetime:
+		Number(process.env.MOCK_NTNUI_ACCESS_TOKEN_LIFETIME) || undefined,
+	refreshTokenLifetime:
+		Number(process.env.MOCK_NTNUI_REFRESH_TOKEN_LIFETIME) || undefined,
+	// Lets the backend verify the tokens locally
+	secret: process.env.NTNUI_JWT_KEY || undefined,
+})
+
+const port = Number(process.env.MOCK_NTNUI_PORT) || 8083
+
+app.listen(port, () => {
+	console.log(`🧪 Mock NTNUI API running on port ${port}, with the users`)
+	users.forEach((user) =>
+		console.log(
+			`   ${user.phone_number} ${user.first_name} ${user.last_name}: ${user.groups
+				.map((group) => `${group.role} in ${group.slug}`)
+				.join(', ')}`
+		)
+	)
+})
@@ -0,0 +1,101 @@
+import mongoose from 'mongoose'
+import { IAdmissionRound } from './AdmissionRound'
+import { IInterviewSlot } from './InterviewSlot'
+
+interface IArchivedCommittee {
+	_id: number
+	name: string
+	accepts_admissions: boolean
+	admission_start_date: string | null
+	admission_end_date: string | null
+}
+
+// A read-only snapshot of finished admission rounds. The applications
+// themselves are stored as ArchivedApplications, to keep this document small
+interface IAdmissionArchive {
+	_id: mongoose.Types.ObjectId
+	name: string
+	created_by: number
+	created_by_name: string
+	created_date: Date
+	// The archive can not be purged before this date
+	purge_after: Date
+	restored_date: Date | null
+	// The rounds that had started when the archive was made
+	admission_rounds: IAdmissionRound[]
+	committees: IArchivedCommittee[]
+	interview_slots: IInterviewSlot[]
+	number_of_applications: number
+}
+
+const archivedCommitteeSchema = new mongoose.Schema<IArchivedCommittee>(
+	{
+		_id: { type: Number, required: true },
+		name: { type: String, required: true },
+		accepts_admissions: { type: Boolean, required: true },
+		admission_start_date: { type: String, default: null },
+		admission_end_date: { type: String, default: null },
+	},
+	{ _id: false }
+)
+
+const admissionArchiveSchema = new mongoose.Schema<IAdmissionArchive>(
+	{
+		name: {
+			type: String,
+			required: true,
+			unique: true,
+			trim: true,
+			validate: {
+				validator: (name: string) => name.length > 0 && name.length <= 100,
+				message: 'The name must be between 1 and 100 characters',
+			},
+		},
+		created_by: {
+			type: Number,
+			ref: 'User',
+			required: true,
+		},
+		created_by_name: {
+			type: String,
+			required: true,
+		},
+		purge_after: {
+			type: Date,
+			required: true,
+		},
+		restored_date: {
+			type: Date,
+			default: null,
+		},
+		admission_rounds: {
+			type: mongoose.Schema.Types.Mixed,
+			default: [],
+		},
+		committees: {
+			type: [archivedCommitteeSchema],
+			default: [],
+		},
+		interview_slots: {
+			type: mongoose.Schema.Types.Mixed,
+			default: [],
+		},
+		number_of_applications: {
+			type: Number,
+			required: true,
+		},
+	},
+	{
+		collection: 'admissionarchives',
+		versionKey: false,
+		timestamps: { createdAt: 'created_date', updatedAt: false },
+	}
+)
+
+const AdmissionArchiveModel = mongoose.model<IAdmissionArchive>(
+	'AdmissionArchive',
+	admissionArchiveSchema
+)
+
+export { AdmissionArchiveModel }
+export type { IAdmissionArchive, IArchivedCommittee }
@@ -0,0 +1,61 @@
+import mongoose from 'mongoose'
+
+interface IAdmissionRound {
+	_id: mongoose.Types.ObjectId
+	name: string
+	// The dates (YYYY-MM-DD) as shown to the users, in the time zone of the round
+	start_date: string
+	end_date: string
+	// IANA time zone, like Europe/Oslo
+	time_zone: string
+	// The exact instants derived from the dates, the round is open from
+	// opens_at and up to, but not including, closes_at
+	opens_at: Date
+	closes_at: Date
+	// The committees taking in applicants in this round
+	committees: number[]
+	created_date: Date
+}
+
+const admissionRoundSchema = new mongoose.Schema<IAdmissionRound>(
+	{
+		name: {
+			type: String,
+			required: true,
+			trim: true,
+		},
+		start_date: { type: String, required: true },
+		end_date: { type: String, required: true },
+		time_zone: { type: String, required: true },
+		opens_at: { type: Date, required: true },
+		closes_at: { type: Date, required: true },
+		committees: {
+			type: [
+				{
+					type: Number,
+					ref: 'Committee',
+					required: true,
+				},
+			],
+			validate: [
+				(val: []) => val.length > 0,
+				'There must be at least one committee',
+			],
+		},
+	},
+	{
+		collection: 'admissionrounds',
+		versionKey: false,
+		timestamps: { createdAt: 'created_date', updatedAt: false },
+	}
+)
+
+admissionRoundSchema.index({ opens_at: 1, closes_at: 1 })
+
+const AdmissionRoundModel = mongoose.model<IAdmissionRound>(
+	'AdmissionRound',
+	admissionRoundSchema
+)
+
+export { AdmissionRoundModel }
+export type { IAdmissionRound }
@@ -0,0 +1,46 @@
+import mongoose from 'mongoose'
+
+// Lets the applicant see and change their application through a link,
+// without logging in
+interface IApplicantPortalLink {
+	_id: mongoose.Types.ObjectId
+	token_hash: string
+	application: mongoose.Types.ObjectId
+	expires_date: Date
+	created_date: Date
+}
+
+const applicantPortalLinkSchema = new mongoose.Schema<IApplicantPortalLink>(
+	{
+		token_hash: {
+			type: String,
+			required: true,
+			unique: true,
+		},
+		application: {
+			type: mongoose.Schema.Types.ObjectId,
+			ref: 'Application',
+			required: true,
+			index: true,
+		},
+		// Expired links are removed by MongoDB
+		expires_date: {
+			type: Date,
+			required: true,
+			expires: 0,
+		},
+	},
+	{
+		collection: 'applicantportallinks',
+		versionKey: false,
+		timestamps: { createdAt: 'created_date', updatedAt: false },
+	}
+)
+
+const ApplicantPortalLinkModel = mongoose.model<IApplicantPortalLink>(
+	'ApplicantPortalLink',
+	applicantPortalLinkSchema
+)
+
+export { ApplicantPortalLinkModel }
+export type { IApplicantPortalLink }
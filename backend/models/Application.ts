@@ -1,13 +1,38 @@
 import mongoose, { ObjectId } from 'mongoose'
+import { QuestionTypes } from '../utils/enums'
+
+// The question is copied, so later changes to it don't alter the answer
+interface IApplicationAnswer {
+	question: mongoose.Types.ObjectId
+	committee: number
+	question_text: string
+	type: QuestionTypes
+	value: string | string[] | boolean
+}
+
+interface IApplicationAttachment {
+	_id: mongoose.Types.ObjectId
+	file_name: string
+	size: number
+	storage_key: string
+}
 
 interface IApplication {
 	name: string
 	phone_number: string
 	email: string
+	// Used to find applications sent more than once by the same person
+	normalized_email: string
+	normalized_phone_number: string
 	text: string
 	submitted_date: Date
 	committees: number[]
+	// The applied committees ranked by the applicant, most wanted first
+	priorities: number[]
 	statuses: ObjectId[]
+	admission_round: ObjectId | null
+	answers: IApplicationAnswer[]
+	attachments: IApplicationAttachment[]
 }
 
 const ApplicationModel = mongoose.model<IApplication>(
@@ -26,6 +51,14 @@ const ApplicationModel = mongoose.model<IApplication>(
 				type: String,
 				required: true,
 			},
+			normalized_email: {
+				type: String,
+				index: true,
+			},
+			normalized_phone_number: {
+				type: String,
+				index: true,
+			},
 			text: {
 				type: String,
 				validate: {
@@ -45,6 +78,10 @@ const ApplicationModel = mongoose.model<IApplication>(
 					'There must be at least one committee',
 				],
 			},
+			priorities: {
+				type: [{ type: Number, ref: 'Committee' }],
+				default: [],
+			},
 			statuses: {
 				type: [
 					{
@@ -54,10 +91,46 @@ const ApplicationModel = mongoose.model<IApplication>(
 					},
 				],
 			},
+			admission_round: {
+				type: mongoose.Schema.Types.ObjectId,
+				ref: 'AdmissionRound',
+				default: null,
+				index: true,
+			},
+			answers: {
+				type: [
+					new mongoose.Schema<IApplicationAnswer>(
+						{
+							question: {
+								type: mongoose.Schema.Types.ObjectId,
+								ref: 'CommitteeQuestion',
+								required: true,
+							},
+							committee: { type: Number, ref: 'Committee', required: true },
+							question_text: { type: String, required: true },
+							type: { type: String, required: true },
+							value: { type: mongoose.Schema.Types.Mixed, required: true },
+						},
+						{ _id: false }
+					),
+				],
+				default: [],
+			},
+			attachments: {
+				type: [
+					new mongoose.Schema<IApplicationAttachment>({
+						file_name: { type: String, required: true },
+						size: { type: Number, required: true },
+						// Where the file is found in the file storage
+						storage_key: { type: String, required: true },
+					}),
+				],
+				default: [],
+			},
 		},
 		{ timestamps: { createdAt: 'submitted_date', updatedAt: false } }
 	)
 )
 
 export { ApplicationModel }
-export type { IApplication }
+export type { IApplication, IApplicationAnswer, IApplicationAttachment }
@@ -0,0 +1,53 @@
+import mongoose from 'mongoose'
+import { IApplication } from './Application'
+import { IComment } from './Comment'
+import { IStatus } from './Status'
+import { IStatusHistory } from './StatusHistory'
+
+// An application as it was when its admission round was archived, together
+// with everything that belonged to it. The documents are stored untouched,
+// so they can be written back as they were when the archive is restored
+interface IArchivedApplication {
+	_id: mongoose.Types.ObjectId
+	archive: mongoose.Types.ObjectId
+	application: IApplication & { _id: mongoose.Types.ObjectId }
+	statuses: IStatus[]
+	status_history: IStatusHistory[]
+	comments: IComment[]
+}
+
+const archivedApplicationSchema = new mongoose.Schema<IArchivedApplication>(
+	{
+		archive: {
+			type: mongoose.Schema.Types.ObjectId,
+			ref: 'AdmissionArchive',
+			required: true,
+			index: true,
+		},
+		application: {
+			type: mongoose.Schema.Types.Mixed,
+			required: true,
+		},
+		statuses: {
+			type: mongoose.Schema.Types.Mixed,
+			default: [],
+		},
+		status_history: {
+			type: mongoose.Schema.Types.Mixed,
+			default: [],
+		},
+		comments: {
+			type: mongoose.Schema.Types.Mixed,
+			default: [],
+		},
+	},
+	{ collection: 'archivedapplications', versionKey: false }
+)
+
+const ArchivedApplicationModel = mongoose.model<IArchivedApplication>(
+	'ArchivedApplication',
+	archivedApplicationSchema
+)
+
+export { ArchivedApplicationModel }
+export type { IArchivedApplication }
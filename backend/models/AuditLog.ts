@@ -0,0 +1,75 @@
+import mongoose from 'mongoose'
+import { AuditActions } from '../utils/enums'
+import { stringifyEnum } from './Status'
+
+// Who did what to which resource
+interface IAuditLog {
+	_id: mongoose.Types.ObjectId
+	// Null when the applicant did it
+	actor: number | null
+	actor_name: string
+	action: AuditActions
+	target_type: string
+	target_id: string | null
+	committee: number | null
+	before: unknown
+	after: unknown
+	created_date: Date
+}
+
+const auditLogSchema = new mongoose.Schema<IAuditLog>(
+	{
+		actor: {
+			type: Number,
+			ref: 'User',
+			default: null,
+		},
+		actor_name: {
+			type: String,
+			required: true,
+		},
+		action: {
+			type: String,
+			enum: {
+				values: Object.values(AuditActions),
+				message: `{VALUE} is not a supported value. Valid values are ${stringifyEnum(
+					AuditActions
+				)}`,
+			},
+			required: true,
+		},
+		target_type: {
+			type: String,
+			required: true,
+		},
+		target_id: {
+			type: String,
+			default: null,
+		},
+		committee: {
+			type: Number,
+			ref: 'Committee',
+			default: null,
+		},
+		before: {
+			type: mongoose.Schema.Types.Mixed,
+			default: null,
+		},
+		after: {
+			type: mongoose.Schema.Types.Mixed,
+			default: null,
+		},
+	},
+	{
+		collection: 'auditlog',
+		versionKey: false,
+		timestamps: { createdAt: 'created_date', updatedAt: false },
+	}
+)
+
+auditLogSchema.index({ created_date: -1 })
+
+const AuditLogModel = mongoose.model<IAuditLog>('AuditLog', auditLogSchema)
+
+export { AuditLogModel }
+export type { IAuditLog }
@@ -0,0 +1,54 @@
+import mongoose from 'mongoose'
+
+interface IComment {
+	_id: mongoose.Types.ObjectId
+	application: mongoose.Types.ObjectId
+	committee: number
+	author: number
+	author_name: string
+	text: string
+	created_date: Date
+}
+
+const commentSchema = new mongoose.Schema<IComment>(
+	{
+		application: {
+			type: mongoose.Schema.Types.ObjectId,
+			ref: 'Application',
+			required: true,
+			index: true,
+		},
+		committee: {
+			type: Number,
+			ref: 'Committee',
+			required: true,
+		},
+		author: {
+			type: Number,
+			ref: 'User',
+			required: true,
+		},
+		author_name: {
+			type: String,
+			required: true,
+		},
+		text: {
+			type: String,
+			required: true,
+			validate: {
+				validator: (text: string) => text.trim().length > 0 && text.length <= 2500,
+				message: 'The comment must be between 1 and 2500 characters',
+			},
+		},
+	},
+	{
+		collection: 'comments',
+		versionKey: false,
+		timestamps: { createdAt: 'created_date', updatedAt: false },
+	}
+)
+
+const CommentModel = mongoose.model<IComment>('Comment', commentSchema)
+
+export { CommentModel }
+export type { IComment }
@@ -6,6 +6,9 @@ interface ICommittee {
 	name: string
 	slug: string
 	accepts_admissions: boolean
+	// Optional window (YYYY-MM-DD) limiting the admission round for the committee
+	admission_start_date: string | null
+	admission_end_date: string | null
 	access_roles: string[]
 }
 
@@ -16,6 +19,8 @@ const CommitteeModel = mongoose.model<ICommittee>(
 		name: { type: String, required: true },
 		slug: { type: String, required: true },
 		accepts_admissions: { type: Boolean, required: true },
+		admission_start_date: { type: String, default: null },
+		admission_end_date: { type: String, default: null },
 		access_roles: [{ type: String, enum: MembershipType, required: true }],
 	})
 )
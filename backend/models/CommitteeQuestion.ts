@@ -0,0 +1,63 @@
+import mongoose from 'mongoose'
+import { QuestionTypes } from '../utils/enums'
+import { stringifyEnum } from './Status'
+
+// A question the applicants to a committee have to answer
+interface ICommitteeQuestion {
+	_id: mongoose.Types.ObjectId
+	committee: number
+	type: QuestionTypes
+	question: string
+	// The alternatives for single and multiple choice questions
+	options: string[]
+	required: boolean
+	created_date: Date
+}
+
+const committeeQuestionSchema = new mongoose.Schema<ICommitteeQuestion>(
+	{
+		committee: {
+			type: Number,
+			ref: 'Committee',
+			required: true,
+			index: true,
+		},
+		type: {
+			type: String,
+			enum: {
+				values: Object.values(QuestionTypes),
+				message: `{VALUE} is not a supported value. Valid values are ${stringifyEnum(
+					QuestionTypes
+				)}`,
+			},
+			required: true,
+		},
+		question: {
+			type: String,
+			required: true,
+			trim: true,
+			maxlength: 500,
+		},
+		options: {
+			type: [{ type: String, trim: true, maxlength: 200 }],
+			default: [],
+		},
+		required: {
+			type: Boolean,
+			default: false,
+		},
+	},
+	{
+		collection: 'committeequestions',
+		versionKey: false,
+		timestamps: { createdAt: 'created_date', updatedAt: false },
+	}
+)
+
+const CommitteeQuestionModel = mongoose.model<ICommitteeQuestion>(
+	'CommitteeQuestion',
+	committeeQuestionSchema
+)
+
+export { CommitteeQuestionModel }
+export type { ICommitteeQuestion }
@@ -0,0 +1,78 @@
+import mongoose from 'mongoose'
+import { MailLanguages, StatusTypes } from '../utils/enums'
+import { stringifyEnum } from './Status'
+
+// The wording a committee uses in mails about a status
+interface IEmailTemplate {
+	_id: mongoose.Types.ObjectId
+	committee: number
+	status: StatusTypes
+	language: MailLanguages
+	subject: string
+	body: string
+	updated_by: string
+	updated_date: Date
+}
+
+const emailTemplateSchema = new mongoose.Schema<IEmailTemplate>(
+	{
+		committee: {
+			type: Number,
+			ref: 'Committee',
+			required: true,
+		},
+		status: {
+			type: String,
+			enum: {
+				values: Object.values(StatusTypes),
+				message: `{VALUE} is not a supported value. Valid values are ${stringifyEnum(
+					StatusTypes
+				)}`,
+			},
+			required: true,
+		},
+		language: {
+			type: String,
+			enum: {
+				values: Object.values(MailLanguages),
+				message: `{VALUE} is not a supported value. Valid values are ${stringifyEnum(
+					MailLanguages
+				)}`,
+			},
+			required: true,
+		},
+		subject: {
+			type: String,
+			required: true,
+			trim: true,
+			maxlength: 200,
+		},
+		body: {
+			type: String,
+			required: true,
+			maxlength: 5000,
+		},
+		updated_by: {
+			type: String,
+			required: true,
+		},
+	},
+	{
+		collection: 'emailtemplates',
+		versionKey: false,
+		timestamps: { createdAt: false, updatedAt: 'updated_date' },
+	}
+)
+
+emailTemplateSchema.index(
+	{ committee: 1, status: 1, language: 1 },
+	{ unique: true }
+)
+
+const EmailTemplateModel = mongoose.model<IEmailTemplate>(
+	'EmailTemplate',
+	emailTemplateSchema
+)
+
+export { EmailTemplateModel }
+export type { IEmailTemplate }
@@ -0,0 +1,49 @@
+import mongoose from 'mongoose'
+
+// Lets the applicant book an interview through a link, without logging in
+interface IInterviewInvitation {
+	_id: mongoose.Types.ObjectId
+	token_hash: string
+	application: mongoose.Types.ObjectId
+	status: mongoose.Types.ObjectId
+	committee: number
+	created_date: Date
+}
+
+const interviewInvitationSchema = new mongoose.Schema<IInterviewInvitation>(
+	{
+		token_hash: {
+			type: String,
+			required: true,
+			unique: true,
+		},
+		application: {
+			type: mongoose.Schema.Types.ObjectId,
+			ref: 'Application',
+			required: true,
+		},
+		status: {
+			type: mongoose.Schema.Types.ObjectId,
+			ref: 'Status',
+			required: true,
+		},
+		committee: {
+			type: Number,
+			ref: 'Committee',
+			required: true,
+		},
+	},
+	{
+		collection: 'interviewinvitations',
+		versionKey: false,
+		timestamps: { createdAt: 'created_date', updatedAt: false },
+	}
+)
+
+const InterviewInvitationModel = mongoose.model<IInterviewInvitation>(
+	'InterviewInvitation',
+	interviewInvitationSchema
+)
+
+export { InterviewInvitationModel }
+export type { IInterviewInvitation }
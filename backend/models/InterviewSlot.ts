@@ -0,0 +1,60 @@
+import mongoose from 'mongoose'
+
+interface IInterviewSlot {
+	_id: mongoose.Types.ObjectId
+	committee: number
+	start_time: Date
+	end_time: Date
+	location: string
+	interviewers: string[]
+	// The application that has booked the slot, if any
+	application: mongoose.Types.ObjectId | null
+}
+
+const interviewSlotSchema = new mongoose.Schema<IInterviewSlot>(
+	{
+		committee: {
+			type: Number,
+			ref: 'Committee',
+			required: true,
+			index: true,
+		},
+		start_time: {
+			type: Date,
+			required: true,
+		},
+		end_time: {
+			type: Date,
+			required: true,
+			validate: {
+				validator(this: IInterviewSlot, endTime: Date) {
+					return endTime > this.start_time
+				},
+				message: 'The end time must be after the start time',
+			},
+		},
+		location: {
+			type: String,
+			required: true,
+		},
+		interviewers: {
+			type: [String],
+			default: [],
+		},
+		application: {
+			type: mongoose.Schema.Types.ObjectId,
+			ref: 'Application',
+			default: null,
+			index: true,
+		},
+	},
+	{ collection: 'interviewslots', versionKey: false }
+)
+
+const InterviewSlotModel = mongoose.model<IInterviewSlot>(
+	'InterviewSlot',
+	interviewSlotSchema
+)
+
+export { InterviewSlotModel }
+export type { IInterviewSlot }
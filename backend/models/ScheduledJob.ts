@@ -0,0 +1,68 @@
+import mongoose from 'mongoose'
+import { ScheduledJobTypes } from '../utils/enums'
+import { stringifyEnum } from './Status'
+
+// A job run by the scheduler once run_at has passed
+interface IScheduledJob {
+	_id: mongoose.Types.ObjectId
+	type: ScheduledJobTypes
+	committee: number
+	run_at: Date
+	created_by: number
+	// Set when the scheduler picks up the job, the job is never run twice
+	executed_date: Date | null
+	error: string | null
+	created_date: Date
+}
+
+const scheduledJobSchema = new mongoose.Schema<IScheduledJob>(
+	{
+		type: {
+			type: String,
+			enum: {
+				values: Object.values(ScheduledJobTypes),
+				message: `{VALUE} is not a supported value. Valid values are ${stringifyEnum(
+					ScheduledJobTypes
+				)}`,
+			},
+			required: true,
+		},
+		committee: {
+			type: Number,
+			ref: 'Committee',
+			required: true,
+		},
+		run_at: {
+			type: Date,
+			required: true,
+		},
+		created_by: {
+			type: Number,
+			ref: 'User',
+			required: true,
+		},
+		executed_date: {
+			type: Date,
+			default: null,
+		},
+		error: {
+			type: String,
+			default: null,
+		},
+	},
+	{
+		collection: 'scheduledjobs',
+		versionKey: false,
+		timestamps: { createdAt: 'created_date', updatedAt: false },
+	}
+)
+
+scheduledJobSchema.index({ executed_date: 1, run_at: 1 })
+
+const ScheduledJobModel = mongoose.model<IScheduledJob>(
+	'ScheduledJob',
+	scheduledJobSchema
+)
+
+export { ScheduledJobModel }
+export type { IScheduledJob }
@@ -0,0 +1,63 @@
+import mongoose from 'mongoose'
+
+// A login, kept on the server so it can be revoked. The browser only gets
+// the session token, never the NTNUI tokens.
+interface ISession {
+	_id: mongoose.Types.ObjectId
+	token_hash: string
+	user: number
+	access_token: string
+	refresh_token: string
+	user_agent: string
+	last_used_date: Date
+	expires_date: Date
+	created_date: Date
+}
+
+const sessionSchema = new mongoose.Schema<ISession>(
+	{
+		token_hash: {
+			type: String,
+			required: true,
+			unique: true,
+		},
+		user: {
+			type: Number,
+			ref: 'User',
+			required: true,
+			index: true,
+		},
+		access_token: {
+			type: String,
+			required: true,
+		},
+		refresh_token: {
+			type: String,
+			required: true,
+		},
+		user_agent: {
+			type: String,
+			default: '',
+		},
+		last_used_date: {
+			type: Date,
+			default: Date.now,
+		},
+		// Expired sessions are removed by MongoDB
+		expires_date: {
+			type: Date,
+			required: true,
+			expires: 0,
+		},
+	},
+	{
+		collection: 'sessions',
+		versionKey: false,
+		timestamps: { createdAt: 'created_date', updatedAt: false },
+	}
+)
+
+const SessionModel = mongoose.model<ISession>('Session', sessionSchema)
+
+export { SessionModel }
+export type { ISession }
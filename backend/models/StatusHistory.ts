@@ -0,0 +1,57 @@
+import mongoose from 'mongoose'
+import { StatusTypes } from '../utils/enums'
+
+// Every change of a status is appended here, the status itself only
+// keeps the latest value
+interface IStatusHistory {
+	_id: mongoose.Types.ObjectId
+	status: mongoose.Types.ObjectId
+	committee: number
+	previous_value: string | null
+	value: string
+	set_by: string
+	set_date: Date
+}
+
+const statusHistorySchema = new mongoose.Schema<IStatusHistory>(
+	{
+		status: {
+			type: mongoose.Schema.Types.ObjectId,
+			ref: 'Status',
+			required: true,
+			index: true,
+		},
+		committee: {
+			type: Number,
+			ref: 'Committee',
+			required: true,
+		},
+		previous_value: {
+			type: String,
+			enum: [...Object.values(StatusTypes), null],
+			default: null,
+		},
+		value: {
+			type: String,
+			enum: Object.values(StatusTypes),
+			required: true,
+		},
+		set_by: {
+			type: String,
+			required: true,
+		},
+	},
+	{
+		collection: 'statushistory',
+		versionKey: false,
+		timestamps: { createdAt: 'set_date', updatedAt: false },
+	}
+)
+
+const StatusHistoryModel = mongoose.model<IStatusHistory>(
+	'StatusHistory',
+	statusHistorySchema
+)
+
+export { StatusHistoryModel }
+export type { IStatusHistory }
@@ -11,6 +11,10 @@ interface IUser {
 	first_name: string
 	last_name: string
 	committees: IRoleInCommittee[]
+	// When the roles were last checked against NTNUI
+	roles_synced_date?: Date
+	// When checking the roles against NTNUI was last attempted, also if it failed
+	roles_sync_attempted_date?: Date
 }
 
 const RoleInSchema = new mongoose.Schema<IRoleInCommittee>(
@@ -32,6 +36,8 @@ const UserSchema = new mongoose.Schema<IUser>({
 			'There must be at least one committee',
 		],
 	},
+	roles_synced_date: { type: Date },
+	roles_sync_attempted_date: { type: Date },
 })
 
 const UserModel = mongoose.model<IUser>('User', UserSchema)
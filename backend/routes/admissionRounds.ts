@@ -0,0 +1,38 @@
+import express from 'express'
+import {
+	deleteAdmissionRound,
+	getActiveRound,
+	getAdmissionRounds,
+	postAdmissionRound,
+	putAdmissionRound,
+} from '../controllers/admissionRoundController'
+import authorization from '../utils/authorizationMiddleware'
+
+const admissionRoundRouter = express.Router()
+
+// @route GET /admission-rounds
+// @description Get all admission rounds
+// @access Private
+admissionRoundRouter.get('/', authorization, getAdmissionRounds)
+
+// @route GET /admission-rounds/active
+// @description Get the admission round that is open for applications
+// @access Public
+admissionRoundRouter.get('/active', getActiveRound)
+
+// @route POST /admission-rounds
+// @description Create an admission round
+// @access Private
+admissionRoundRouter.post('/', authorization, postAdmissionRound)
+
+// @route PUT /admission-rounds/:roundId
+// @description Update an admission round
+// @access Private
+admissionRoundRouter.put('/:roundId', authorization, putAdmissionRound)
+
+// @route DELETE /admission-rounds/:roundId
+// @description Delete an admission round without applications
+// @access Private
+admissionRoundRouter.delete('/:roundId', authorization, deleteAdmissionRound)
+
+export default admissionRoundRouter
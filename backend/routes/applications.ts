@@ -1,17 +1,35 @@
 import express from 'express'
 import {
+	getApplicationAttachment,
+	getApplicationDuplicates,
+	postApplicationMerge,
 	getApplicationById,
+	getApplicationExport,
+	getApplicationPdf,
 	getApplications,
 	postApplication,
 	wipeAdmissionData,
 } from '../controllers/applicationController'
 import {
-	getAdmissionPeriod,
-	putAdmissionPeriod,
-	getAdmissionPeriodStatus,
-} from '../controllers/admissionPeriodController'
+	deleteComment,
+	getComments,
+	postComment,
+} from '../controllers/commentController'
+import {
+	getInterviewInvitation,
+	postInterviewInvitationBooking,
+} from '../controllers/interviewInvitationController'
+import {
+	getApplicantPortal,
+	postApplicantPortalLink,
+	postApplicantPortalWithdrawal,
+	putApplicantPortalText,
+} from '../controllers/applicantPortalController'
 import authorization from '../utils/authorizationMiddleware'
-import applicationQueryValidator from '../utils/applicationQueryMiddleware'
+import attachmentUpload from '../utils/attachmentUpload'
+import applicationQueryValidator, {
+	applicationExportValidator,
+} from '../utils/applicationQueryMiddleware'
 
 const applicationRouter = express.Router()
 
@@ -25,33 +43,109 @@ applicationRouter.get(
 	getApplications
 )
 
+// @route GET /applications/export
+// @description Download the applications user has access to as csv or xlsx
+// @access Private
+applicationRouter.get(
+	'/export',
+	authorization,
+	applicationExportValidator(),
+	getApplicationExport
+)
+
 // @route POST /applications
-// @description Post a new application
+// @description Post a new application, optionally with PDF attachments
 // @access Public
-applicationRouter.post('/', postApplication)
+applicationRouter.post('/', attachmentUpload, postApplication)
 
-// @route GET /applications/period
-// @description Get the current admission period
+// @route GET /applications/interview/:token
+// @description Get the interview slots the applicant can book with the invitation
 // @access Public
-applicationRouter.get('/period', getAdmissionPeriod)
+applicationRouter.get('/interview/:token', getInterviewInvitation)
 
-// @route PUT /applications/period
-// @description Update/set admission period
-// @access Private
-applicationRouter.put('/period', authorization, putAdmissionPeriod)
+// @route POST /applications/interview/:token
+// @description Book an interview slot with the invitation
+// @access Public
+applicationRouter.post('/interview/:token', postInterviewInvitationBooking)
+
+// @route POST /applications/portal
+// @description Mail the applicant a link to each of their applications
+// @access Public
+applicationRouter.post('/portal', postApplicantPortalLink)
+
+// @route GET /applications/portal/:token
+// @description Get the application the applicant portal link is for
+// @access Public
+applicationRouter.get('/portal/:token', getApplicantPortal)
+
+// @route PUT /applications/portal/:token
+// @description Change the application text while the admission round is open
+// @access Public
+applicationRouter.put('/portal/:token', putApplicantPortalText)
 
-// @route GET /applications/period/active
-// @description Get if admission period is active
+// @route POST /applications/portal/:token/withdraw
+// @description Withdraw the application from a committee
 // @access Public
-applicationRouter.get('/period/active', getAdmissionPeriodStatus)
+applicationRouter.post('/portal/:token/withdraw', postApplicantPortalWithdrawal)
 
 // @route GET /applications/:application_id
 // @description Get application by id if user has access
 // @access Private
 applicationRouter.get('/:application_id', authorization, getApplicationById)
 
+// @route GET /applications/:application_id/pdf
+// @description Download application by id as PDF if user has access
+// @access Private
+applicationRouter.get('/:application_id/pdf', authorization, getApplicationPdf)
+
+// @route GET /applications/:application_id/attachments/:attachment_id
+// @description Download an attachment of the application if user has access
+// @access Private
+applicationRouter.get(
+	'/:application_id/attachments/:attachment_id',
+	authorization,
+	getApplicationAttachment
+)
+
+// @route GET /applications/:application_id/duplicates
+// @description Get other applications likely sent by the same applicant, if user has access
+// @access Private
+applicationRouter.get(
+	'/:application_id/duplicates',
+	authorization,
+	getApplicationDuplicates
+)
+
+// @route POST /applications/:application_id/merge
+// @description Merge a duplicate into the application, if user is main board or election committee
+// @access Private
+applicationRouter.post(
+	'/:application_id/merge',
+	authorization,
+	postApplicationMerge
+)
+
+// @route GET /applications/:application_id/comments
+// @description Get comments on application for the committees the user is member of
+// @access Private
+applicationRouter.get('/:application_id/comments', authorization, getComments)
+
+// @route POST /applications/:application_id/comments
+// @description Post a comment on application for a committee the user is member of
+// @access Private
+applicationRouter.post('/:application_id/comments', authorization, postComment)
+
+// @route DELETE /applications/:application_id/comments/:comment_id
+// @description Delete comment by id if user is the author
+// @access Private
+applicationRouter.delete(
+	'/:application_id/comments/:comment_id',
+	authorization,
+	deleteComment
+)
+
 // @route DELETE /applications
-// @description Delete all admission data if user has access
+// @description Archive the admission round under the given name and clear it, if user has access
 // @access Private
 applicationRouter.delete('/', authorization, wipeAdmissionData)
 
@@ -0,0 +1,36 @@
+import express from 'express'
+import {
+	getArchivedApplications,
+	getArchives,
+	purgeArchive,
+	restoreArchive,
+} from '../controllers/archiveController'
+import authorization from '../utils/authorizationMiddleware'
+
+const archiveRouter = express.Router()
+
+// @route GET /archives
+// @description Get all archived admission rounds
+// @access Private
+archiveRouter.get('/', authorization, getArchives)
+
+// @route GET /archives/:archiveId/applications
+// @description Get the applications of an archived admission round
+// @access Private
+archiveRouter.get(
+	'/:archiveId/applications',
+	authorization,
+	getArchivedApplications
+)
+
+// @route POST /archives/:archiveId/restore
+// @description Restore an archived admission round as the current round
+// @access Private
+archiveRouter.post('/:archiveId/restore', authorization, restoreArchive)
+
+// @route DELETE /archives/:archiveId
+// @description Permanently delete an archive after its retention period
+// @access Private
+archiveRouter.delete('/:archiveId', authorization, purgeArchive)
+
+export default archiveRouter
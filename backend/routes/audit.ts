@@ -0,0 +1,12 @@
+import express from 'express'
+import getAuditLog from '../controllers/auditController'
+import authorization from '../utils/authorizationMiddleware'
+
+const auditRouter = express.Router()
+
+// @route GET /audit
+// @description Get the log of privileged actions, for main board and election committee
+// @access Private
+auditRouter.get('/', authorization, getAuditLog)
+
+export default auditRouter
@@ -1,5 +1,12 @@
 import express from 'express'
-import { login, logout, refresh, verify } from '../controllers/authController'
+import {
+	getTokenValidation,
+	login,
+	logout,
+	logoutEverywhere,
+	verify,
+} from '../controllers/authController'
+import authorization from '../utils/authorizationMiddleware'
 
 const authRouter = express.Router()
 
@@ -9,18 +16,23 @@ const authRouter = express.Router()
 authRouter.post('/', login)
 
 // @route POST /auth/logout
-// @description Invalidates cookies
+// @description Revokes the session and invalidates cookies
 // @access Public
 authRouter.post('/logout', logout)
 
+// @route POST /auth/logout/all
+// @description Revokes every session of the logged in user
+// @access Private
+authRouter.post('/logout/all', authorization, logoutEverywhere)
+
 // @route POST /auth/verify
 // @description Post token to verify validity
 // @access Public
 authRouter.post('/verify', verify)
 
-// @route POST /auth/refresh
-// @description Post refresh-token to retrieve new access token and refresh token
-// @access Public
-authRouter.post('/refresh', refresh)
+// @route GET /auth/token-validation
+// @description Get counters of how access tokens have been validated
+// @access Private
+authRouter.get('/token-validation', authorization, getTokenValidation)
 
 export default authRouter
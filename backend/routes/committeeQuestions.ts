@@ -0,0 +1,36 @@
+import express from 'express'
+import {
+	deleteCommitteeQuestion,
+	getCommitteeQuestions,
+	postCommitteeQuestion,
+	putCommitteeQuestion,
+} from '../controllers/committeeQuestionController'
+import authorization from '../utils/authorizationMiddleware'
+
+const committeeQuestionRouter = express.Router()
+
+// @route GET /committee-questions
+// @description Get the questions of all committees, or of the committees in the query
+// @access Public
+committeeQuestionRouter.get('/', getCommitteeQuestions)
+
+// @route POST /committee-questions
+// @description Add a question for the applicants to a committee
+// @access Private
+committeeQuestionRouter.post('/', authorization, postCommitteeQuestion)
+
+// @route PUT /committee-questions/:questionId
+// @description Update question by id
+// @access Private
+committeeQuestionRouter.put('/:questionId', authorization, putCommitteeQuestion)
+
+// @route DELETE /committee-questions/:questionId
+// @description Delete question by id
+// @access Private
+committeeQuestionRouter.delete(
+	'/:questionId',
+	authorization,
+	deleteCommitteeQuestion
+)
+
+export default committeeQuestionRouter
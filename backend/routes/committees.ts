@@ -2,7 +2,13 @@ import express from 'express'
 import {
 	getCommittees,
 	acceptAdmissions,
+	updateAdmissionWindow,
 } from '../controllers/committeeController'
+import {
+	getScheduledJobs,
+	postScheduledJob,
+	deleteScheduledJob,
+} from '../controllers/scheduledJobController'
 import authorization from '../utils/authorizationMiddleware'
 
 const committeeRouter = express.Router()
@@ -17,4 +23,32 @@ committeeRouter.get('/', getCommittees)
 // @access Private
 committeeRouter.put('/:slug/accept-admissions', authorization, acceptAdmissions)
 
+// @route PUT /committees/:slug/admission-window
+// @description Set or clear the admission start and end date for committee by slug
+// @access Private
+committeeRouter.put(
+	'/:slug/admission-window',
+	authorization,
+	updateAdmissionWindow
+)
+
+// @route GET /committees/:slug/scheduled-jobs
+// @description Get upcoming and failed scheduled opening and closing of admissions for committee by slug
+// @access Private
+committeeRouter.get('/:slug/scheduled-jobs', authorization, getScheduledJobs)
+
+// @route POST /committees/:slug/scheduled-jobs
+// @description Schedule opening or closing of admissions for committee by slug
+// @access Private
+committeeRouter.post('/:slug/scheduled-jobs', authorization, postScheduledJob)
+
+// @route DELETE /committees/:slug/scheduled-jobs/:jobId
+// @description Cancel a scheduled opening or closing of admissions
+// @access Private
+committeeRouter.delete(
+	'/:slug/scheduled-jobs/:jobId',
+	authorization,
+	deleteScheduledJob
+)
+
 export default committeeRouter
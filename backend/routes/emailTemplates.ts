@@ -0,0 +1,32 @@
+import express from 'express'
+import {
+	deleteEmailTemplate,
+	getEmailTemplates,
+	postEmailTemplatePreview,
+	putEmailTemplate,
+} from '../controllers/emailTemplateController'
+import authorization from '../utils/authorizationMiddleware'
+
+const emailTemplateRouter = express.Router()
+
+// @route GET /email-templates
+// @description Get the email templates of a committee for all statuses and languages
+// @access Private
+emailTemplateRouter.get('/', authorization, getEmailTemplates)
+
+// @route PUT /email-templates
+// @description Create or update the email template of a committee for a status and language
+// @access Private
+emailTemplateRouter.put('/', authorization, putEmailTemplate)
+
+// @route POST /email-templates/preview
+// @description Render an email template with a sample application
+// @access Private
+emailTemplateRouter.post('/preview', authorization, postEmailTemplatePreview)
+
+// @route DELETE /email-templates/:templateId
+// @description Delete email template by id, so the default template is used
+// @access Private
+emailTemplateRouter.delete('/:templateId', authorization, deleteEmailTemplate)
+
+export default emailTemplateRouter
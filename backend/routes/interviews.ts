@@ -0,0 +1,46 @@
+import express from 'express'
+import {
+	deleteInterviewSlot,
+	getApplicationInterviews,
+	getInterviewSlots,
+	postInterviewSlot,
+	putInterviewSlotApplication,
+} from '../controllers/interviewController'
+import authorization from '../utils/authorizationMiddleware'
+
+const interviewRouter = express.Router()
+
+// @route GET /interviews/slots?committee=<committee_id>
+// @description Get all interview slots published by committee
+// @access Private
+interviewRouter.get('/slots', authorization, getInterviewSlots)
+
+// @route POST /interviews/slots
+// @description Publish a new interview slot for committee
+// @access Private
+interviewRouter.post('/slots', authorization, postInterviewSlot)
+
+// @route DELETE /interviews/slots/:slotId
+// @description Delete interview slot by id
+// @access Private
+interviewRouter.delete('/slots/:slotId', authorization, deleteInterviewSlot)
+
+// @route PUT /interviews/slots/:slotId/application
+// @description Book interview slot for an application, or release it
+// @access Private
+interviewRouter.put(
+	'/slots/:slotId/application',
+	authorization,
+	putInterviewSlotApplication
+)
+
+// @route GET /interviews/applications/:application_id
+// @description Get booked interviews for application by id if user has access
+// @access Private
+interviewRouter.get(
+	'/applications/:application_id',
+	authorization,
+	getApplicationInterviews
+)
+
+export default interviewRouter
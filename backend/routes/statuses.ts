@@ -1,12 +1,32 @@
 import express from 'express'
-import putStatus from '../controllers/statusController'
+import {
+	getStatusHistory,
+	getStatusTransitions,
+	postInterviewLink,
+	putStatus,
+} from '../controllers/statusController'
 import authorization from '../utils/authorizationMiddleware'
 
 const statusRouter = express.Router()
 
+// @route GET /statuses/transitions
+// @description Get which statuses each status can be changed to
+// @access Private
+statusRouter.get('/transitions', authorization, getStatusTransitions)
+
 // @route PUT /statuses/:statusId
 // @description Put status for application by id
 // @access Private
 statusRouter.put('/:statusId', authorization, putStatus)
 
+// @route GET /statuses/:statusId/history
+// @description Get all changes made to status by id
+// @access Private
+statusRouter.get('/:statusId/history', authorization, getStatusHistory)
+
+// @route POST /statuses/:statusId/interview-link
+// @description Create a new interview booking link for the applicant, replacing the old one
+// @access Private
+statusRouter.post('/:statusId/interview-link', authorization, postInterviewLink)
+
 export default statusRouter
@@ -1,7 +1,10 @@
 import express from 'express'
 import {
+	deleteUserSession,
 	getUserCommittees,
+	getUserPermissionsById,
 	getUserProfile,
+	getUserSessions,
 } from '../controllers/userController'
 import authorization from '../utils/authorizationMiddleware'
 
@@ -17,4 +20,19 @@ userRouter.get('/committees', authorization, getUserCommittees)
 // @access Private
 userRouter.get('/profile', authorization, getUserProfile)
 
+// @route GET /users/permissions
+// @description Get what logged in user is allowed to do
+// @access Private
+userRouter.get('/permissions', authorization, getUserPermissionsById)
+
+// @route GET /users/sessions
+// @description Get the active sessions of logged in user
+// @access Private
+userRouter.get('/sessions', authorization, getUserSessions)
+
+// @route DELETE /users/sessions/:session_id
+// @description Revoke a session of logged in user
+// @access Private
+userRouter.delete('/sessions/:session_id', authorization, deleteUserSession)
+
 export default userRouter
@@ -0,0 +1,50 @@
+/* eslint-disable no-console */
+import fs from 'fs/promises'
+import path from 'path'
+
+interface IFileStorage {
+	save: (key: string, data: Buffer) => Promise<void>
+	read: (key: string) => Promise<Buffer>
+	// Removing a file that does not exist is not an error
+	remove: (key: string) => Promise<void>
+}
+
+// Stores the files in a folder on the server, keyed by their relative path
+function createLocalStorage(directory: string): IFileStorage {
+	const root = path.resolve(directory)
+	const getPath = (key: string) => {
+		const filePath = path.resolve(root, key)
+		if (!filePath.startsWith(root + path.sep)) {
+			throw new Error(`Invalid file key ${key}`)
+		}
+		return filePath
+	}
+	return {
+		save: async (key, data) => {
+			const filePath = getPath(key)
+			await fs.mkdir(path.dirname(filePath), { recursive: true })
+			await fs.writeFile(filePath, data)
+		},
+		read: (key) => fs.readFile(getPath(key)),
+		remove: (key) => fs.rm(getPath(key), { force: true }),
+	}
+}
+
+const FILE_STORAGE = process.env.FILE_STORAGE || 'local'
+
+/**
+ * Select storage with the FILE_STORAGE variable. The local filesystem is the
+ * only storage so far, other storages like S3 implement IFileStorage
+ */
+function getFileStorage(): IFileStorage {
+	if (FILE_STORAGE !== 'local') {
+		throw new Error(`Unknown FILE_STORAGE ${FILE_STORAGE}`)
+	}
+	return createLocalStorage(process.env.FILE_STORAGE_DIR || 'uploads')
+}
+
+const fileStorage = getFileStorage()
+console.log(`🗄️ FILE_STORAGE set to ${FILE_STORAGE}`)
+
+export default fileStorage
+export type { IFileStorage }
@@ -0,0 +1,11 @@
+/**
+ * Hook point for scanning uploaded files before they are stored, e.g. by
+ * sending them to a ClamAV daemon. Resolves to false if the file is infected.
+ * No scanner is set up yet, so every file is accepted.
+ */
+// eslint-disable-next-line @typescript-eslint/no-unused-vars
+async function scanFile(data: Buffer, fileName: string): Promise<boolean> {
+	return true
+}
+
+export default scanFile
@@ -0,0 +1,176 @@
+import dayjs from 'dayjs'
+import mongoose from 'mongoose'
+import { CustomError } from 'ntnui-tools/customError'
+import {
+	AdmissionArchiveModel,
+	IAdmissionArchive,
+} from '../models/AdmissionArchive'
+import { AdmissionRoundModel } from '../models/AdmissionRound'
+import { ApplicationModel } from '../models/Application'
+import { ArchivedApplicationModel } from '../models/ArchivedApplication'
+import { CommentModel } from '../models/Comment'
+import { CommitteeModel } from '../models/Committee'
+import { InterviewSlotModel } from '../models/InterviewSlot'
+import { StatusModel } from '../models/Status'
+import { StatusHistoryModel } from '../models/StatusHistory'
+import { UserModel } from '../models/User'
+import { ARCHIVE_RETENTION_DAYS } from './constants'
+import { backfillNormalizedContactFields } from './duplicates'
+import { checkAdmissionRoundOverlap } from './admissionRound'
+
+/**
+ * Copy the applications and the admission rounds that have started into a
+ * new archive. Nothing is removed, so the caller clears the admission data
+ * once this has succeeded.
+ */
+async function archiveAdmissionRound(name: string, ntnuiNo: number | string) {
+	if (await AdmissionArchiveModel.exists({ name })) {
+		throw new CustomError('An archive with this name already exists', 409)
+	}
+	const [user, applications, statuses, statusHistory, comments] =
+		await Promise.all([
+			UserModel.findById(ntnuiNo),
+			ApplicationModel.find().lean(),
+			StatusModel.find().lean(),
+			StatusHistoryModel.find().lean(),
+			CommentModel.find().lean(),
+		])
+	const [admissionRounds, committees, interviewSlots] = await Promise.all([
+		AdmissionRoundModel.find({
+			opens_at: { $lte: new Date() },
+		}).lean(),
+		CommitteeModel.find().lean(),
+		InterviewSlotModel.find().lean(),
+	])
+
+	const archive = await AdmissionArchiveModel.create({
+		name,
+		created_by: ntnuiNo,
+		created_by_name: user ? `${user.first_name} ${user.last_name}` : 'Ukjent',
+		purge_after: dayjs().add(ARCHIVE_RETENTION_DAYS, 'day').toDate(),
+		admission_rounds: admissionRounds,
+		committees: committees.map((committee) => ({
+			_id: committee._id,
+			name: committee.name,
+			accepts_admissions: committee.accepts_admissions,
+			admission_start_date: committee.admission_start_date,
+			admission_end_date: committee.admission_end_date,
+		})),
+		interview_slots: interviewSlots,
+		number_of_applications: applications.length,
+	})
+
+	const isSameId = (id: unknown) => (other: unknown) =>
+		String(id) === String(other)
+	try {
+		await ArchivedApplicationModel.insertMany(
+			applications.map((application) => {
+				const applicationStatuses = statuses.filter((status) =>
+					application.statuses.some(isSameId(status._id))
+				)
+				return {
+					archive: archive._id,
+					application,
+					statuses: applicationStatuses,
+					status_history: statusHistory.filter((history) =>
+						applicationStatuses.some((status) => isSameId(status._id)(history.status))
+					),
+					comments: comments.filter((comment) =>
+						isSameId(comment.application)(application._id)
+					),
+				}
+			})
+		)
+	} catch (error) {
+		// Never leave a half-written archive behind
+		await ArchivedApplicationModel.deleteMany({ archive: archive._id })
+		await AdmissionArchiveModel.deleteOne({ _id: archive._id })
+		throw error
+	}
+	return archive
+}
+
+/**
+ * Write the archived admission data back. There must not be any applications
+ * already, as they would be mixed together.
+ */
+async function restoreAdmissionArchive(archive: IAdmissionArchive) {
+	if (await ApplicationModel.exists({})) {
+		throw new CustomError(
+			'The current admission data must be archived before restoring another',
+			409
+		)
+	}
+	// Rounds created since the archive was made may overlap the archived ones
+	const archivedRoundIds = archive.admission_rounds.map((round) => round._id)
+	await Promise.all(
+		archive.admission_rounds.map((round) =>
+			checkAdmissionRoundOverlap(round, archivedRoundIds)
+		)
+	)
+	const archivedApplications = await ArchivedApplicationModel.find({
+		archive: archive._id,
+	}).lean()
+
+	// The stored documents are inserted as they are, keeping ids and dates
+	const insertAll = async (
+		collection: mongoose.Collection,
+		docs: Parameters<mongoose.Collection['insertMany']>[0]
+	) => {
+		if (docs.length) await collection.insertMany(docs)
+	}
+	await insertAll(
+		ApplicationModel.collection,
+		archivedApplications.map((archived) => archived.application)
+	)
+	// Archives made before the normalized fields were added lack them
+	await backfillNormalizedContactFields()
+	await insertAll(
+		StatusModel.collection,
+		archivedApplications.flatMap((archived) => archived.statuses)
+	)
+	await insertAll(
+		StatusHistoryModel.collection,
+		archivedApplications.flatMap((archived) => archived.status_history)
+	)
+	await insertAll(
+		CommentModel.collection,
+		archivedApplications.flatMap((archived) => archived.comments)
+	)
+	// Slots created for the new round are kept alongside the restored ones
+	if (archive.interview_slots.length) {
+		await InterviewSlotModel.collection.bulkWrite(
+			archive.interview_slots.map((slot) => ({
+				replaceOne: { filter: { _id: slot._id }, replacement: slot, upsert: true },
+			}))
+		)
+	}
+
+	if (archive.admission_rounds.length) {
+		await AdmissionRoundModel.collection.bulkWrite(
+			archive.admission_rounds.map((round) => ({
+				replaceOne: {
+					filter: { _id: round._id },
+					replacement: round,
+					upsert: true,
+				},
+			}))
+		)
+	}
+	if (archive.committees.length) {
+		await CommitteeModel.bulkWrite(
+			archive.committees.map((committee) => ({
+				updateOne: {
+					filter: { _id: committee._id },
+					update: {
+						accepts_admissions: committee.accepts_admissions,
+						admission_start_date: committee.admission_start_date || null,
+						admission_end_date: committee.admission_end_date || null,
+					},
+				},
+			}))
+		)
+	}
+}
+
+export { archiveAdmissionRound, restoreAdmissionArchive }
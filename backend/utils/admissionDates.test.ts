@@ -0,0 +1,146 @@
+import {
+	getAdmissionRoundInstants,
+	getDateInTimeZone,
+	isCommitteeAdmissionOpen,
+} from './admissionDates'
+
+describe('getAdmissionRoundInstants', () => {
+	it.each([
+		{
+			case: 'winter time in Oslo',
+			startDate: '2023-01-09',
+			endDate: '2023-01-20',
+			timeZone: 'Europe/Oslo',
+			opensAt: '2023-01-08T23:00:00.000Z',
+			closesAt: '2023-01-20T23:00:00.000Z',
+		},
+		{
+			case: 'closing on the night Oslo springs forward',
+			startDate: '2023-03-20',
+			endDate: '2023-03-25',
+			timeZone: 'Europe/Oslo',
+			opensAt: '2023-03-19T23:00:00.000Z',
+			closesAt: '2023-03-25T23:00:00.000Z',
+		},
+		{
+			case: 'the day Oslo springs forward, which is 23 hours',
+			startDate: '2023-03-26',
+			endDate: '2023-03-26',
+			timeZone: 'Europe/Oslo',
+			opensAt: '2023-03-25T23:00:00.000Z',
+			closesAt: '2023-03-26T22:00:00.000Z',
+		},
+		{
+			case: 'the day Oslo falls back, which is 25 hours',
+			startDate: '2023-10-29',
+			endDate: '2023-10-29',
+			timeZone: 'Europe/Oslo',
+			opensAt: '2023-10-28T22:00:00.000Z',
+			closesAt: '2023-10-29T23:00:00.000Z',
+		},
+		{
+			case: 'opening in summer time and closing in winter time in Oslo',
+			startDate: '2023-10-16',
+			endDate: '2023-11-03',
+			timeZone: 'Europe/Oslo',
+			opensAt: '2023-10-15T22:00:00.000Z',
+			closesAt: '2023-11-03T23:00:00.000Z',
+		},
+		{
+			case: 'the day New York springs forward',
+			startDate: '2023-03-12',
+			endDate: '2023-03-12',
+			timeZone: 'America/New_York',
+			opensAt: '2023-03-12T05:00:00.000Z',
+			closesAt: '2023-03-13T04:00:00.000Z',
+		},
+		{
+			case: 'the day New York falls back',
+			startDate: '2023-11-05',
+			endDate: '2023-11-05',
+			timeZone: 'America/New_York',
+			opensAt: '2023-11-05T04:00:00.000Z',
+			closesAt: '2023-11-06T05:00:00.000Z',
+		},
+		{
+			case: 'a zone without DST',
+			startDate: '2023-03-26',
+			endDate: '2023-10-29',
+			timeZone: 'Asia/Tokyo',
+			opensAt: '2023-03-25T15:00:00.000Z',
+			closesAt: '2023-10-29T15:00:00.000Z',
+		},
+	])(
+		'opens and closes at midnight for $case',
+		({ startDate, endDate, timeZone, opensAt, closesAt }) => {
+			const instants = getAdmissionRoundInstants(startDate, endDate, timeZone)
+			expect(instants.opens_at.toISOString()).toBe(opensAt)
+			expect(instants.closes_at.toISOString()).toBe(closesAt)
+		}
+	)
+
+	it('opens at the first moment of the day when midnight is skipped', () => {
+		// Santiago springs forward from midnight to 01:00
+		const instants = getAdmissionRoundInstants(
+			'2023-09-03',
+			'2023-09-03',
+			'America/Santiago'
+		)
+		expect(instants.opens_at.toISOString()).toBe('2023-09-03T04:00:00.000Z')
+		expect(instants.closes_at.toISOString()).toBe('2023-09-04T03:00:00.000Z')
+	})
+})
+
+describe('getDateInTimeZone', () => {
+	it.each([
+		// The last minutes before midnight in Oslo are the day before in UTC
+		['2023-03-25T22:59:00.000Z', 'Europe/Oslo', '2023-03-25'],
+		['2023-03-25T23:00:00.000Z', 'Europe/Oslo', '2023-03-26'],
+		['2023-10-28T21:59:00.000Z', 'Europe/Oslo', '2023-10-28'],
+		['2023-10-28T22:00:00.000Z', 'Europe/Oslo', '2023-10-29'],
+		['2023-10-29T22:59:00.000Z', 'Europe/Oslo', '2023-10-29'],
+		['2023-10-29T23:00:00.000Z', 'Europe/Oslo', '2023-10-30'],
+		['2023-03-13T03:59:00.000Z', 'America/New_York', '2023-03-12'],
+		['2023-03-13T04:00:00.000Z', 'America/New_York', '2023-03-13'],
+	])('at %s in %s is %s', (now, timeZone, date) => {
+		expect(getDateInTimeZone(timeZone, new Date(now))).toBe(date)
+	})
+})
+
+describe('isCommitteeAdmissionOpen', () => {
+	const committee = {
+		accepts_admissions: true,
+		admission_start_date: '2023-03-26',
+		admission_end_date: '2023-10-29',
+	}
+
+	it.each([
+		['2023-03-25T22:59:00.000Z', false],
+		['2023-03-25T23:00:00.000Z', true],
+		['2023-10-29T22:59:00.000Z', true],
+		['2023-10-29T23:00:00.000Z', false],
+	])('in Oslo at %s is %s', (now, isOpen) => {
+		expect(
+			isCommitteeAdmissionOpen(committee, 'Europe/Oslo', new Date(now))
+		).toBe(isOpen)
+	})
+
+	it('follows the time zone of the round', () => {
+		// Already the 26th in Oslo, still the 25th in New York
+		const now = new Date('2023-03-26T01:00:00.000Z')
+		expect(isCommitteeAdmissionOpen(committee, 'Europe/Oslo', now)).toBe(true)
+		expect(isCommitteeAdmissionOpen(committee, 'America/New_York', now)).toBe(
+			false
+		)
+	})
+
+	it('is closed when the committee does not accept admissions', () => {
+		expect(
+			isCommitteeAdmissionOpen(
+				{ ...committee, accepts_admissions: false },
+				'Europe/Oslo',
+				new Date('2023-06-01T12:00:00.000Z')
+			)
+		).toBe(false)
+	})
+})
@@ -0,0 +1,76 @@
+import dayjs from 'dayjs'
+import utc from 'dayjs/plugin/utc'
+import timezone from 'dayjs/plugin/timezone'
+import { ICommittee } from '../models/Committee'
+
+dayjs.extend(utc)
+dayjs.extend(timezone)
+
+const DATE_FORMAT = 'YYYY-MM-DD'
+const DEFAULT_TIME_ZONE = 'Europe/Oslo'
+
+function isValidTimeZone(timeZone: string) {
+	try {
+		// Throws a RangeError for time zones that are not in the IANA database
+		Intl.DateTimeFormat('en-US', { timeZone })
+		return true
+	} catch (error) {
+		return false
+	}
+}
+
+/**
+ * The exact instants a round opens and closes. The round opens at midnight
+ * on the start date and closes at midnight after the end date, both in the
+ * time zone of the round, so the result does not depend on where the server
+ * runs. If midnight is skipped by a DST transition, the round opens at the
+ * first moment of the day.
+ */
+function getAdmissionRoundInstants(
+	startDate: string,
+	endDate: string,
+	timeZone: string
+) {
+	// Plain calendar arithmetic, the day after is not always 24 hours later
+	const dayAfterEndDate = dayjs(endDate).add(1, 'day').format(DATE_FORMAT)
+	return {
+		opens_at: dayjs.tz(startDate, timeZone).toDate(),
+		closes_at: dayjs.tz(dayAfterEndDate, timeZone).toDate(),
+	}
+}
+
+// The current date (YYYY-MM-DD) in the given time zone
+function getDateInTimeZone(timeZone: string, now: Date = new Date()) {
+	return dayjs(now).tz(timeZone).format(DATE_FORMAT)
+}
+
+/**
+ * Whether the committee takes applications right now. A committee must accept
+ * admissions, and can limit the round further with its own start and end date,
+ * which follow the time zone of the round.
+ */
+function isCommitteeAdmissionOpen(
+	committee: Pick<
+		ICommittee,
+		'accepts_admissions' | 'admission_start_date' | 'admission_end_date'
+	>,
+	timeZone: string,
+	now: Date = new Date()
+) {
+	const today = getDateInTimeZone(timeZone, now)
+	return (
+		committee.accepts_admissions &&
+		(!committee.admission_start_date ||
+			committee.admission_start_date <= today) &&
+		(!committee.admission_end_date || committee.admission_end_date >= today)
+	)
+}
+
+export {
+	DATE_FORMAT,
+	DEFAULT_TIME_ZONE,
+	isValidTimeZone,
+	getAdmissionRoundInstants,
+	getDateInTimeZone,
+	isCommitteeAdmissionOpen,
+}
@@ -0,0 +1,55 @@
+import dayjs from 'dayjs'
+import { CustomError } from 'ntnui-tools/customError'
+import { AdmissionRoundModel } from '../models/AdmissionRound'
+import { DATE_FORMAT } from './admissionDates'
+
+/**
+ * The admission round open for applications right now, if any
+ */
+async function getActiveAdmissionRound(now: Date = new Date()) {
+	return AdmissionRoundModel.findOne({
+		opens_at: { $lte: now },
+		closes_at: { $gt: now },
+	})
+}
+
+/**
+ * Throw if the round would overlap another, as there can be only one active
+ * round at the time. The instants are compared, as the rounds can be in
+ * different time zones. The rounds with the ignored ids are replaced, and
+ * not compared against.
+ */
+async function checkAdmissionRoundOverlap(
+	{ opens_at, closes_at }: { opens_at: Date; closes_at: Date },
+	ignoredRoundIds: unknown[] = []
+) {
+	const overlappingRound = await AdmissionRoundModel.findOne({
+		_id: { $nin: ignoredRoundIds },
+		opens_at: { $lt: closes_at },
+		closes_at: { $gt: opens_at },
+	})
+	if (overlappingRound) {
+		throw new CustomError(
+			`The admission round overlaps with ${overlappingRound.name}`,
+			409
+		)
+	}
+}
+
+// Expect a calendar date (YYYY-MM-DD), without any time or offset
+function validateDateString(value: string): string {
+	if (
+		!/^\d{4}-\d{2}-\d{2}$/.test(value) ||
+		// Catches dates like 2022-02-30, which dayjs rolls over to March
+		dayjs(value).format(DATE_FORMAT) !== value
+	) {
+		throw new CustomError('The dates are invalid', 400)
+	}
+	return value
+}
+
+export {
+	getActiveAdmissionRound,
+	checkAdmissionRoundOverlap,
+	validateDateString,
+}
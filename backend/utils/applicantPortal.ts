@@ -0,0 +1,25 @@
+import dayjs from 'dayjs'
+import mongoose from 'mongoose'
+import { ApplicantPortalLinkModel } from '../models/ApplicantPortalLink'
+import { FRONTEND_URL } from './constants'
+import { generateToken, hashToken } from './token'
+
+const PORTAL_LINK_VALID_DAYS = 30
+
+/**
+ * Create a new link to the applicant portal for the application. Earlier
+ * links are kept until they expire, as they might be in other mails
+ */
+async function createApplicantPortalLink(
+	applicationId: mongoose.Types.ObjectId
+) {
+	const token = generateToken()
+	await ApplicantPortalLinkModel.create({
+		token_hash: hashToken(token),
+		application: applicationId,
+		expires_date: dayjs().add(PORTAL_LINK_VALID_DAYS, 'day').toDate(),
+	})
+	return `${FRONTEND_URL}/my-application/${token}`
+}
+
+export default createApplicantPortalLink
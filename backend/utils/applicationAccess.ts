@@ -0,0 +1,24 @@
+import { CustomError } from 'ntnui-tools/customError'
+import { ApplicationModel } from '../models/Application'
+import { can, IPermissionUser } from './permissions'
+
+/**
+ * Retrieve application by id, if the user has access to it
+ */
+async function getApplicationWithAccess(
+	applicationId: string,
+	user: IPermissionUser
+) {
+	const application = await ApplicationModel.findById(applicationId)
+		.then((applicationRes) => applicationRes)
+		.catch(() => {
+			throw new CustomError('Could not find application', 404)
+		})
+	if (!application) throw new CustomError('Could not find application', 404)
+	if (!can(user, 'read_application', { committees: application.committees })) {
+		throw new CustomError('You do not have access to this application', 403)
+	}
+	return application
+}
+
+export default getApplicationWithAccess
@@ -0,0 +1,53 @@
+import ExcelJS from 'exceljs'
+import dayjs from 'dayjs'
+
+type ExportRow = Record<string, string>
+
+// Stop spreadsheet programs from evaluating cells as formulas
+function escapeFormula(value: string) {
+	return /^[=+\-@\t\r]/.test(value) ? `'${value}` : value
+}
+
+function escapeCsvValue(value: string) {
+	const escapedValue = escapeFormula(value)
+	return /[",\n\r]/.test(escapedValue)
+		? `"${escapedValue.replace(/"/g, '""')}"`
+		: escapedValue
+}
+
+function toCsv(columns: string[], rows: ExportRow[]) {
+	const lines = [
+		columns.map(escapeCsvValue).join(','),
+		...rows.map((row) =>
+			columns.map((column) => escapeCsvValue(row[column] || '')).join(',')
+		),
+	]
+	// Byte order mark makes Excel read the file as UTF-8
+	return `\uFEFF${lines.join('\r\n')}\r\n`
+}
+
+async function toXlsx(columns: string[], rows: ExportRow[]) {
+	const workbook = new ExcelJS.Workbook()
+	const worksheet = workbook.addWorksheet('Søknader')
+	worksheet.columns = columns.map((column) => ({
+		header: column,
+		key: column,
+		width: 20,
+	}))
+	worksheet.getRow(1).font = { bold: true }
+	rows.forEach((row) => {
+		worksheet.addRow(
+			Object.fromEntries(
+				Object.entries(row).map(([column, value]) => [column, escapeFormula(value)])
+			)
+		)
+	})
+	return Buffer.from(await workbook.xlsx.writeBuffer())
+}
+
+function getExportFileName(extension: string) {
+	return `soknader-${dayjs().format('YYYY-MM-DD')}.${extension}`
+}
+
+export { toCsv, toXlsx, getExportFileName }
+export type { ExportRow }
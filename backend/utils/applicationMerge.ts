@@ -0,0 +1,97 @@
+import mongoose from 'mongoose'
+import { ApplicantPortalLinkModel } from '../models/ApplicantPortalLink'
+import { ApplicationModel, IApplication } from '../models/Application'
+import { CommentModel } from '../models/Comment'
+import { InterviewInvitationModel } from '../models/InterviewInvitation'
+import { InterviewSlotModel } from '../models/InterviewSlot'
+import { StatusModel } from '../models/Status'
+import { StatusHistoryModel } from '../models/StatusHistory'
+
+type ApplicationDocument = mongoose.HydratedDocument<IApplication>
+
+/**
+ * # Merging a duplicate into an application
+ * 1. Committees only applied to in the duplicate are moved over together
+ *    with their statuses, interviews and interview links
+ * 2. For committees applied to in both, the status of the application is
+ *    kept, and the status of the duplicate is removed
+ * 3. Comments, answers, attachments and portal links are moved over, and
+ *    the duplicate is removed
+ */
+async function mergeApplications(
+	application: ApplicationDocument,
+	duplicate: ApplicationDocument
+) {
+	const duplicateStatuses = await StatusModel.find({
+		_id: { $in: duplicate.statuses },
+	})
+	const movedStatuses = duplicateStatuses.filter(
+		(status) => !application.committees.includes(status.committee)
+	)
+	const removedStatuses = duplicateStatuses.filter((status) =>
+		application.committees.includes(status.committee)
+	)
+	const movedCommittees = movedStatuses.map((status) => status.committee)
+
+	// A ranking must include every committee, so the new ones are ranked last
+	const rankCommittees = (app: ApplicationDocument) =>
+		app.priorities.length ? app.priorities : app.committees
+	const priorities =
+		application.priorities.length || duplicate.priorities.length
+			? [
+					...rankCommittees(application),
+					...rankCommittees(duplicate).filter((committee) =>
+						movedCommittees.includes(committee)
+					),
+			  ]
+			: []
+	application.set({
+		committees: [...application.committees, ...movedCommittees],
+		priorities,
+		statuses: [
+			...application.statuses,
+			...movedStatuses.map((status) => status._id),
+		],
+		answers: [
+			...application.answers,
+			...duplicate.answers.filter(
+				(answer) =>
+					!application.answers.some(
+						(other) => String(other.question) === String(answer.question)
+					)
+			),
+		],
+		attachments: [...application.attachments, ...duplicate.attachments],
+		text: application.text || duplicate.text,
+	})
+	await application.save()
+
+	const removedStatusIds = removedStatuses.map((status) => status._id)
+	await InterviewSlotModel.updateMany(
+		{ application: duplicate._id, committee: { $in: movedCommittees } },
+		{ application: application._id }
+	)
+	await InterviewSlotModel.updateMany(
+		{ application: duplicate._id },
+		{ application: null }
+	)
+	await InterviewInvitationModel.updateMany(
+		{ application: duplicate._id, committee: { $in: movedCommittees } },
+		{ application: application._id }
+	)
+	await InterviewInvitationModel.deleteMany({ application: duplicate._id })
+	await StatusHistoryModel.deleteMany({ status: { $in: removedStatusIds } })
+	await StatusModel.deleteMany({ _id: { $in: removedStatusIds } })
+	await CommentModel.updateMany(
+		{ application: duplicate._id },
+		{ application: application._id }
+	)
+	await ApplicantPortalLinkModel.updateMany(
+		{ application: duplicate._id },
+		{ application: application._id }
+	)
+	await ApplicationModel.deleteOne({ _id: duplicate._id })
+	return application
+}
+
+export default mergeApplications
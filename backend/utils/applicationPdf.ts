@@ -0,0 +1,126 @@
+import PDFDocument from 'pdfkit'
+import dayjs from 'dayjs'
+import 'dayjs/locale/nb'
+import { StatusTypes } from './enums'
+
+// Same wording as in the frontend
+const STATUS_TRANSLATIONS: Record<StatusTypes, string> = {
+	[StatusTypes.PENDING]: 'Ubehandlet',
+	[StatusTypes.INVITED_TO_INTERVIEW]: 'Invitert til intervju',
+	[StatusTypes.INTERVIEW_DECLINED]: 'Intervju avslått',
+	[StatusTypes.INTERVIEW_COMPLETED]: 'Intervju fullført',
+	[StatusTypes.OFFER_GIVEN]: 'Tilbud gitt',
+	[StatusTypes.OFFER_DECLINED]: 'Tilbud avslått',
+	[StatusTypes.ACCEPTED]: 'Akseptert',
+	[StatusTypes.REJECTED]: 'Avvist',
+	[StatusTypes.WITHDRAWN]: 'Trukket',
+}
+
+interface IApplicationPdfContent {
+	name: string
+	email: string
+	phone_number: string
+	text: string
+	submitted_date: Date
+	statuses: {
+		value: string
+		set_by: string | null
+		committee: { name: string }
+	}[]
+	committees: { _id: number; name: string }[]
+	answers: {
+		committee: number
+		question_text: string
+		value: string | string[] | boolean
+	}[]
+}
+
+function formatAnswer(value: string | string[] | boolean) {
+	if (typeof value === 'boolean') return value ? 'Ja' : 'Nei'
+	if (Array.isArray(value)) return value.join(', ')
+	return value
+}
+
+/**
+ * Render the application as a printable PDF. The caller is responsible
+ * for only passing the parts of the application the user has access to.
+ */
+function createApplicationPdf(application: IApplicationPdfContent) {
+	const doc = new PDFDocument({
+		size: 'A4',
+		margin: 50,
+		info: { Title: `Søknad fra ${application.name}` },
+	})
+
+	doc.fontSize(20).font('Helvetica-Bold').text(`Søknad fra ${application.name}`)
+	doc
+		.moveDown(0.3)
+		.fontSize(10)
+		.font('Helvetica')
+		.fillColor('gray')
+		.text(
+			`Sendt ${dayjs(application.submitted_date)
+				.locale('nb')
+				.format('D. MMMM YYYY HH:mm')}`
+		)
+		.fillColor('black')
+
+	doc.moveDown().fontSize(14).font('Helvetica-Bold').text('Personalia')
+	doc.moveDown(0.3).fontSize(11).font('Helvetica')
+	doc.text(`E-post: ${application.email}`)
+	doc.text(`Telefon: ${application.phone_number}`)
+
+	doc.moveDown().fontSize(14).font('Helvetica-Bold').text('Utvalg og status')
+	doc.moveDown(0.3).fontSize(11).font('Helvetica')
+	application.statuses.forEach((status) => {
+		const statusText =
+			STATUS_TRANSLATIONS[status.value as StatusTypes] || status.value
+		doc.text(
+			`${status.committee.name}: ${statusText}${
+				status.set_by ? ` (satt av ${status.set_by})` : ''
+			}`
+		)
+	})
+
+	doc.moveDown().fontSize(14).font('Helvetica-Bold').text('Søknadstekst')
+	doc
+		.moveDown(0.3)
+		.fontSize(11)
+		.font('Helvetica')
+		.text(application.text || 'Søkeren har ikke skrevet noen søknadstekst.', {
+			align: 'left',
+		})
+
+	// Only the answers the user has access to are passed
+	application.committees.forEach((committee) => {
+		const answers = application.answers.filter(
+			(answer) => answer.committee === committee._id
+		)
+		if (!answers.length) return
+		doc
+			.moveDown()
+			.fontSize(14)
+			.font('Helvetica-Bold')
+			.text(`Spørsmål fra ${committee.name}`)
+		answers.forEach((answer) => {
+			doc
+				.moveDown(0.3)
+				.fontSize(11)
+				.font('Helvetica-Bold')
+				.text(answer.question_text)
+			doc.font('Helvetica').text(formatAnswer(answer.value))
+		})
+	})
+
+	return doc
+}
+
+function getApplicationPdfFileName(name: string) {
+	const slug = name
+		.toLowerCase()
+		.replace(/[^a-z0-9æøå]+/g, '-')
+		.replace(/^-|-$/g, '')
+	return `soknad-${slug || 'ukjent'}.pdf`
+}
+
+export { createApplicationPdf, getApplicationPdfFileName }
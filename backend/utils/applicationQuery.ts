@@ -0,0 +1,151 @@
+import mongoose, { PipelineStage } from 'mongoose'
+import { ICommittee } from '../models/Committee'
+import { IStatus } from '../models/Status'
+import { MAIN_BOARD_ID } from './constants'
+import { SortTypes } from './enums'
+import { getSortTypeValue } from './applicationQueryMiddleware'
+import {
+	can,
+	getReadableApplicationsFilter,
+	IPermissionUser,
+} from './permissions'
+
+interface IApplicationFilters {
+	name?: string
+	committee?: string | string[]
+	status?: string
+	round?: string
+	sort?: SortTypes
+}
+
+/**
+ * Aggregation stages retrieving the applications the user has access to,
+ * following the filters from the query parameters. Statuses and committees
+ * are populated.
+ */
+function getApplicationFilterStages(
+	user: IPermissionUser,
+	{ name, committee, status, round, sort: sortparam }: IApplicationFilters
+) {
+	const sortValue = getSortTypeValue(sortparam as SortTypes) // Parse sort value
+	const aggregationPipeline: PipelineStage[] = []
+	// Only return applications that are sent to committees that user is authorized to see
+	aggregationPipeline.push({ $match: getReadableApplicationsFilter(user) })
+	// Query on name
+	const queryName = {
+		$match: {
+			name: {
+				$regex: name,
+				$options: 'i',
+			},
+		},
+	}
+	if (name) aggregationPipeline.push(queryName)
+
+	// Query on the admission round the application was sent in
+	if (round) {
+		aggregationPipeline.push({
+			$match: { admission_round: new mongoose.Types.ObjectId(round) },
+		})
+	}
+
+	// Populate status to query on status for committee value
+	const populateStatus = {
+		$lookup: {
+			from: 'statuses',
+			localField: 'statuses',
+			foreignField: '_id',
+			as: 'statuses',
+		},
+	}
+	aggregationPipeline.push(populateStatus)
+
+	// Prepare committees query
+	const committeeIds = []
+	if (committee) {
+		// Parse query parameter to numbers
+		if (Array.isArray(committee)) {
+			committeeIds.push(...committee.map((id) => parseInt(id, 10)))
+		} else {
+			committeeIds.push(parseInt(committee, 10))
+		}
+	}
+	// Filter on both status and committees if both query parameters are sent
+	if (status && committee) {
+		const statusForCommittee = {
+			$match: {
+				statuses: {
+					$elemMatch: {
+						committee: {
+							$in: committeeIds,
+						},
+						value: status,
+					},
+				},
+			},
+		}
+		aggregationPipeline.push(statusForCommittee)
+	} else if (status) {
+		// Filter only on status
+		const filterStatus = {
+			$match: {
+				statuses: {
+					$elemMatch: {
+						value: status,
+					},
+				},
+			},
+		}
+		aggregationPipeline.push(filterStatus)
+	} else if (committee) {
+		// Filter only on committee(s)
+		const filterCommittee = {
+			$match: {
+				committees: {
+					$in: committeeIds,
+				},
+			},
+		}
+		aggregationPipeline.push(filterCommittee)
+	}
+
+	// Populate committees
+	const populateCommittees = {
+		$lookup: {
+			from: 'committees',
+			localField: 'committees',
+			foreignField: '_id',
+			as: 'committees',
+		},
+	}
+	aggregationPipeline.push(populateCommittees)
+
+	// Sort
+	const sort = {
+		$sort: sortValue as Record<string, 1 | -1>,
+	}
+	if (sortparam) aggregationPipeline.push(sort)
+
+	return aggregationPipeline
+}
+
+/**
+ * If application is sent to main board, hide parts with main board from
+ * everyone but the election committee
+ */
+function hideMainBoardParts<
+	T extends { committees: ICommittee[]; statuses: IStatus[] }
+>(applications: T[], user: IPermissionUser) {
+	if (can(user, 'read_main_board')) return applications
+	return applications.map((application) => ({
+		...application,
+		// Remove status and committee if it's main board
+		committees: application.committees.filter((com) => com._id !== MAIN_BOARD_ID),
+		statuses: application.statuses.filter(
+			(stat) => stat.committee !== MAIN_BOARD_ID
+		),
+	}))
+}
+
+export { getApplicationFilterStages, hideMainBoardParts }
+export type { IApplicationFilters }
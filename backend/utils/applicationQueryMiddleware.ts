@@ -1,6 +1,6 @@
 import { query } from 'express-validator'
 import { stringifyEnum } from '../models/Status'
-import { SortTypes, StatusTypes } from './enums'
+import { ExportFormats, SortTypes, StatusTypes } from './enums'
 
 const applicationQueryValidator = () => [
 	query('page')
@@ -15,12 +15,27 @@ const applicationQueryValidator = () => [
 		.withMessage(
 			`The following values are accepted for status: ${stringifyEnum(StatusTypes)}`
 		),
+	query('round')
+		.optional()
+		.isMongoId()
+		.withMessage('Must be an admission round id'),
 	query('sort')
 		.optional()
 		.isIn(Object.values(SortTypes))
 		.withMessage('Invalid value for sort'),
 ]
 
+const applicationExportValidator = () => [
+	...applicationQueryValidator(),
+	query('format')
+		.isIn(Object.values(ExportFormats))
+		.withMessage(
+			`The following values are accepted for format: ${stringifyEnum(
+				ExportFormats
+			)}`
+		),
+]
+
 const getSortTypeValue = (sortType: SortTypes) => {
 	switch (sortType) {
 		case SortTypes.NAME_ASC:
@@ -37,4 +52,4 @@ const getSortTypeValue = (sortType: SortTypes) => {
 }
 
 export default applicationQueryValidator
-export { getSortTypeValue }
+export { getSortTypeValue, applicationExportValidator }
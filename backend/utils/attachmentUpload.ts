@@ -0,0 +1,41 @@
+import { NextFunction, Request, Response } from 'express'
+import multer from 'multer'
+import { CustomError } from 'ntnui-tools/customError'
+import { MAX_ATTACHMENT_SIZE_MB } from './constants'
+
+const MAX_ATTACHMENTS = 3
+
+// Files are kept in memory until the application is validated and stored
+const upload = multer({
+	storage: multer.memoryStorage(),
+	limits: {
+		fileSize: MAX_ATTACHMENT_SIZE_MB * 1024 * 1024,
+		files: MAX_ATTACHMENTS,
+	},
+	fileFilter: (req, file, callback) => {
+		if (file.mimetype !== 'application/pdf') {
+			return callback(new CustomError('Only PDF files can be attached', 400))
+		}
+		return callback(null, true)
+	},
+}).array('attachments', MAX_ATTACHMENTS)
+
+/**
+ * Accept up to MAX_ATTACHMENTS PDF files in the attachments field of a
+ * multipart request. Too many or too large files are rejected
+ */
+function attachmentUpload(req: Request, res: Response, next: NextFunction) {
+	upload(req, res, (error: unknown) => {
+		if (error instanceof multer.MulterError) {
+			return next(
+				new CustomError(
+					`Attach at most ${MAX_ATTACHMENTS} files of at most ${MAX_ATTACHMENT_SIZE_MB} MB`,
+					400
+				)
+			)
+		}
+		return next(error)
+	})
+}
+
+export default attachmentUpload
@@ -0,0 +1,74 @@
+/* eslint-disable no-console */
+import mongoose from 'mongoose'
+import { CustomError } from 'ntnui-tools/customError'
+import { IApplicationAttachment } from '../models/Application'
+import fileStorage from '../storage'
+import scanFile from '../storage/virusScan'
+
+// Every PDF file starts with this signature, whatever the browser claims
+const PDF_SIGNATURE = '%PDF-'
+
+/**
+ * Check that the uploaded files are clean PDF files before anything is stored
+ */
+async function validateAttachments(files: Express.Multer.File[]) {
+	if (
+		files.some(
+			(file) =>
+				file.buffer.subarray(0, PDF_SIGNATURE.length).toString() !== PDF_SIGNATURE
+		)
+	) {
+		throw new CustomError('Only PDF files can be attached', 400)
+	}
+	const results = await Promise.all(
+		files.map((file) => scanFile(file.buffer, file.originalname))
+	)
+	if (results.includes(false)) {
+		throw new CustomError('An attached file was rejected by the virus scan', 400)
+	}
+}
+
+/**
+ * Remove the stored files of the attachments. Failures are only logged, as
+ * the files can not be reached without the attachments anyway
+ */
+async function removeAttachments(attachments: IApplicationAttachment[]) {
+	await Promise.all(
+		attachments.map((attachment) =>
+			fileStorage.remove(attachment.storage_key).catch((error) => {
+				console.error(`Could not remove ${attachment.storage_key}:`, error)
+			})
+		)
+	)
+}
+
+/**
+ * Store the files of the application, removing those already stored if one fails
+ */
+async function storeAttachments(
+	applicationId: mongoose.Types.ObjectId,
+	files: Express.Multer.File[]
+): Promise<IApplicationAttachment[]> {
+	const attachments = files.map((file) => {
+		const attachmentId = new mongoose.Types.ObjectId()
+		return {
+			_id: attachmentId,
+			file_name: file.originalname,
+			size: file.size,
+			storage_key: `applications/${applicationId}/${attachmentId}.pdf`,
+		}
+	})
+	try {
+		await Promise.all(
+			attachments.map((attachment, index) =>
+				fileStorage.save(attachment.storage_key, files[index].buffer)
+			)
+		)
+	} catch (error) {
+		await removeAttachments(attachments)
+		throw new CustomError('Something went wrong storing the attachments', 500)
+	}
+	return attachments
+}
+
+export { validateAttachments, storeAttachments, removeAttachments }
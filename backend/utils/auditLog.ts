@@ -0,0 +1,68 @@
+/* eslint-disable no-console */
+import mongoose from 'mongoose'
+import { AuditLogModel } from '../models/AuditLog'
+import { UserModel } from '../models/User'
+import { AuditActions } from './enums'
+
+interface IAuditEvent {
+	action: AuditActions
+	target_type: string
+	target_id?: mongoose.Types.ObjectId | string | number | null
+	// The committee whose handling of an application the action is part of
+	committee?: number | null
+	before?: unknown
+	after?: unknown
+	// Who did it, when it was not a logged in user
+	actor_name?: string
+}
+
+/**
+ * Write the action to the audit log, failing if it can't be written. Used
+ * where the action is undone when it can't be logged. Actions by applicants
+ * have no ntnuiNo, and are logged with the name of the applicant.
+ */
+async function writeAuditEvent(
+	ntnuiNo: number | string | null,
+	{
+		action,
+		target_type,
+		target_id,
+		committee,
+		before,
+		after,
+		actor_name,
+	}: IAuditEvent
+) {
+	const user = ntnuiNo === null ? null : await UserModel.findById(ntnuiNo)
+	return AuditLogModel.create({
+		actor: ntnuiNo === null ? null : Number(ntnuiNo),
+		actor_name:
+			actor_name ?? (user ? `${user.first_name} ${user.last_name}` : 'Ukjent'),
+		action,
+		target_type,
+		target_id: target_id?.toString() ?? null,
+		committee: committee ?? null,
+		// Store plain objects instead of documents
+		before: before === undefined ? null : JSON.parse(JSON.stringify(before)),
+		after: after === undefined ? null : JSON.parse(JSON.stringify(after)),
+	})
+}
+
+/**
+ * Record a privileged action in the audit log. Should be called after the
+ * action succeeded. A failure to log is reported, but does not undo or fail
+ * the action.
+ */
+async function logAuditEvent(
+	ntnuiNo: number | string | null,
+	event: IAuditEvent
+) {
+	try {
+		await writeAuditEvent(ntnuiNo, event)
+	} catch (error) {
+		console.error(`📝 Could not write ${event.action} to the audit log`, error)
+	}
+}
+
+export { writeAuditEvent }
+export default logAuditEvent
@@ -1,19 +1,23 @@
 import { Response, NextFunction } from 'express'
 import jsonwebtoken from 'jsonwebtoken'
-import { isValidNtnuiToken, refreshNtnuiToken } from 'ntnui-tools'
 import { CustomError, UnauthorizedUserError } from 'ntnui-tools/customError'
+import { syncCommitteeRoles } from './committeeRoles'
 import { RequestWithNtnuiNo } from './request'
+import { findSession, getSessionAccessToken, SESSION_COOKIE } from './session'
 
 /**
  * # The authorization middleware
- * 1. Retrieve access- and refresh-token from cookies
- *     * If none are sent return error
- * 2. Check validity of access token against NTNUI
- *     - If not valid, check if refresh token is sent
- *         * If refresh token is sent, try refreshing against NTNUI
- *         * Retrieve new access token
- *         * Return new accessToken
- *     - Decode ntnui_no from token and add to request
+ * 1. Retrieve the session from the session cookie
+ *     * If none is sent, or the session is revoked or expired, return error
+ * 2. Check validity of the session's access token, locally or against NTNUI
+ *     - If not valid, try refreshing against NTNUI with the session's
+ *       refresh token and store the new access token in the session
+ *     - If the refresh fails, the session is ended and an error returned
+ *     - Decode ntnui_no from token
+ * 3. Re-check the user's committee roles against NTNUI if they are older
+ *    than ROLE_SYNC_INTERVAL_MINUTES
+ *     - If the user has lost access, all of their sessions are revoked
+ *     - Add ntnui_no and the session to request
  *     - Allow user through middleware with next()
  */
 const authorization = async (
@@ -21,35 +25,19 @@ const authorization = async (
 	res: Response,
 	next: NextFunction
 ) => {
-	let { accessToken } = req.cookies
-	const { refreshToken } = req.cookies
 	try {
-		if (!refreshToken && !accessToken) {
-			throw new CustomError('No tokens sent', 401)
-		}
-		const isValid = await isValidNtnuiToken(accessToken)
-		if (!isValid) {
-			// Try to refresh
-			if (!refreshToken) {
-				throw new CustomError('No refresh-token sent', 401)
-			}
-			const newToken = await refreshNtnuiToken(refreshToken)
-			if (newToken) {
-				accessToken = newToken.access
-				// Set cookies
-				res.cookie('accessToken', newToken.access, {
-					maxAge: 1800000, // 30 minutes
-					httpOnly: true,
-					secure: process.env.NODE_ENV === 'production',
-					sameSite: true,
-				})
-			} else {
-				throw new CustomError('Invalid token', 401)
-			}
+		const session = await findSession(req.cookies[SESSION_COOKIE])
+		if (!session) {
+			throw new CustomError('No valid session', 401)
 		}
+		const accessToken = await getSessionAccessToken(session)
 		const decoded = jsonwebtoken.decode(accessToken)
 		if (decoded && typeof decoded !== 'string') {
+			if (!(await syncCommitteeRoles(decoded.ntnui_no, accessToken))) {
+				throw UnauthorizedUserError
+			}
 			req.ntnuiNo = decoded.ntnui_no
+			req.sessionId = String(session._id)
 			return next()
 		}
 		throw UnauthorizedUserError
@@ -0,0 +1,158 @@
+import { CustomError } from 'ntnui-tools/customError'
+import { IApplicationAnswer } from '../models/Application'
+import {
+	CommitteeQuestionModel,
+	ICommitteeQuestion,
+} from '../models/CommitteeQuestion'
+import { can, IPermissionUser } from './permissions'
+import { QuestionTypes } from './enums'
+import { MAIN_BOARD_ID } from './constants'
+
+const MAX_ANSWER_LENGTH: Partial<Record<QuestionTypes, number>> = {
+	[QuestionTypes.SHORT_TEXT]: 200,
+	[QuestionTypes.LONG_TEXT]: 2500,
+}
+const MAX_OPTIONS = 20
+
+const isChoiceQuestion = (type: QuestionTypes) =>
+	type === QuestionTypes.SINGLE_CHOICE || type === QuestionTypes.MULTIPLE_CHOICE
+
+/**
+ * Validate a question definition from the request body
+ */
+function parseQuestion(body: Record<string, unknown>) {
+	const type = body.type as QuestionTypes
+	if (!Object.values(QuestionTypes).includes(type)) {
+		throw new CustomError('Invalid question type', 400)
+	}
+	const question = typeof body.question === 'string' ? body.question.trim() : ''
+	if (!question || question.length > 500) {
+		throw new CustomError(
+			'The question must be between 1 and 500 characters',
+			400
+		)
+	}
+	let options: string[] = []
+	if (isChoiceQuestion(type)) {
+		options = Array.isArray(body.options)
+			? Array.from(new Set(body.options.map((option) => String(option).trim())))
+			: []
+		if (
+			options.length < 2 ||
+			options.length > MAX_OPTIONS ||
+			options.some((option) => !option || option.length > 200)
+		) {
+			throw new CustomError(
+				`Choice questions must have between 2 and ${MAX_OPTIONS} unique options`,
+				400
+			)
+		}
+	}
+	return { type, question, options, required: body.required === true }
+}
+
+function isAnswered(value: unknown) {
+	if (value === undefined || value === null) return false
+	if (typeof value === 'string') return value.trim().length > 0
+	if (Array.isArray(value)) return value.length > 0
+	return true
+}
+
+// Throws if the value is not a valid answer to the question
+function parseAnswerValue(question: ICommitteeQuestion, value: unknown) {
+	const invalid = () =>
+		new CustomError(`Invalid answer to the question "${question.question}"`, 400)
+	switch (question.type) {
+		case QuestionTypes.SHORT_TEXT:
+		case QuestionTypes.LONG_TEXT: {
+			if (typeof value !== 'string') throw invalid()
+			const text = value.trim()
+			if (text.length > (MAX_ANSWER_LENGTH[question.type] || 0)) throw invalid()
+			return text
+		}
+		case QuestionTypes.SINGLE_CHOICE:
+			if (typeof value !== 'string' || !question.options.includes(value)) {
+				throw invalid()
+			}
+			return value
+		case QuestionTypes.MULTIPLE_CHOICE:
+			if (
+				!Array.isArray(value) ||
+				value.some((option) => !question.options.includes(option))
+			) {
+				throw invalid()
+			}
+			return Array.from(new Set(value as string[]))
+		case QuestionTypes.YES_NO:
+			if (typeof value !== 'boolean') throw invalid()
+			return value
+		default:
+			throw invalid()
+	}
+}
+
+/**
+ * Validate the answers of an application against the questions of the
+ * committees applied to. Expects answers as [{ question, value }].
+ */
+async function parseApplicationAnswers(
+	committees: number[],
+	answers: unknown
+): Promise<IApplicationAnswer[]> {
+	const submittedAnswers = Array.isArray(answers) ? answers : []
+	const questions = await CommitteeQuestionModel.find({
+		committee: { $in: committees },
+	})
+	const questionIds = questions.map((question) => question._id.toString())
+	if (
+		submittedAnswers.some(
+			(answer) => !questionIds.includes(String(answer?.question))
+		)
+	) {
+		throw new CustomError(
+			'An answer is to a question not asked by the committees applied to',
+			400
+		)
+	}
+	return questions.flatMap((question) => {
+		const answer = submittedAnswers.find(
+			(submitted) => String(submitted.question) === question._id.toString()
+		)
+		if (!answer || !isAnswered(answer.value)) {
+			if (question.required) {
+				throw new CustomError(
+					`The question "${question.question}" must be answered`,
+					400
+				)
+			}
+			return []
+		}
+		return [
+			{
+				question: question._id,
+				committee: question.committee,
+				question_text: question.question,
+				type: question.type,
+				value: parseAnswerValue(question, answer.value),
+			},
+		]
+	})
+}
+
+/**
+ * Each committee only sees the answers to its own questions, while the
+ * election committee sees all answers. The answers to the main board's
+ * questions are never shown to those who can not see the main board.
+ */
+function getVisibleAnswers(
+	answers: IApplicationAnswer[],
+	user: IPermissionUser
+) {
+	return answers.filter(
+		(answer) =>
+			(answer.committee !== MAIN_BOARD_ID || can(user, 'read_main_board')) &&
+			can(user, 'read_answers', { committee: answer.committee })
+	)
+}
+
+export { parseQuestion, parseApplicationAnswers, getVisibleAnswers }
@@ -0,0 +1,98 @@
+/* eslint-disable no-console */
+import { getRoleInGroup } from 'ntnui-tools'
+import { CustomError } from 'ntnui-tools/customError'
+import { CommitteeModel } from '../models/Committee'
+import { SessionModel } from '../models/Session'
+import { IRoleInCommittee, UserModel } from '../models/User'
+import { ROLE_SYNC_GRACE_HOURS, ROLE_SYNC_INTERVAL_MINUTES } from './constants'
+import { MembershipType } from './enums'
+
+async function getCommittees() {
+	return CommitteeModel.find()
+		.then((committees) => committees)
+		.catch(() => {
+			throw new CustomError(
+				'Could not retrieve committees from local database',
+				500
+			)
+		})
+}
+
+function isRoleInAccessRoles(role: string, access_roles: string[]) {
+	return role && (role === MembershipType.leader || access_roles.includes(role))
+}
+
+/**
+ * # Getting the roles giving access
+ * - Get all committees from local db
+ * - For each committee, check role in group in NTNUI membership system by slug
+ * - Determine if role is in access roles of local committees OR is leader
+ *     * If true, push to array of role in committee
+ */
+async function getRolesInCommittees(accessToken: string) {
+	const committees = await getCommittees()
+	// Get what role user has in every committee
+	const rolesResults = committees.map((committee) =>
+		getRoleInGroup(committee.slug, accessToken)
+	)
+	const roles = await Promise.all(rolesResults)
+	// Get roles in committees
+	const rolesInCommittees: IRoleInCommittee[] = []
+	for (let roleIdx = 0; roleIdx < roles.length; roleIdx += 1) {
+		const committee = committees[roleIdx]
+		const role = roles[roleIdx]
+		if (role && isRoleInAccessRoles(role, committee.access_roles)) {
+			rolesInCommittees.push({
+				committee: committee._id,
+				role,
+			})
+		}
+	}
+	return rolesInCommittees
+}
+
+/**
+ * # Re-syncing the roles after login
+ * 1. Roles checked less than ROLE_SYNC_INTERVAL_MINUTES ago are trusted
+ * 2. Otherwise the roles are checked against NTNUI again
+ *     - If the user still has access, the roles in the user model are updated
+ *     - If not, every session of the user is revoked
+ * 3. If NTNUI can't be reached, the last known roles are kept until they are
+ *    older than ROLE_SYNC_GRACE_HOURS, and access is denied after that. NTNUI
+ *    is not asked again until ROLE_SYNC_INTERVAL_MINUTES after the attempt.
+ *
+ * @returns whether the user still has access to any committee
+ */
+async function syncCommitteeRoles(ntnuiNo: number, accessToken: string) {
+	const user = await UserModel.findById(ntnuiNo)
+	if (!user) return false
+	const now = Date.now()
+	const syncInterval = ROLE_SYNC_INTERVAL_MINUTES * 60000
+	const syncedDate = user.roles_synced_date?.getTime() || 0
+	if (now - syncedDate < syncInterval) return true
+	const isWithinGracePeriod = now - syncedDate < ROLE_SYNC_GRACE_HOURS * 3600000
+	const attemptedDate = user.roles_sync_attempted_date?.getTime() || 0
+	if (now - attemptedDate < syncInterval) return isWithinGracePeriod
+	let rolesInCommittees: IRoleInCommittee[]
+	try {
+		rolesInCommittees = await getRolesInCommittees(accessToken)
+	} catch (error) {
+		console.error(`Could not re-sync the roles of user ${ntnuiNo}`, error)
+		user.set({ roles_sync_attempted_date: new Date(now) })
+		await user.save()
+		return isWithinGracePeriod
+	}
+	if (!rolesInCommittees.length) {
+		await SessionModel.deleteMany({ user: ntnuiNo })
+		return false
+	}
+	user.set({
+		committees: rolesInCommittees,
+		roles_synced_date: new Date(now),
+		roles_sync_attempted_date: new Date(now),
+	})
+	await user.save()
+	return true
+}
+
+export { getRolesInCommittees, syncCommitteeRoles }
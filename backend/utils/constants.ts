@@ -1,8 +1,45 @@
 /* eslint-disable no-console */
 const MAIN_BOARD_ID = Number(process.env.MAIN_BOARD_ID) || 52
 const ELECTION_COMMITTEE_ID = Number(process.env.ELECTION_COMMITTEE_ID) || 71
+const FRONTEND_URL = process.env.FRONTEND_URL || 'http://localhost:3000'
+const ARCHIVE_RETENTION_DAYS = Number(process.env.ARCHIVE_RETENTION_DAYS) || 365
+const SCHEDULER_INTERVAL_SECONDS =
+	Number(process.env.SCHEDULER_INTERVAL_SECONDS) || 60
+const MAX_ATTACHMENT_SIZE_MB = Number(process.env.MAX_ATTACHMENT_SIZE_MB) || 5
+const NTNUI_TOKEN_CACHE_SECONDS =
+	Number(process.env.NTNUI_TOKEN_CACHE_SECONDS) || 60
+const ROLE_SYNC_INTERVAL_MINUTES =
+	Number(process.env.ROLE_SYNC_INTERVAL_MINUTES) || 15
+const ROLE_SYNC_GRACE_HOURS = Number(process.env.ROLE_SYNC_GRACE_HOURS) || 6
+const PORTAL_LINK_INTERVAL_MINUTES =
+	Number(process.env.PORTAL_LINK_INTERVAL_MINUTES) || 5
 
 console.log(`🔗 MAIN_BOARD_ID set to ${MAIN_BOARD_ID}`)
 console.log(`🔗 ELECTION_COMMITTEE_ID set to ${ELECTION_COMMITTEE_ID}`)
+console.log(`🔗 FRONTEND_URL set to ${FRONTEND_URL}`)
+console.log(`🔗 ARCHIVE_RETENTION_DAYS set to ${ARCHIVE_RETENTION_DAYS}`)
+console.log(
+	`🔗 SCHEDULER_INTERVAL_SECONDS set to ${SCHEDULER_INTERVAL_SECONDS}`
+)
+console.log(`🔗 MAX_ATTACHMENT_SIZE_MB set to ${MAX_ATTACHMENT_SIZE_MB}`)
+console.log(`🔗 NTNUI_TOKEN_CACHE_SECONDS set to ${NTNUI_TOKEN_CACHE_SECONDS}`)
+console.log(
+	`🔗 ROLE_SYNC_INTERVAL_MINUTES set to ${ROLE_SYNC_INTERVAL_MINUTES}`
+)
+console.log(`🔗 ROLE_SYNC_GRACE_HOURS set to ${ROLE_SYNC_GRACE_HOURS}`)
+console.log(
+	`🔗 PORTAL_LINK_INTERVAL_MINUTES set to ${PORTAL_LINK_INTERVAL_MINUTES}`
+)
 
-export { MAIN_BOARD_ID, ELECTION_COMMITTEE_ID }
+export {
+	MAIN_BOARD_ID,
+	ELECTION_COMMITTEE_ID,
+	FRONTEND_URL,
+	ARCHIVE_RETENTION_DAYS,
+	SCHEDULER_INTERVAL_SECONDS,
+	MAX_ATTACHMENT_SIZE_MB,
+	NTNUI_TOKEN_CACHE_SECONDS,
+	ROLE_SYNC_INTERVAL_MINUTES,
+	ROLE_SYNC_GRACE_HOURS,
+	PORTAL_LINK_INTERVAL_MINUTES,
+}
@@ -0,0 +1,86 @@
+import mongoose from 'mongoose'
+import { ApplicationModel, IApplication } from '../models/Application'
+
+function normalizeEmail(email: string) {
+	return email.trim().toLowerCase()
+}
+
+/**
+ * Phone numbers are compared with their country code, so +47 123 45 678,
+ * 0047 12345678 and 12345678 are the same number. Numbers without a
+ * country code are assumed to be Norwegian.
+ */
+function normalizePhoneNumber(phoneNumber: string) {
+	const number = phoneNumber
+		.trim()
+		.replace(/^00/, '+')
+		.replace(/[^\d+]/g, '')
+	if (number.startsWith('+')) return number
+	return number.length === 8 ? `+47${number}` : number
+}
+
+/**
+ * Other applications in the same admission round sent with the same email
+ * or phone number, which most likely are sent by the same person
+ */
+async function findDuplicateApplications(
+	application: IApplication & { _id: mongoose.Types.ObjectId }
+) {
+	return ApplicationModel.find({
+		_id: { $ne: application._id },
+		admission_round: application.admission_round,
+		$or: [
+			{ normalized_email: normalizeEmail(application.email) },
+			{
+				normalized_phone_number: normalizePhoneNumber(application.phone_number),
+			},
+		],
+	}).sort({ submitted_date: 1 })
+}
+
+/**
+ * Set the normalized email and phone number on applications stored before
+ * they were added, or restored from an archive made before that, so they are
+ * found as duplicates too
+ */
+async function backfillNormalizedContactFields() {
+	const applications = await ApplicationModel.find({
+		$or: [
+			{ normalized_email: { $exists: false } },
+			{ normalized_phone_number: { $exists: false } },
+		],
+	}).select('email phone_number')
+	if (!applications.length) return 0
+	await ApplicationModel.bulkWrite(
+		applications.map((application) => ({
+			updateOne: {
+				filter: { _id: application._id },
+				update: {
+					normalized_email: normalizeEmail(application.email),
+					normalized_phone_number: normalizePhoneNumber(application.phone_number),
+				},
+			},
+		}))
+	)
+	return applications.length
+}
+
+function isDuplicateApplication(
+	application: IApplication,
+	other: IApplication
+) {
+	return (
+		String(application.admission_round) === String(other.admission_round) &&
+		(normalizeEmail(application.email) === normalizeEmail(other.email) ||
+			normalizePhoneNumber(application.phone_number) ===
+				normalizePhoneNumber(other.phone_number))
+	)
+}
+
+export {
+	normalizeEmail,
+	normalizePhoneNumber,
+	findDuplicateApplications,
+	backfillNormalizedContactFields,
+	isDuplicateApplication,
+}
@@ -17,6 +17,8 @@ enum StatusTypes {
 	OFFER_DECLINED = 'Offer declined',
 	ACCEPTED = 'Accepted',
 	REJECTED = 'Rejected',
+	// Set by the applicant, never by the committees
+	WITHDRAWN = 'Withdrawn',
 }
 
 enum SortTypes {
@@ -26,4 +28,62 @@ enum SortTypes {
 	DATE_DESC = 'date_desc',
 }
 
-export { StatusTypes, MembershipType, SortTypes }
+enum MailLanguages {
+	NORWEGIAN = 'nb',
+	ENGLISH = 'en',
+}
+
+enum ExportFormats {
+	CSV = 'csv',
+	XLSX = 'xlsx',
+}
+
+enum AuditActions {
+	WIPE_ADMISSION_DATA = 'wipe_admission_data',
+	RESTORE_ADMISSION_ARCHIVE = 'restore_admission_archive',
+	PURGE_ADMISSION_ARCHIVE = 'purge_admission_archive',
+	CREATE_ADMISSION_ROUND = 'create_admission_round',
+	UPDATE_ADMISSION_ROUND = 'update_admission_round',
+	DELETE_ADMISSION_ROUND = 'delete_admission_round',
+	TOGGLE_ACCEPTS_ADMISSIONS = 'toggle_accepts_admissions',
+	UPDATE_ADMISSION_WINDOW = 'update_admission_window',
+	CREATE_SCHEDULED_JOB = 'create_scheduled_job',
+	DELETE_SCHEDULED_JOB = 'delete_scheduled_job',
+	CREATE_COMMITTEE_QUESTION = 'create_committee_question',
+	UPDATE_COMMITTEE_QUESTION = 'update_committee_question',
+	DELETE_COMMITTEE_QUESTION = 'delete_committee_question',
+	MERGE_APPLICATIONS = 'merge_applications',
+	UPDATE_STATUS = 'update_status',
+	CREATE_INTERVIEW_LINK = 'create_interview_link',
+	CREATE_COMMENT = 'create_comment',
+	DELETE_COMMENT = 'delete_comment',
+	CREATE_INTERVIEW_SLOT = 'create_interview_slot',
+	DELETE_INTERVIEW_SLOT = 'delete_interview_slot',
+	BOOK_INTERVIEW_SLOT = 'book_interview_slot',
+	UPDATE_EMAIL_TEMPLATE = 'update_email_template',
+	DELETE_EMAIL_TEMPLATE = 'delete_email_template',
+}
+
+enum QuestionTypes {
+	SHORT_TEXT = 'short_text',
+	LONG_TEXT = 'long_text',
+	SINGLE_CHOICE = 'single_choice',
+	MULTIPLE_CHOICE = 'multiple_choice',
+	YES_NO = 'yes_no',
+}
+
+enum ScheduledJobTypes {
+	OPEN_ADMISSIONS = 'open_admissions',
+	CLOSE_ADMISSIONS = 'close_admissions',
+}
+
+export {
+	StatusTypes,
+	MembershipType,
+	SortTypes,
+	MailLanguages,
+	ExportFormats,
+	AuditActions,
+	ScheduledJobTypes,
+	QuestionTypes,
+}
@@ -0,0 +1,81 @@
+import mongoose from 'mongoose'
+import { CustomError } from 'ntnui-tools/customError'
+import { ApplicationModel } from '../models/Application'
+import { InterviewSlotModel } from '../models/InterviewSlot'
+import { StatusModel } from '../models/Status'
+import { StatusTypes } from './enums'
+
+/**
+ * # Booking an interview slot for an application
+ * 1. The application must be invited to interview by the committee of the slot
+ * 2. The applicant can not have another interview overlapping the slot,
+ *    for any of the committees applied to
+ * 3. The slot is only booked if it's still free, and any other slot the
+ *    application had with the committee is released
+ */
+async function bookInterviewSlot(
+	slotId: mongoose.Types.ObjectId | string,
+	applicationId: mongoose.Types.ObjectId | string
+) {
+	const slot = await InterviewSlotModel.findById(slotId)
+		.then((slotRes) => slotRes)
+		.catch(() => {
+			throw new CustomError('Could not find interview slot', 404)
+		})
+	if (!slot) throw new CustomError('Could not find interview slot', 404)
+	const application = await ApplicationModel.findById(applicationId)
+		.then((applicationRes) => applicationRes)
+		.catch(() => {
+			throw new CustomError('Could not find application', 404)
+		})
+	if (!application) throw new CustomError('Could not find application', 404)
+
+	const status = await StatusModel.findOne({
+		_id: { $in: application.statuses },
+		committee: slot.committee,
+	})
+	if (!status) {
+		throw new CustomError('The application is not sent to this committee', 400)
+	}
+	if (status.value !== StatusTypes.INVITED_TO_INTERVIEW) {
+		throw new CustomError(
+			'Only applicants invited to interview can be booked for an interview',
+			409
+		)
+	}
+
+	const overlappingSlot = await InterviewSlotModel.findOne({
+		_id: { $ne: slot._id },
+		committee: { $ne: slot.committee },
+		application: application._id,
+		start_time: { $lt: slot.end_time },
+		end_time: { $gt: slot.start_time },
+	})
+	if (overlappingSlot) {
+		throw new CustomError(
+			'The applicant already has another interview at this time',
+			409
+		)
+	}
+
+	const bookedSlot = await InterviewSlotModel.findOneAndUpdate(
+		{ _id: slot._id, application: null },
+		{ application: application._id },
+		{ new: true }
+	)
+	if (!bookedSlot) {
+		throw new CustomError('The interview slot is already booked', 409)
+	}
+	// Only one interview per committee
+	await InterviewSlotModel.updateMany(
+		{
+			_id: { $ne: bookedSlot._id },
+			committee: bookedSlot.committee,
+			application: application._id,
+		},
+		{ application: null }
+	)
+	return bookedSlot
+}
+
+export default bookInterviewSlot
@@ -0,0 +1,26 @@
+import mongoose from 'mongoose'
+import { InterviewInvitationModel } from '../models/InterviewInvitation'
+import { FRONTEND_URL } from './constants'
+import { generateToken, hashToken } from './token'
+
+/**
+ * Create a new interview booking link for the status, replacing any
+ * previous link for the same status
+ */
+async function createInterviewInvitation(
+	statusId: mongoose.Types.ObjectId,
+	committee: number,
+	applicationId: mongoose.Types.ObjectId
+) {
+	const token = generateToken()
+	await InterviewInvitationModel.deleteMany({ status: statusId })
+	await InterviewInvitationModel.create({
+		token_hash: hashToken(token),
+		application: applicationId,
+		status: statusId,
+		committee,
+	})
+	return `${FRONTEND_URL}/interview/${token}`
+}
+
+export default createInterviewInvitation
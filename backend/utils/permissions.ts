@@ -0,0 +1,45 @@
+import { CustomError } from 'ntnui-tools/customError'
+import { UserModel } from '../models/User'
+import {
+	can,
+	getReadableApplicationsFilter,
+	getUserPermissions,
+	IPermissionUser,
+	IPolicyResources,
+	PolicyAction,
+	takesApplications,
+} from './policy'
+
+// Like can, but throws 403 to be handled by the error handler
+function authorize<A extends PolicyAction>(
+	user: IPermissionUser,
+	action: A,
+	...resource: IPolicyResources[A] extends undefined ? [] : [IPolicyResources[A]]
+) {
+	if (!can(user, action, ...resource)) {
+		throw new CustomError('You do not have access to this resource', 403)
+	}
+}
+
+async function getPermissionUser(
+	ntnuiNo: number | string
+): Promise<IPermissionUser> {
+	const user = await UserModel.findById(ntnuiNo).catch(() => {
+		throw new CustomError('Something went wrong when trying to find user', 500)
+	})
+	return {
+		committeeIds: user
+			? user.committees.map((committee) => committee.committee)
+			: [],
+	}
+}
+
+export {
+	can,
+	authorize,
+	getReadableApplicationsFilter,
+	takesApplications,
+	getPermissionUser,
+	getUserPermissions,
+}
+export type { IPermissionUser, PolicyAction }
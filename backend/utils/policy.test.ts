@@ -0,0 +1,275 @@
+import { ELECTION_COMMITTEE_ID, MAIN_BOARD_ID } from './constants'
+import {
+	can,
+	getReadableApplicationsFilter,
+	getUserPermissions,
+	IPermissionUser,
+	takesApplications,
+} from './policy'
+
+const OWN = 1
+const OTHER = 2
+
+// The columns of every row below are in this order
+const users: [string, IPermissionUser][] = [
+	['the main board', { committeeIds: [MAIN_BOARD_ID] }],
+	['the election committee', { committeeIds: [ELECTION_COMMITTEE_ID] }],
+	['a regular committee', { committeeIds: [OWN] }],
+	['no committee', { committeeIds: [] }],
+]
+
+type Row = [boolean, boolean, boolean, boolean]
+
+// Flattens the rows to one case per user
+const byUser = <R>(rows: [R, Row][]) =>
+	rows.flatMap(([resource, expected]) =>
+		users.map(([name, user], i) => [name, user, resource, expected[i]] as const)
+	)
+
+const committees: [string, number][] = [
+	['the main board', MAIN_BOARD_ID],
+	['the election committee', ELECTION_COMMITTEE_ID],
+	['their own committee', OWN],
+	['another committee', OTHER],
+]
+
+const byCommittee = (rows: Row[]) =>
+	byUser(
+		committees.map(([name, committee], i): [[string, number], Row] => [
+			[name, committee],
+			rows[i],
+		])
+	)
+
+describe('can', () => {
+	describe.each([
+		['read_main_board', [false, true, false, false]],
+		['manage_admission_rounds', [true, false, false, false]],
+		['manage_archives', [true, false, false, false]],
+		['read_audit_log', [true, true, false, false]],
+		['merge_applications', [true, true, false, false]],
+	] as const)('%s', (action, expected) => {
+		it.each(users.map(([name, user], i) => [name, user, expected[i]] as const))(
+			'by %s is %s',
+			(_, user, allowed) => {
+				expect(can(user, action)).toBe(allowed)
+			}
+		)
+	})
+
+	describe.each([
+		[
+			'manage_committee',
+			[
+				[false, true, false, false],
+				[false, true, false, false],
+				[false, false, true, false],
+				[false, false, false, false],
+			],
+		],
+		[
+			'read_answers',
+			[
+				[false, true, false, false],
+				[false, true, false, false],
+				[false, true, true, false],
+				[false, true, false, false],
+			],
+		],
+		[
+			'read_comments',
+			[
+				[false, true, false, false],
+				[false, true, false, false],
+				[false, false, true, false],
+				[false, false, false, false],
+			],
+		],
+		[
+			'manage_admissions',
+			[
+				[true, false, false, false],
+				[true, true, false, false],
+				[true, false, true, false],
+				[true, false, false, false],
+			],
+		],
+	] as const)('%s', (action, rows) => {
+		it.each(byCommittee(rows.map((row) => [...row] as Row)))(
+			'by %s for %s is %s',
+			(_, user, [, committee], allowed) => {
+				expect(can(user, action, { committee })).toBe(allowed)
+			}
+		)
+	})
+
+	describe('read_application', () => {
+		it.each(
+			byUser<number[]>([
+				[[MAIN_BOARD_ID], [false, true, false, false]],
+				[[OWN], [true, true, true, false]],
+				[[OTHER], [true, true, false, false]],
+				[
+					[MAIN_BOARD_ID, OWN],
+					[true, true, true, false],
+				],
+				[
+					[MAIN_BOARD_ID, OTHER],
+					[true, true, false, false],
+				],
+			])
+		)('by %s applying to %p is %s', (_, user, applied, allowed) => {
+			expect(can(user, 'read_application', { committees: applied })).toBe(allowed)
+		})
+	})
+
+	describe('read_status', () => {
+		it.each(
+			byUser<[number, number[]]>([
+				[
+					[MAIN_BOARD_ID, [MAIN_BOARD_ID, OWN]],
+					[false, true, false, false],
+				],
+				[
+					[OWN, [MAIN_BOARD_ID, OWN]],
+					[true, true, true, false],
+				],
+				[
+					[OTHER, [OWN, OTHER]],
+					[true, true, true, false],
+				],
+				[
+					[OTHER, [OTHER]],
+					[true, true, false, false],
+				],
+			])
+		)(
+			'by %s of %p is %s',
+			(_, user, [committee, applicationCommittees], allowed) => {
+				expect(can(user, 'read_status', { committee, applicationCommittees })).toBe(
+					allowed
+				)
+			}
+		)
+	})
+})
+
+describe('the main board', () => {
+	// Also in a regular committee, to tell the two apart
+	const user = { committeeIds: [MAIN_BOARD_ID, OWN] }
+
+	it('can not handle the interviews and statuses of the main board', () => {
+		// The interview slots and links show who applied to the main board
+		expect(can(user, 'manage_committee', { committee: MAIN_BOARD_ID })).toBe(
+			false
+		)
+	})
+
+	it('can not read the statuses of the main board', () => {
+		expect(
+			can(user, 'read_status', {
+				committee: MAIN_BOARD_ID,
+				applicationCommittees: [MAIN_BOARD_ID, OWN],
+			})
+		).toBe(false)
+	})
+
+	it('can not read the answers to the questions of the main board', () => {
+		expect(can(user, 'read_answers', { committee: MAIN_BOARD_ID })).toBe(false)
+	})
+
+	it('still manages the other committees it is in', () => {
+		expect(can(user, 'manage_committee', { committee: OWN })).toBe(true)
+	})
+})
+
+describe('getReadableApplicationsFilter', () => {
+	it.each([
+		[users[0][0], users[0][1], { committees: { $ne: [MAIN_BOARD_ID] } }],
+		[users[1][0], users[1][1], {}],
+		[users[2][0], users[2][1], { committees: { $in: [OWN] } }],
+		[users[3][0], users[3][1], { committees: { $in: [] } }],
+	])('for %s is %p', (_, user, filter) => {
+		expect(getReadableApplicationsFilter(user)).toEqual(filter)
+	})
+
+	it('filters on the given path', () => {
+		expect(
+			getReadableApplicationsFilter(users[2][1], 'application.committees')
+		).toEqual({ 'application.committees': { $in: [OWN] } })
+	})
+})
+
+describe('takesApplications', () => {
+	it.each([
+		[MAIN_BOARD_ID, true],
+		[ELECTION_COMMITTEE_ID, false],
+		[OWN, true],
+	])('for %s is %s', (committee, takes) => {
+		expect(takesApplications(committee)).toBe(takes)
+	})
+})
+
+describe('getUserPermissions', () => {
+	const allCommitteeIds = [MAIN_BOARD_ID, ELECTION_COMMITTEE_ID, OWN, OTHER]
+
+	it.each([
+		[
+			users[0][0],
+			users[0][1],
+			{
+				read_main_board: false,
+				manage_admission_rounds: true,
+				manage_archives: true,
+				read_audit_log: true,
+				merge_applications: true,
+				managed_committees: [],
+				admission_committees: [MAIN_BOARD_ID, OWN, OTHER],
+			},
+		],
+		[
+			users[1][0],
+			users[1][1],
+			{
+				read_main_board: true,
+				manage_admission_rounds: false,
+				manage_archives: false,
+				read_audit_log: true,
+				merge_applications: true,
+				managed_committees: [MAIN_BOARD_ID],
+				admission_committees: [],
+			},
+		],
+		[
+			users[2][0],
+			users[2][1],
+			{
+				read_main_board: false,
+				manage_admission_rounds: false,
+				manage_archives: false,
+				read_audit_log: false,
+				merge_applications: false,
+				managed_committees: [OWN],
+				admission_committees: [OWN],
+			},
+		],
+		[
+			users[3][0],
+			users[3][1],
+			{
+				read_main_board: false,
+				manage_admission_rounds: false,
+				manage_archives: false,
+				read_audit_log: false,
+				merge_applications: false,
+				managed_committees: [],
+				admission_committees: [],
+			},
+		],
+	])('for %s', (_, user, permissions) => {
+		expect(getUserPermissions(user, allCommitteeIds)).toEqual({
+			...permissions,
+			application_committees: [MAIN_BOARD_ID, OWN, OTHER],
+		})
+	})
+})
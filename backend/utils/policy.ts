@@ -0,0 +1,147 @@
+import { ELECTION_COMMITTEE_ID, MAIN_BOARD_ID } from './constants'
+
+// The user as seen by the policy, identified by the committees they are in
+interface IPermissionUser {
+	committeeIds: number[]
+}
+
+// What each action is checked against
+interface IPolicyResources {
+	read_application: { committees: number[] }
+	read_status: { committee: number; applicationCommittees: number[] }
+	// The statuses, priorities and interviews with the main board
+	read_main_board: undefined
+	read_answers: { committee: number }
+	// Reading and writing the internal comments
+	read_comments: { committee: number }
+	// Statuses, interviews, comments, mail templates and questions
+	manage_committee: { committee: number }
+	// Opening and closing the admissions, by hand or scheduled
+	manage_admissions: { committee: number }
+	manage_admission_rounds: undefined
+	manage_archives: undefined
+	read_audit_log: undefined
+	merge_applications: undefined
+}
+
+type PolicyAction = keyof IPolicyResources
+
+type PolicyRule<A extends PolicyAction> = (
+	user: IPermissionUser,
+	resource: IPolicyResources[A]
+) => boolean
+
+const isMainBoard = (user: IPermissionUser) =>
+	user.committeeIds.includes(MAIN_BOARD_ID)
+const isElectionCommittee = (user: IPermissionUser) =>
+	user.committeeIds.includes(ELECTION_COMMITTEE_ID)
+const isInCommittee = (user: IPermissionUser, committee: number) =>
+	user.committeeIds.includes(committee)
+
+/**
+ * # The access rules
+ * - The election committee handles the applications to the main board, and
+ *   is the only one to see anything about the main board in applications
+ * - The main board oversees the applications to all other committees, and
+ *   opens and closes the admissions of every committee
+ * - Other committees only see and manage their own admissions
+ */
+const policy: { [A in PolicyAction]: PolicyRule<A> } = {
+	read_application: (user, { committees }) => {
+		if (isElectionCommittee(user)) return true
+		// Everything except the applications only to the main board
+		if (isMainBoard(user)) {
+			return committees.some((committee) => committee !== MAIN_BOARD_ID)
+		}
+		return committees.some((committee) => isInCommittee(user, committee))
+	},
+	read_status: (user, { committee, applicationCommittees }) =>
+		isElectionCommittee(user) ||
+		(committee !== MAIN_BOARD_ID &&
+			(isMainBoard(user) ||
+				applicationCommittees.some((other) => isInCommittee(user, other)))),
+	read_main_board: (user) => isElectionCommittee(user),
+	// The answers to the main board's questions show who applied to it
+	read_answers: (user, { committee }) =>
+		committee === MAIN_BOARD_ID
+			? isElectionCommittee(user)
+			: isElectionCommittee(user) || isInCommittee(user, committee),
+	// Unlike the answers, not the comments of the other committees
+	read_comments: (user, { committee }) =>
+		committee === MAIN_BOARD_ID
+			? isElectionCommittee(user)
+			: isInCommittee(user, committee),
+	// The main board's own admission is handled by the election committee
+	manage_committee: (user, { committee }) =>
+		committee === MAIN_BOARD_ID
+			? isElectionCommittee(user)
+			: isInCommittee(user, committee),
+	manage_admissions: (user, { committee }) =>
+		isMainBoard(user) || isInCommittee(user, committee),
+	manage_admission_rounds: (user) => isMainBoard(user),
+	manage_archives: (user) => isMainBoard(user),
+	read_audit_log: (user) => isMainBoard(user) || isElectionCommittee(user),
+	merge_applications: (user) => isMainBoard(user) || isElectionCommittee(user),
+}
+
+/**
+ * Whether the user can do the action, on the resource if the action
+ * concerns one
+ */
+function can<A extends PolicyAction>(
+	user: IPermissionUser,
+	action: A,
+	...[resource]: IPolicyResources[A] extends undefined
+		? []
+		: [IPolicyResources[A]]
+): boolean {
+	return policy[action](user, resource as IPolicyResources[A])
+}
+
+/**
+ * The applications the user can read, as a filter to match in the database.
+ * Follows the read_application rule, on the committees found at the path.
+ */
+function getReadableApplicationsFilter(
+	user: IPermissionUser,
+	path = 'committees'
+) {
+	if (isElectionCommittee(user)) return {}
+	if (isMainBoard(user)) return { [path]: { $ne: [MAIN_BOARD_ID] } }
+	return { [path]: { $in: user.committeeIds } }
+}
+
+// The election committee takes no applications, it only handles the main board's
+function takesApplications(committee: number) {
+	return committee !== ELECTION_COMMITTEE_ID
+}
+
+/**
+ * What the user can do, for the frontend to show only what is allowed. The
+ * committee lists only hold committees that take applications.
+ */
+function getUserPermissions(user: IPermissionUser, allCommitteeIds: number[]) {
+	const committeeIds = allCommitteeIds.filter(takesApplications)
+	return {
+		read_main_board: can(user, 'read_main_board'),
+		manage_admission_rounds: can(user, 'manage_admission_rounds'),
+		manage_archives: can(user, 'manage_archives'),
+		read_audit_log: can(user, 'read_audit_log'),
+		merge_applications: can(user, 'merge_applications'),
+		managed_committees: committeeIds.filter((committee) =>
+			can(user, 'manage_committee', { committee })
+		),
+		admission_committees: committeeIds.filter((committee) =>
+			can(user, 'manage_admissions', { committee })
+		),
+		application_committees: committeeIds,
+	}
+}
+
+export {
+	can,
+	getReadableApplicationsFilter,
+	takesApplications,
+	getUserPermissions,
+}
+export type { IPermissionUser, IPolicyResources, PolicyAction }
@@ -2,4 +2,6 @@ import { Request } from 'express'
 
 export interface RequestWithNtnuiNo extends Request {
 	ntnuiNo?: string
+	// The session the request is sent in
+	sessionId?: string
 }
@@ -0,0 +1,89 @@
+/* eslint-disable no-console */
+import { CommitteeModel } from '../models/Committee'
+import { IScheduledJob, ScheduledJobModel } from '../models/ScheduledJob'
+import logAuditEvent from './auditLog'
+import { SCHEDULER_INTERVAL_SECONDS } from './constants'
+import { AuditActions, ScheduledJobTypes } from './enums'
+
+async function runJob(job: IScheduledJob) {
+	switch (job.type) {
+		case ScheduledJobTypes.OPEN_ADMISSIONS:
+		case ScheduledJobTypes.CLOSE_ADMISSIONS: {
+			const acceptsAdmissions = job.type === ScheduledJobTypes.OPEN_ADMISSIONS
+			const committee = await CommitteeModel.findById(job.committee)
+			if (!committee) throw new Error('Committee not found')
+			const before = { accepts_admissions: committee.accepts_admissions }
+			committee.accepts_admissions = acceptsAdmissions
+			await committee.save()
+			// Logged on behalf of the user who scheduled the job
+			await logAuditEvent(job.created_by, {
+				action: AuditActions.TOGGLE_ACCEPTS_ADMISSIONS,
+				target_type: 'committee',
+				target_id: committee._id,
+				before,
+				after: {
+					accepts_admissions: acceptsAdmissions,
+					scheduled_job: job._id,
+				},
+			})
+			break
+		}
+		default:
+			throw new Error(`Unknown job type ${job.type}`)
+	}
+}
+
+/**
+ * Claim the next due job by marking it as executed before it is run. If
+ * several instances of the app are running, only one of them gets the job.
+ */
+function claimNextJob() {
+	return ScheduledJobModel.findOneAndUpdate(
+		{ executed_date: null, run_at: { $lte: new Date() } },
+		{ executed_date: new Date() },
+		{ sort: { run_at: 1 }, new: true }
+	)
+}
+
+// Run the due jobs one by one, until there are none left
+async function runDueJobs(): Promise<void> {
+	const job = await claimNextJob()
+	if (!job) return
+	try {
+		await runJob(job)
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error)
+		console.error(`⏰ Scheduled job ${job._id} failed`, message)
+		await ScheduledJobModel.updateOne({ _id: job._id }, { error: message })
+	}
+	await runDueJobs()
+}
+
+let isRunning = false
+
+async function tick() {
+	// Skip the tick if the previous one is still working through the jobs
+	if (isRunning) return
+	isRunning = true
+	try {
+		await runDueJobs()
+	} catch (error) {
+		console.error('⏰ Could not run the scheduled jobs', error)
+	} finally {
+		isRunning = false
+	}
+}
+
+/**
+ * Poll for due jobs. The jobs are stored in the database, so jobs that were
+ * due while the app was down are run on the first tick after a restart.
+ */
+function startScheduler() {
+	tick()
+	setInterval(tick, SCHEDULER_INTERVAL_SECONDS * 1000)
+	console.log(
+		`⏰ Scheduler checking for jobs every ${SCHEDULER_INTERVAL_SECONDS}s`
+	)
+}
+
+export default startScheduler
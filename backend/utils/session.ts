@@ -0,0 +1,89 @@
+import dayjs from 'dayjs'
+import { CookieOptions } from 'express'
+import mongoose from 'mongoose'
+import { refreshNtnuiToken } from 'ntnui-tools'
+import { UnauthorizedUserError } from 'ntnui-tools/customError'
+import { ISession, SessionModel } from '../models/Session'
+import { generateToken, hashToken } from './token'
+import { isValidToken } from './tokenValidation'
+
+type SessionDocument = mongoose.HydratedDocument<ISession>
+
+const SESSION_COOKIE = 'session'
+// As long as the NTNUI refresh token lasts
+const SESSION_VALID_DAYS = 1
+// Avoid writing to the session on every request
+const LAST_USED_INTERVAL_MS = 60000
+
+const sessionCookieOptions: CookieOptions = {
+	maxAge: SESSION_VALID_DAYS * 86400000,
+	httpOnly: true,
+	secure: process.env.NODE_ENV === 'production',
+	sameSite: true,
+}
+
+/**
+ * Start a session for the NTNUI tokens, returning the token to set in the
+ * session cookie. Only the hash of the token is stored.
+ */
+async function createSession(
+	ntnuiNo: number,
+	tokens: { access: string; refresh: string },
+	userAgent = ''
+) {
+	const token = generateToken()
+	await SessionModel.create({
+		token_hash: hashToken(token),
+		user: ntnuiNo,
+		access_token: tokens.access,
+		refresh_token: tokens.refresh,
+		user_agent: userAgent,
+		expires_date: dayjs().add(SESSION_VALID_DAYS, 'day').toDate(),
+	})
+	return token
+}
+
+async function findSession(token: unknown) {
+	if (typeof token !== 'string' || !token) return null
+	return SessionModel.findOne({
+		token_hash: hashToken(token),
+		expires_date: { $gt: new Date() },
+	})
+}
+
+/**
+ * Get a valid NTNUI access token for the session, refreshing it against
+ * NTNUI if it has expired. A session that can't be refreshed is ended, and
+ * the user must log in again.
+ */
+async function getSessionAccessToken(session: SessionDocument) {
+	const update: Partial<ISession> = {}
+	let accessToken = session.access_token
+	if (!(await isValidToken(accessToken))) {
+		// NTNUI rejects refresh tokens that have expired or been revoked
+		const newToken = await refreshNtnuiToken(session.refresh_token).catch(
+			() => null
+		)
+		if (!newToken) {
+			await SessionModel.deleteOne({ _id: session._id })
+			throw UnauthorizedUserError
+		}
+		accessToken = newToken.access as string
+		update.access_token = accessToken
+	}
+	if (Date.now() - session.last_used_date.getTime() > LAST_USED_INTERVAL_MS) {
+		update.last_used_date = new Date()
+	}
+	if (Object.keys(update).length) {
+		await SessionModel.updateOne({ _id: session._id }, update)
+	}
+	return accessToken
+}
+
+export {
+	SESSION_COOKIE,
+	sessionCookieOptions,
+	createSession,
+	findSession,
+	getSessionAccessToken,
+}
@@ -0,0 +1,42 @@
+import { StatusTypes } from './enums'
+
+/**
+ * The statuses a status is allowed to be changed to from each status.
+ * Statuses without any legal next statuses are final.
+ */
+const STATUS_TRANSITIONS: Record<StatusTypes, StatusTypes[]> = {
+	[StatusTypes.PENDING]: [
+		StatusTypes.INVITED_TO_INTERVIEW,
+		StatusTypes.REJECTED,
+	],
+	[StatusTypes.INVITED_TO_INTERVIEW]: [
+		StatusTypes.INTERVIEW_COMPLETED,
+		StatusTypes.INTERVIEW_DECLINED,
+	],
+	[StatusTypes.INTERVIEW_DECLINED]: [
+		StatusTypes.INVITED_TO_INTERVIEW,
+		StatusTypes.REJECTED,
+	],
+	[StatusTypes.INTERVIEW_COMPLETED]: [
+		StatusTypes.OFFER_GIVEN,
+		StatusTypes.REJECTED,
+	],
+	[StatusTypes.OFFER_GIVEN]: [StatusTypes.ACCEPTED, StatusTypes.OFFER_DECLINED],
+	[StatusTypes.OFFER_DECLINED]: [],
+	[StatusTypes.ACCEPTED]: [],
+	[StatusTypes.REJECTED]: [],
+	[StatusTypes.WITHDRAWN]: [],
+}
+
+function isLegalStatusTransition(from: string, to: string) {
+	const legalNextStatuses: string[] = STATUS_TRANSITIONS[from as StatusTypes]
+	return !!legalNextStatuses && legalNextStatuses.includes(to)
+}
+
+// The applicant can withdraw until the committee has made its final decision
+function isWithdrawable(status: string) {
+	const legalNextStatuses: string[] = STATUS_TRANSITIONS[status as StatusTypes]
+	return !!legalNextStatuses && legalNextStatuses.length > 0
+}
+
+export { STATUS_TRANSITIONS, isLegalStatusTransition, isWithdrawable }
@@ -0,0 +1,16 @@
+import crypto from 'crypto'
+
+/**
+ * Generate an unguessable token to be sent to the user. Only the hash of
+ * the token should be stored, so a leaked database can't be used to act
+ * on behalf of the users.
+ */
+function generateToken() {
+	return crypto.randomBytes(32).toString('hex')
+}
+
+function hashToken(token: string) {
+	return crypto.createHash('sha256').update(token).digest('hex')
+}
+
+export { generateToken, hashToken }
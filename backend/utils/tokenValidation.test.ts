@@ -0,0 +1,54 @@
+import jsonwebtoken from 'jsonwebtoken'
+
+const KEY = 'test-key'
+
+// Tokens are verified locally, so NTNUI is never asked
+jest.mock('ntnui-tools', () => ({ isValidNtnuiToken: jest.fn() }), {
+	virtual: true,
+})
+
+let isValidToken: (token: string | undefined) => Promise<boolean>
+
+beforeAll(async () => {
+	process.env.NTNUI_JWT_KEY = KEY
+	;({ isValidToken } = await import('./tokenValidation'))
+})
+
+describe('isValidToken with NTNUI_JWT_KEY', () => {
+	it('accepts an access token', async () => {
+		const token = jsonwebtoken.sign({ ntnui_no: 1, token_type: 'access' }, KEY)
+		expect(await isValidToken(token)).toBe(true)
+	})
+
+	it('rejects a refresh token', async () => {
+		const token = jsonwebtoken.sign({ ntnui_no: 1, token_type: 'refresh' }, KEY)
+		expect(await isValidToken(token)).toBe(false)
+	})
+
+	it('rejects a token without a type', async () => {
+		const token = jsonwebtoken.sign({ ntnui_no: 1 }, KEY)
+		expect(await isValidToken(token)).toBe(false)
+	})
+
+	it('rejects a token signed with another algorithm', async () => {
+		const token = jsonwebtoken.sign({ ntnui_no: 1, token_type: 'access' }, KEY, {
+			algorithm: 'HS512',
+		})
+		expect(await isValidToken(token)).toBe(false)
+	})
+
+	it('rejects a token signed with another key', async () => {
+		const token = jsonwebtoken.sign(
+			{ ntnui_no: 1, token_type: 'access' },
+			'another-key'
+		)
+		expect(await isValidToken(token)).toBe(false)
+	})
+
+	it('rejects an expired token', async () => {
+		const token = jsonwebtoken.sign({ ntnui_no: 1, token_type: 'access' }, KEY, {
+			expiresIn: -10,
+		})
+		expect(await isValidToken(token)).toBe(false)
+	})
+})
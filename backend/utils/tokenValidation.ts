@@ -0,0 +1,111 @@
+/* eslint-disable no-console */
+import jsonwebtoken from 'jsonwebtoken'
+import { isValidNtnuiToken } from 'ntnui-tools'
+import { NTNUI_TOKEN_CACHE_SECONDS } from './constants'
+import { hashToken } from './token'
+
+// The key NTNUI signs tokens with, a shared secret or a public key
+const NTNUI_JWT_KEY = process.env.NTNUI_JWT_KEY || ''
+// Tokens signed with any other algorithm are rejected
+const NTNUI_JWT_ALGORITHM = (process.env.NTNUI_JWT_ALGORITHM ||
+	'HS256') as jsonwebtoken.Algorithm
+const MAX_CACHED_TOKENS = 1000
+
+// Hashed token and when it must be checked against NTNUI again
+const validTokens = new Map<string, number>()
+
+const tokenValidationStats = {
+	local_verifications: 0,
+	cache_hits: 0,
+	cache_misses: 0,
+	rejected: 0,
+}
+
+function cacheValidToken(tokenHash: string, expiresAt: number) {
+	if (validTokens.size >= MAX_CACHED_TOKENS) {
+		const now = Date.now()
+		validTokens.forEach((cachedUntil, key) => {
+			if (cachedUntil <= now) validTokens.delete(key)
+		})
+		// Forget the oldest tokens if all are still fresh
+		if (validTokens.size >= MAX_CACHED_TOKENS) {
+			const oldest = validTokens.keys().next().value
+			validTokens.delete(oldest)
+		}
+	}
+	validTokens.set(tokenHash, expiresAt)
+}
+
+/**
+ * # Validating an access token
+ * 1. Tokens that are not JWTs or have expired are rejected without asking NTNUI
+ * 2. If NTNUI_JWT_KEY is set, the signature is verified locally, and only
+ *    access tokens signed with NTNUI_JWT_ALGORITHM are accepted
+ * 3. Otherwise tokens NTNUI has accepted in the last NTNUI_TOKEN_CACHE_SECONDS
+ *    are trusted, and other tokens are checked against NTNUI
+ *
+ * A token NTNUI revokes can therefore still be used until the cache expires.
+ */
+async function isValidToken(token: string | undefined) {
+	const decoded = token ? jsonwebtoken.decode(token) : null
+	const now = Date.now()
+	if (
+		!token ||
+		!decoded ||
+		typeof decoded === 'string' ||
+		(decoded.exp && decoded.exp * 1000 <= now)
+	) {
+		tokenValidationStats.rejected += 1
+		return false
+	}
+	if (NTNUI_JWT_KEY) {
+		try {
+			const payload = jsonwebtoken.verify(token, NTNUI_JWT_KEY, {
+				algorithms: [NTNUI_JWT_ALGORITHM],
+			})
+			// A refresh token is signed with the same key
+			if (typeof payload === 'string' || payload.token_type !== 'access') {
+				throw new Error('Not an access token')
+			}
+			tokenValidationStats.local_verifications += 1
+			return true
+		} catch (error) {
+			tokenValidationStats.rejected += 1
+			return false
+		}
+	}
+	const tokenHash = hashToken(token)
+	const cachedUntil = validTokens.get(tokenHash)
+	if (cachedUntil && cachedUntil > now) {
+		tokenValidationStats.cache_hits += 1
+		return true
+	}
+	validTokens.delete(tokenHash)
+	tokenValidationStats.cache_misses += 1
+	const isValid = await isValidNtnuiToken(token)
+	if (isValid) {
+		// Never trust the token past its own expiry
+		cacheValidToken(
+			tokenHash,
+			Math.min(
+				now + NTNUI_TOKEN_CACHE_SECONDS * 1000,
+				decoded.exp ? decoded.exp * 1000 : Infinity
+			)
+		)
+	} else {
+		tokenValidationStats.rejected += 1
+	}
+	return !!isValid
+}
+
+function getTokenValidationStats() {
+	return { ...tokenValidationStats, cached_tokens: validTokens.size }
+}
+
+console.log(
+	`🔑 NTNUI tokens are verified ${
+		NTNUI_JWT_KEY ? 'locally with NTNUI_JWT_KEY' : 'against NTNUI'
+	}`
+)
+
+export { isValidToken, getTokenValidationStats }
@@ -6,10 +6,17 @@ import './App.css'
 import Navbar from './components/Navbar'
 import AdmissionStatus from './pages/AdmissionStatus'
 import ApplicationOverview from './pages/ApplicationOverview'
-import AdmissionPeriod from './pages/AdmissionPeriod'
+import AdmissionRounds from './pages/AdmissionRounds'
 import ApplicationDetailPage from './pages/ApplicationDetails'
 import Dashboard from './pages/Dashboard'
 import FormPage from './pages/FormPage'
+import InterviewSlots from './pages/InterviewSlots'
+import InterviewBooking from './pages/InterviewBooking'
+import ApplicantPortal from './pages/ApplicantPortal'
+import EmailTemplates from './pages/EmailTemplates'
+import CommitteeQuestions from './pages/CommitteeQuestions'
+import AuditLog from './pages/AuditLog'
+import Archives from './pages/Archives'
 import Login from './pages/Login'
 import colors from './utils/theme'
 import RequireAuth from './utils/authRouter'
@@ -31,6 +38,9 @@ function App() {
 							<Routes>
 								<Route path='/' element={<FormPage />} />
 								<Route path='/login' element={<Login />} />
+								<Route path='/interview/:token' element={<InterviewBooking />} />
+								<Route path='/my-application' element={<ApplicantPortal />} />
+								<Route path='/my-application/:token' element={<ApplicantPortal />} />
 								<Route
 									path='/dashboard'
 									element={
@@ -76,12 +86,67 @@ function App() {
 									}
 								/>
 								<Route
-									path='/admission-period'
+									path='/admission-rounds'
 									element={
 										<RequireAuth>
 											<>
 												<Navbar />
-												<AdmissionPeriod />
+												<AdmissionRounds />
+											</>
+										</RequireAuth>
+									}
+								/>
+								<Route
+									path='/interview-slots'
+									element={
+										<RequireAuth>
+											<>
+												<Navbar />
+												<InterviewSlots />
+											</>
+										</RequireAuth>
+									}
+								/>
+								<Route
+									path='/email-templates'
+									element={
+										<RequireAuth>
+											<>
+												<Navbar />
+												<EmailTemplates />
+											</>
+										</RequireAuth>
+									}
+								/>
+								<Route
+									path='/committee-questions'
+									element={
+										<RequireAuth>
+											<>
+												<Navbar />
+												<CommitteeQuestions />
+											</>
+										</RequireAuth>
+									}
+								/>
+								<Route
+									path='/audit'
+									element={
+										<RequireAuth>
+											<>
+												<Navbar />
+												<AuditLog />
+											</>
+										</RequireAuth>
+									}
+								/>
+								<Route
+									path='/archives'
+									element={
+										<RequireAuth>
+											<>
+												<Navbar />
+												<Archives />
 											</>
 										</RequireAuth>
 									}
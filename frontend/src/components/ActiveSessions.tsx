@@ -0,0 +1,160 @@
+import { Badge, Box, Button, createStyles } from '@mantine/core'
+import { useNotifications } from '@mantine/notifications'
+import dayjs from 'dayjs'
+import { useEffect, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { DeviceDesktop, Logout, X } from 'tabler-icons-react'
+import { logoutEverywhere } from '../services/Auth'
+import {
+	deleteUserSession,
+	getUserSessions,
+	IUserSession,
+} from '../services/User'
+
+const useStyles = createStyles((theme) => ({
+	sessionsWrapper: {
+		display: 'flex',
+		flexDirection: 'column',
+		gap: '0.5rem',
+		width: '50%',
+		marginTop: '3rem',
+		color: 'white',
+		h2: {
+			fontWeight: 'lighter',
+			fontSize: 'large',
+			margin: 0,
+		},
+		'@media (max-width: 900px)': {
+			width: '90%',
+		},
+	},
+	session: {
+		display: 'flex',
+		alignItems: 'center',
+		flexWrap: 'wrap',
+		gap: '0.5rem',
+		padding: '0.5rem 1rem',
+		border: '1px solid ' + theme.colors.gray[7],
+		borderRadius: theme.radius.sm,
+	},
+	sessionText: {
+		flexGrow: 1,
+		display: 'flex',
+		flexDirection: 'column',
+		small: {
+			color: theme.colors.gray[5],
+		},
+	},
+	logoutButton: {
+		backgroundColor: theme.colors.ntnui_red[9],
+	},
+	logoutEverywhereButton: {
+		alignSelf: 'flex-end',
+		backgroundColor: 'transparent',
+		border: '2px solid' + theme.colors.ntnui_red[9],
+		color: theme.colors.ntnui_red[9],
+		':hover': {
+			color: 'white',
+			backgroundColor: theme.colors.ntnui_red[9],
+		},
+	},
+}))
+
+// A readable name for the browser the session was started in
+function describeUserAgent(userAgent: string) {
+	const browser =
+		['Edg', 'Firefox', 'Chrome', 'Safari'].find((name) =>
+			userAgent.includes(name + '/')
+		) || 'Ukjent nettleser'
+	const system =
+		['Android', 'iPhone', 'iPad', 'Windows', 'Mac OS', 'Linux'].find((name) =>
+			userAgent.includes(name)
+		) || 'ukjent enhet'
+	return `${browser === 'Edg' ? 'Edge' : browser} på ${system}`
+}
+
+// Lets the user see where they are logged in, and log out other devices
+function ActiveSessions() {
+	const { classes } = useStyles()
+	const navigate = useNavigate()
+	const notifications = useNotifications()
+	const [sessions, setSessions] = useState<IUserSession[]>([])
+
+	useEffect(() => {
+		const getSessionsAsync = async () => {
+			try {
+				setSessions(await getUserSessions())
+			} catch (error) {
+				setSessions([])
+			}
+		}
+		getSessionsAsync()
+	}, [])
+
+	const showError = () =>
+		notifications.showNotification({
+			title: 'Kunne ikke logge ut!',
+			message:
+				'En feil oppstod. Ta kontakt med sprint@ntnui.no dersom problemet vedvarer',
+			color: 'red',
+			autoClose: false,
+			icon: <X size={18} />,
+		})
+
+	async function revoke(session: IUserSession) {
+		try {
+			await deleteUserSession(session._id)
+			setSessions(sessions.filter((other) => other._id !== session._id))
+		} catch (error) {
+			showError()
+		}
+	}
+
+	async function revokeAll() {
+		try {
+			await logoutEverywhere()
+			navigate('/login')
+		} catch (error) {
+			showError()
+		}
+	}
+
+	if (!sessions.length) return null
+	return (
+		<Box className={classes.sessionsWrapper}>
+			<h2>Innlogget på</h2>
+			{sessions.map((session) => (
+				<div key={session._id} className={classes.session}>
+					<DeviceDesktop size={24} strokeWidth={1.5} />
+					<div className={classes.sessionText}>
+						<span>{describeUserAgent(session.user_agent)}</span>
+						<small>
+							Sist brukt {dayjs(session.last_used_date).format('DD.MM.YYYY HH:mm')}
+						</small>
+					</div>
+					{session.current ? (
+						<Badge color='green'>Denne enheten</Badge>
+					) : (
+						<Button
+							size='xs'
+							className={classes.logoutButton}
+							leftIcon={<Logout size={14} />}
+							onClick={() => revoke(session)}
+						>
+							Logg ut
+						</Button>
+					)}
+				</div>
+			))}
+			<Button
+				className={classes.logoutEverywhereButton}
+				leftIcon={<Logout size={18} />}
+				onClick={revokeAll}
+			>
+				Logg ut overalt
+			</Button>
+		</Box>
+	)
+}
+
+export default ActiveSessions
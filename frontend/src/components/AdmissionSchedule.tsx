@@ -0,0 +1,211 @@
+import { ActionIcon, Button, createStyles, Select } from '@mantine/core'
+import { DatePicker, TimeInput } from '@mantine/dates'
+import { useNotifications } from '@mantine/notifications'
+import dayjs from 'dayjs'
+import 'dayjs/locale/nb'
+import { useEffect, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import {
+	AlertTriangle,
+	Calendar,
+	Clock,
+	Lock,
+	LockOpen,
+	Plus,
+	X,
+} from 'tabler-icons-react'
+import {
+	deleteScheduledJob,
+	getScheduledJobs,
+	postScheduledJob,
+} from '../services/Committees'
+import { IScheduledJob } from '../types/types'
+
+const useStyles = createStyles((theme) => ({
+	schedule: {
+		display: 'flex',
+		flexDirection: 'column',
+		gap: '0.3rem',
+		whiteSpace: 'normal',
+	},
+	label: {
+		color: theme.colors.gray[5],
+		fontSize: 'small',
+	},
+	job: {
+		display: 'flex',
+		alignItems: 'center',
+		gap: '0.5rem',
+		fontSize: 'small',
+	},
+	failedJob: {
+		color: theme.colors.ntnui_red[9],
+	},
+	jobText: {
+		flexGrow: 1,
+	},
+	newJob: {
+		display: 'flex',
+		flexWrap: 'wrap',
+		gap: '0.3rem',
+	},
+	input: {
+		backgroundColor: 'transparent',
+		color: 'white',
+		border: '1px solid ' + theme.colors.gray[7],
+	},
+	icon: {
+		color: theme.colors.ntnui_yellow[9],
+	},
+	addButton: {
+		backgroundColor: theme.colors.ntnui_blue[9],
+	},
+}))
+
+interface IAdmissionScheduleProps {
+	slug: string
+}
+
+const JOB_TYPES: { value: IScheduledJob['type']; label: string }[] = [
+	{ value: 'open_admissions', label: 'Åpne' },
+	{ value: 'close_admissions', label: 'Stenge' },
+]
+
+function AdmissionSchedule({ slug }: IAdmissionScheduleProps) {
+	const { classes, cx } = useStyles()
+	const navigate = useNavigate()
+	const notifications = useNotifications()
+	const [scheduledJobs, setScheduledJobs] = useState<IScheduledJob[]>([])
+	const [type, setType] = useState<IScheduledJob['type']>('open_admissions')
+	const [date, setDate] = useState<Date | null>(null)
+	const [time, setTime] = useState<Date | null>(null)
+	const [isSaving, setIsSaving] = useState<boolean>(false)
+
+	useEffect(() => {
+		const getScheduledJobsAsync = async () => {
+			try {
+				setScheduledJobs(await getScheduledJobs(slug))
+			} catch (error: any) {
+				if (error.response?.status === 401) navigate('/login')
+				setScheduledJobs([])
+			}
+		}
+		getScheduledJobsAsync()
+	}, [slug, navigate])
+
+	const showError = (title: string) =>
+		notifications.showNotification({
+			title,
+			message:
+				'Last inn siden på nytt og prøv igjen. Ta kontakt med sprint@ntnui.no dersom problemet vedvarer',
+			color: 'red',
+			autoClose: false,
+			icon: <AlertTriangle size={18} />,
+		})
+
+	async function addJob() {
+		if (!date || !time) return
+		const runAt = dayjs(date)
+			.hour(time.getHours())
+			.minute(time.getMinutes())
+			.startOf('minute')
+		if (runAt.isBefore(dayjs())) {
+			showError('Tidspunktet har allerede vært!')
+			return
+		}
+		setIsSaving(true)
+		try {
+			const scheduledJob = await postScheduledJob(slug, type, runAt.toDate())
+			setScheduledJobs(
+				[...scheduledJobs, scheduledJob].sort((a, b) =>
+					a.run_at.localeCompare(b.run_at)
+				)
+			)
+			setDate(null)
+			setTime(null)
+		} catch (error: any) {
+			if (error.response?.status === 401) navigate('/login')
+			else showError('Kunne ikke planlegge endringen!')
+		}
+		setIsSaving(false)
+	}
+
+	async function removeJob(jobId: string) {
+		try {
+			await deleteScheduledJob(slug, jobId)
+			setScheduledJobs(scheduledJobs.filter((job) => job._id !== jobId))
+		} catch (error: any) {
+			if (error.response?.status === 401) navigate('/login')
+			else showError('Kunne ikke avbryte den planlagte endringen!')
+		}
+	}
+
+	return (
+		<div className={classes.schedule}>
+			<span className={classes.label}>Planlagt åpning og stenging</span>
+			{scheduledJobs.map((job) => (
+				<div
+					key={job._id}
+					className={cx(classes.job, { [classes.failedJob]: !!job.error })}
+				>
+					{job.type === 'open_admissions' ? (
+						<LockOpen size={16} />
+					) : (
+						<Lock size={16} />
+					)}
+					<span className={classes.jobText}>
+						{job.type === 'open_admissions' ? 'Åpner' : 'Stenger'}{' '}
+						{dayjs(job.run_at).locale('nb').format('D. MMMM YYYY [kl.] HH:mm')}
+						{job.error && ` – feilet: ${job.error}`}
+					</span>
+					<ActionIcon
+						size='sm'
+						title='Avbryt'
+						color='gray'
+						onClick={() => removeJob(job._id)}
+					>
+						<X size={14} />
+					</ActionIcon>
+				</div>
+			))}
+			<div className={classes.newJob}>
+				<Select
+					classNames={{ input: classes.input }}
+					data={JOB_TYPES}
+					size='xs'
+					value={type}
+					onChange={(value) => setType(value as IScheduledJob['type'])}
+				/>
+				<DatePicker
+					classNames={{ input: classes.input, icon: classes.icon }}
+					placeholder='Dato'
+					icon={<Calendar size={14} />}
+					locale='nb'
+					size='xs'
+					minDate={new Date()}
+					value={date}
+					onChange={setDate}
+				/>
+				<TimeInput
+					classNames={{ input: classes.input, icon: classes.icon }}
+					icon={<Clock size={14} />}
+					size='xs'
+					value={time}
+					onChange={setTime}
+				/>
+				<Button
+					className={classes.addButton}
+					size='xs'
+					leftIcon={<Plus size={14} />}
+					disabled={!date || !time}
+					loading={isSaving}
+					onClick={addJob}
+				>
+					Planlegg
+				</Button>
+			</div>
+		</div>
+	)
+}
+
+export default AdmissionSchedule
@@ -6,13 +6,35 @@ import {
 	MultiSelect,
 	Loader,
 	Collapse,
+	InputWrapper,
+	ActionIcon,
 } from '@mantine/core'
 import { useForm } from '@mantine/form'
 import axios from 'axios'
 import { useEffect, useState } from 'react'
 import { useNotifications } from '@mantine/notifications'
-import { Check, ChevronDown, X } from 'tabler-icons-react'
-import { ICommittee } from '../types/types'
+import {
+	Check,
+	ChevronDown,
+	FileUpload,
+	Paperclip,
+	X,
+} from 'tabler-icons-react'
+import dayjs from 'dayjs'
+import {
+	AnswerValue,
+	IAdmissionRound,
+	ICommittee,
+	ICommitteeQuestion,
+} from '../types/types'
+import {
+	getCommitteeAdmissionWindow,
+	getRemainingTimeText,
+} from '../utils/admissionWindow'
+import { isAnswered, MAX_ANSWER_LENGTH } from '../utils/questions'
+import { getCommitteeQuestions } from '../services/CommitteeQuestions'
+import QuestionInput from './QuestionInput'
+import CommitteePriority from './CommitteePriority'
 
 interface ISubmissionApplication {
 	email: string
@@ -20,6 +42,10 @@ interface ISubmissionApplication {
 	phone_number: string
 	text: string
 	committees: string[]
+	// The chosen committees ranked by the applicant
+	priorities: string[]
+	// Answers to the committee questions by question id
+	answers: Record<string, AnswerValue>
 }
 interface ICommitteeInSelect {
 	value: string
@@ -76,16 +102,69 @@ const useStyles = createStyles((theme) => ({
 			margin: 0,
 		},
 	},
+	committeeQuestions: {
+		display: 'flex',
+		flexDirection: 'column',
+		gap: '0.5rem',
+		padding: '0.5rem 1rem 1rem 1rem',
+		borderLeft: '2px solid ' + theme.colors.ntnui_yellow[9],
+		h3: {
+			fontWeight: 'normal',
+			margin: 0,
+			color: 'white',
+		},
+	},
+	attachments: {
+		display: 'flex',
+		flexDirection: 'column',
+		gap: '0.3rem',
+		marginTop: '0.3rem',
+	},
+	attachment: {
+		display: 'flex',
+		alignItems: 'center',
+		gap: '0.5rem',
+		color: 'white',
+		span: {
+			flexGrow: 1,
+			overflow: 'hidden',
+			textOverflow: 'ellipsis',
+		},
+	},
+	attachmentButton: {
+		alignSelf: 'flex-start',
+		color: 'white',
+	},
 	textareaCustomError: {
 		margin: 0,
 		color: '#f03e3e',
 	},
 }))
 
-export function Form() {
+// Newly chosen committees are ranked last
+const rankCommittees = (priorities: string[], committees: string[]) => [
+	...priorities.filter((committee) => committees.includes(committee)),
+	...committees.filter((committee) => !priorities.includes(committee)),
+]
+
+const MAX_ATTACHMENTS = 3
+const MAX_ATTACHMENT_SIZE_MB = 5
+
+interface IFormProps {
+	admissionRound: IAdmissionRound
+}
+
+export function Form({ admissionRound }: IFormProps) {
 	const { classes } = useStyles()
 	const [committees, setCommittees] = useState<ICommitteeInSelect[]>([])
 	const [committeesFailed, setCommitteesFailed] = useState<boolean>(false)
+	const [committeeNames, setCommitteeNames] = useState<Record<number, string>>(
+		{}
+	)
+	const [questions, setQuestions] = useState<ICommitteeQuestion[]>([])
+	const [answerErrors, setAnswerErrors] = useState<Record<string, string>>({})
+	const [attachments, setAttachments] = useState<File[]>([])
+	const [attachmentError, setAttachmentError] = useState<string>('')
 	const [isLoading, setIsLoading] = useState<boolean>(false)
 	const notifications = useNotifications()
 	const committeeNotification = useNotifications()
@@ -96,6 +175,11 @@ export function Form() {
 				.get('/committees')
 				.then((res) => {
 					setCommittees(mapCommitteeToSelect(res.data))
+					setCommitteeNames(
+						Object.fromEntries(
+							res.data.map((committee: ICommittee) => [committee._id, committee.name])
+						)
+					)
 				})
 				.catch((err) => {
 					setCommitteesFailed(true)
@@ -111,7 +195,73 @@ export function Form() {
 		}
 	}, [committeeNotification, committeesFailed])
 
+	useEffect(() => {
+		getCommitteeQuestions()
+			.then(setQuestions)
+			.catch(() => {
+				committeeNotification.showNotification({
+					title: 'Kunne ikke laste inn spørsmålene fra utvalgene!',
+					message:
+						'Last inn siden på nytt og prøv igjen. Ta kontakt med sprint@ntnui.no dersom problemet vedvarer',
+					color: 'red',
+					autoClose: false,
+					icon: <X size={18} />,
+				})
+			})
+	}, [committeeNotification])
+
+	const addAttachments = (files: FileList | null) => {
+		if (!files) return
+		const chosen = [...attachments, ...Array.from(files)]
+		if (chosen.some((file) => file.type !== 'application/pdf')) {
+			setAttachmentError('Du kan bare legge ved PDF-filer')
+		} else if (
+			chosen.some((file) => file.size > MAX_ATTACHMENT_SIZE_MB * 1024 * 1024)
+		) {
+			setAttachmentError(`Filene kan være på maks ${MAX_ATTACHMENT_SIZE_MB} MB`)
+		} else if (chosen.length > MAX_ATTACHMENTS) {
+			setAttachmentError(`Du kan legge ved maks ${MAX_ATTACHMENTS} filer`)
+		} else {
+			setAttachmentError('')
+			setAttachments(chosen)
+		}
+	}
+
 	const submitForm = (values: ISubmissionApplication) => {
+		// Only the questions of the chosen committees are answered
+		const chosenQuestions = questions.filter((question) =>
+			values.committees.includes(question.committee.toString())
+		)
+		const errors: Record<string, string> = {}
+		chosenQuestions.forEach((question) => {
+			const value = values.answers[question._id]
+			const maxLength = MAX_ANSWER_LENGTH[question.type]
+			if (question.required && !isAnswered(value)) {
+				errors[question._id] = 'Spørsmålet må besvares'
+			} else if (
+				maxLength &&
+				typeof value === 'string' &&
+				value.trim().length > maxLength
+			) {
+				errors[question._id] = `Maks ${maxLength} tegn`
+			}
+		})
+		setAnswerErrors(errors)
+		if (Object.keys(errors).length) return
+		const application = {
+			...values,
+			priorities: rankCommittees(values.priorities, values.committees),
+			answers: chosenQuestions
+				.filter((question) => isAnswered(values.answers[question._id]))
+				.map((question) => ({
+					question: question._id,
+					value: values.answers[question._id],
+				})),
+		}
+		// The files are sent along with the fields as JSON
+		const formData = new FormData()
+		formData.append('application', JSON.stringify(application))
+		attachments.forEach((file) => formData.append('attachments', file))
 		setIsLoading(true)
 		const id = notifications.showNotification({
 			id: 'form-notification',
@@ -120,10 +270,12 @@ export function Form() {
 			loading: true,
 		})
 		axios
-			.post('/applications', values)
+			.post('/applications', formData)
 			.then((response) => {
 				setIsLoading(false)
 				form.reset()
+				setAnswerErrors({})
+				setAttachments([])
 				notifications.updateNotification(id, {
 					id,
 					loading: false,
@@ -150,18 +302,34 @@ export function Form() {
 
 	const mapCommitteeToSelect = (committees: ICommittee[]) => {
 		return committees
-			.filter((committee: ICommittee) => {
-				return committee.slug !== 'valgkomiteen'
-			})
+			.filter((committee: ICommittee) => committee.takes_applications)
 			.map((committee: ICommittee) => {
-				if (!committee.accepts_admissions) {
+				if (
+					!committee.accepts_admissions ||
+					!admissionRound.committees.includes(committee._id)
+				) {
 					return {
 						value: committee._id.toString(),
 						label: `${committee.name} (ikke opptak)`,
 						disabled: true,
 					}
 				}
-				return { value: committee._id.toString(), label: committee.name }
+				// Committees can have a shorter admission window than the round
+				const { startDate, closesAt, hasStarted, hasEnded } =
+					getCommitteeAdmissionWindow(committee, admissionRound)
+				if (!hasStarted || hasEnded) {
+					return {
+						value: committee._id.toString(),
+						label: hasEnded
+							? `${committee.name} (stengt)`
+							: `${committee.name} (åpner ${dayjs(startDate).format('DD.MM')})`,
+						disabled: true,
+					}
+				}
+				return {
+					value: committee._id.toString(),
+					label: `${committee.name} (${getRemainingTimeText(closesAt)})`,
+				}
 			})
 			.sort((a, b) => {
 				if (a.label < b.label) {
@@ -181,6 +349,8 @@ export function Form() {
 			phone_number: '',
 			text: '',
 			committees: [],
+			priorities: [] as string[],
+			answers: {} as Record<string, AnswerValue>,
 		},
 
 		validate: {
@@ -261,6 +431,43 @@ export function Form() {
 					label={<span className={classes.labelText}>Hva ønsker du å søke?</span>}
 				/>
 			)}
+			{form.values.committees.length > 1 && (
+				<CommitteePriority
+					committees={rankCommittees(
+						form.values.priorities,
+						form.values.committees
+					).map((committee) => ({
+						value: committee,
+						label: committeeNames[Number(committee)],
+					}))}
+					onChange={(priorities) => form.setFieldValue('priorities', priorities)}
+				/>
+			)}
+			{form.values.committees.map((committee) => {
+				const committeeQuestions = questions.filter(
+					(question) => question.committee.toString() === committee
+				)
+				if (!committeeQuestions.length) return null
+				return (
+					<div key={committee} className={classes.committeeQuestions}>
+						<h3>Spørsmål fra {committeeNames[Number(committee)]}</h3>
+						{committeeQuestions.map((question) => (
+							<QuestionInput
+								key={question._id}
+								question={question}
+								value={form.values.answers[question._id]}
+								error={answerErrors[question._id]}
+								onChange={(value) =>
+									form.setFieldValue('answers', {
+										...form.values.answers,
+										[question._id]: value,
+									})
+								}
+							/>
+						))}
+					</div>
+				)
+			})}
 			<Textarea
 				classNames={{
 					label: classes.labelText,
@@ -282,6 +489,52 @@ export function Form() {
 					</p>
 				</div>
 			</Collapse>
+			<InputWrapper
+				label='Vedlegg'
+				description={`For eksempel CV. Maks ${MAX_ATTACHMENTS} PDF-filer på inntil ${MAX_ATTACHMENT_SIZE_MB} MB`}
+				error={attachmentError}
+				classNames={{ label: classes.labelText }}
+			>
+				<div className={classes.attachments}>
+					{attachments.map((file) => (
+						<div key={file.name} className={classes.attachment}>
+							<Paperclip size={16} />
+							<span>{file.name}</span>
+							<ActionIcon
+								size='sm'
+								title='Fjern vedlegg'
+								onClick={() =>
+									setAttachments(attachments.filter((other) => other !== file))
+								}
+							>
+								<X size={14} />
+							</ActionIcon>
+						</div>
+					))}
+					{attachments.length < MAX_ATTACHMENTS && (
+						<Button
+							component='label'
+							variant='outline'
+							color='gray'
+							leftIcon={<FileUpload size={18} />}
+							className={classes.attachmentButton}
+						>
+							Legg ved PDF
+							<input
+								type='file'
+								accept='application/pdf'
+								multiple
+								hidden
+								onChange={(event) => {
+									addAttachments(event.currentTarget.files)
+									// Let the same file be chosen again after it is removed
+									event.currentTarget.value = ''
+								}}
+							/>
+						</Button>
+					)}
+				</div>
+			</InputWrapper>
 			<Button
 				leftIcon={isLoading ? <Loader size={18} /> : <Check size={18} />}
 				className={classes.submitButton}
@@ -0,0 +1,185 @@
+import {
+	createStyles,
+	Loader,
+	Pagination,
+	TextInput,
+	UnstyledButton,
+} from '@mantine/core'
+import { useDebouncedValue } from '@mantine/hooks'
+import { useEffect, useState } from 'react'
+import { Search } from 'tabler-icons-react'
+import dayjs from 'dayjs'
+import { getArchivedApplications } from '../services/Archives'
+import { IArchivedApplication } from '../types/types'
+import { getStatusTranslation } from '../utils/status'
+
+const useStyles = createStyles((theme) => ({
+	wrapper: {
+		display: 'flex',
+		flexDirection: 'column',
+		gap: '0.5rem',
+	},
+	input: {
+		backgroundColor: 'transparent',
+		color: 'white',
+		border: '2px solid ' + theme.colors.ntnui_yellow[9],
+	},
+	icon: {
+		color: theme.colors.ntnui_yellow[9],
+	},
+	application: {
+		padding: '0.5rem 1rem',
+		borderRadius: theme.radius.sm,
+		backgroundColor: theme.colors.dark[7],
+		p: {
+			margin: '0.3rem 0',
+			whiteSpace: 'pre-wrap',
+			wordBreak: 'break-word',
+		},
+	},
+	applicationHeader: {
+		display: 'flex',
+		flexWrap: 'wrap',
+		justifyContent: 'space-between',
+		gap: '0.5rem',
+		width: '100%',
+		color: 'white',
+	},
+	details: {
+		fontSize: 'small',
+		color: theme.colors.gray[5],
+	},
+	comment: {
+		borderLeft: '2px solid ' + theme.colors.ntnui_yellow[9],
+		paddingLeft: '0.5rem',
+		margin: '0.3rem 0',
+	},
+	infoText: {
+		textAlign: 'center',
+		color: theme.colors.gray[5],
+	},
+	pagination: {
+		margin: '0.5rem auto',
+	},
+	paginationItems: {
+		color: 'white',
+		border: theme.colors.ntnui_background[9],
+		backgroundColor: theme.colors.ntnui_background[9],
+	},
+	pagintationActive: {
+		backgroundColor: theme.colors.ntnui_blue[9],
+	},
+}))
+
+interface IArchivedApplicationsProps {
+	archiveId: string
+}
+
+function ArchivedApplications({ archiveId }: IArchivedApplicationsProps) {
+	const { classes } = useStyles()
+	const [applications, setApplications] = useState<IArchivedApplication[]>([])
+	const [openApplication, setOpenApplication] = useState<string | null>(null)
+	const [currentPage, setCurrentPage] = useState<number>(1)
+	const [numberOfPages, setNumberOfPages] = useState<number>(1)
+	const [name, setName] = useState<string>('')
+	const [debouncedName] = useDebouncedValue(name, 400)
+	const [isLoading, setIsLoading] = useState<boolean>(false)
+
+	useEffect(() => {
+		setCurrentPage(1)
+	}, [debouncedName])
+
+	useEffect(() => {
+		const getApplicationsAsync = async () => {
+			setIsLoading(true)
+			try {
+				const response = await getArchivedApplications(
+					archiveId,
+					currentPage,
+					debouncedName.trim()
+				)
+				setApplications(response.applications)
+				setNumberOfPages(response.pagination.numberOfPages)
+			} catch (error) {
+				setApplications([])
+			}
+			setIsLoading(false)
+		}
+		getApplicationsAsync()
+	}, [archiveId, currentPage, debouncedName])
+
+	return (
+		<div className={classes.wrapper}>
+			<TextInput
+				placeholder='Søk etter navn'
+				icon={<Search size={16} />}
+				value={name}
+				onChange={(event) => setName(event.currentTarget.value)}
+				classNames={{ input: classes.input, icon: classes.icon }}
+			/>
+			{isLoading ? (
+				<Loader color='yellow' variant='dots' />
+			) : !applications.length ? (
+				<p className={classes.infoText}>Ingen søknader</p>
+			) : (
+				applications.map((application) => (
+					<div key={application._id} className={classes.application}>
+						<UnstyledButton
+							className={classes.applicationHeader}
+							onClick={() =>
+								setOpenApplication(
+									openApplication === application._id ? null : application._id
+								)
+							}
+						>
+							<b>{application.name}</b>
+							<span className={classes.details}>
+								{application.statuses
+									.map(
+										(status) =>
+											`${status.committee}: ${getStatusTranslation(status.value)}`
+									)
+									.join(', ')}
+							</span>
+						</UnstyledButton>
+						{openApplication === application._id && (
+							<>
+								<p className={classes.details}>
+									{application.email} · {application.phone_number} · Sendt{' '}
+									{dayjs(application.submitted_date).format('DD.MM.YYYY')}
+								</p>
+								<p>{application.text}</p>
+								{application.comments.map((comment) => (
+									<div
+										key={`${comment.author_name}-${comment.created_date}`}
+										className={classes.comment}
+									>
+										<span className={classes.details}>
+											{comment.author_name}, {comment.committee}
+										</span>
+										<p>{comment.text}</p>
+									</div>
+								))}
+							</>
+						)}
+					</div>
+				))
+			)}
+			{numberOfPages > 1 && (
+				<Pagination
+					className={classes.pagination}
+					classNames={{
+						item: classes.paginationItems,
+						active: classes.pagintationActive,
+					}}
+					total={numberOfPages}
+					noWrap
+					page={currentPage}
+					onChange={setCurrentPage}
+				/>
+			)}
+		</div>
+	)
+}
+
+export default ArchivedApplications
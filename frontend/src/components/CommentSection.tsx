@@ -0,0 +1,257 @@
+import {
+	ActionIcon,
+	Badge,
+	Box,
+	Button,
+	createStyles,
+	Loader,
+	Select,
+	Textarea,
+} from '@mantine/core'
+import { useNotifications } from '@mantine/notifications'
+import dayjs from 'dayjs'
+import { useEffect, useState } from 'react'
+import { Check, ChevronDown, Messages, Trash, X } from 'tabler-icons-react'
+import { deleteComment, getComments, postComment } from '../services/Comments'
+import { ICommittee, IComment } from '../types/types'
+require('dayjs/locale/nb')
+
+const useStyles = createStyles((theme) => ({
+	commentSection: {
+		boxSizing: 'border-box',
+		width: '60%',
+		margin: '2rem auto',
+		padding: '2rem 3rem',
+		border: '2px solid ' + theme.colors.ntnui_yellow[9],
+		borderRadius: theme.radius.sm,
+		color: 'white',
+		'@media (max-width: 1200px)': {
+			width: '70%',
+		},
+		'@media (max-width: 700px)': {
+			width: '85%',
+			border: 'none',
+			padding: '0',
+		},
+	},
+	sectionTitle: {
+		margin: '0 0 1rem 0',
+		fontWeight: 'lighter',
+		display: 'flex',
+		alignItems: 'center',
+		'*': {
+			// Icon
+			margin: '-5px 0 0 0',
+		},
+	},
+	comment: {
+		backgroundColor: theme.colors.ntnui_yellow[9] + '0F',
+		borderRadius: theme.radius.sm,
+		padding: '0.5rem 1rem',
+		margin: '0 0 0.5rem 0',
+		p: {
+			margin: '0.3rem 0 0 0',
+			whiteSpace: 'pre-wrap',
+			wordBreak: 'break-word',
+		},
+	},
+	commentHeader: {
+		display: 'flex',
+		alignItems: 'center',
+		gap: '0.5rem',
+		fontSize: 'small',
+		color: theme.colors.gray[5],
+		b: {
+			color: 'white',
+		},
+	},
+	deleteButton: {
+		marginLeft: 'auto',
+		color: theme.colors.ntnui_red[9],
+		'&:hover': {
+			backgroundColor: theme.colors.ntnui_red[9] + '4D',
+		},
+	},
+	form: {
+		display: 'flex',
+		flexDirection: 'column',
+		gap: '0.5rem',
+		margin: '1rem 0 0 0',
+	},
+	inputField: {
+		backgroundColor: 'transparent',
+		color: 'white',
+	},
+	label: {
+		color: 'white',
+	},
+	selectRightSection: {
+		pointerEvents: 'none',
+	},
+	submitButton: {
+		alignSelf: 'end',
+		backgroundColor: theme.colors.ntnui_blue[9],
+	},
+	emptyText: {
+		color: theme.colors.gray[5],
+	},
+}))
+
+interface ICommentSectionProps {
+	applicationId: string
+	committees: ICommittee[]
+}
+
+function CommentSection({ applicationId, committees }: ICommentSectionProps) {
+	const { classes } = useStyles()
+	const notifications = useNotifications()
+	const [comments, setComments] = useState<IComment[]>([])
+	const [commentCommitteeIds, setCommentCommitteeIds] = useState<number[]>([])
+	const [committee, setCommittee] = useState<string | null>(null)
+	const [text, setText] = useState<string>('')
+	const [isLoading, setIsLoading] = useState<boolean>(true)
+	const [isPosting, setIsPosting] = useState<boolean>(false)
+
+	useEffect(() => {
+		const getCommentsAsync = async () => {
+			setIsLoading(true)
+			try {
+				const response = await getComments(applicationId)
+				setComments(response.comments)
+				setCommentCommitteeIds(response.committees)
+				if (response.committees.length) {
+					setCommittee(response.committees[0].toString())
+				}
+			} catch (error) {
+				setComments([])
+				setCommentCommitteeIds([])
+			}
+			setIsLoading(false)
+		}
+		getCommentsAsync()
+	}, [applicationId])
+
+	const committeeSelectData = committees
+		.filter((com) => commentCommitteeIds.includes(com._id))
+		.map((com) => ({ value: com._id.toString(), label: com.name }))
+
+	const submitComment = async () => {
+		if (!committee || !text.trim().length) return
+		setIsPosting(true)
+		try {
+			const comment = await postComment(applicationId, Number(committee), text)
+			setComments([...comments, comment])
+			setText('')
+			notifications.showNotification({
+				title: 'Kommentar lagt til',
+				message: '',
+				color: 'green',
+				icon: <Check size={18} />,
+				autoClose: 3000,
+			})
+		} catch (error) {
+			notifications.showNotification({
+				title: 'Kunne ikke legge til kommentar!',
+				message:
+					'En feil oppstod. Ta kontakt med sprint@ntnui.no dersom problemet vedvarer',
+				color: 'red',
+				autoClose: false,
+				icon: <X size={18} />,
+			})
+		}
+		setIsPosting(false)
+	}
+
+	const removeComment = async (commentId: string) => {
+		try {
+			await deleteComment(applicationId, commentId)
+			setComments(comments.filter((comment) => comment._id !== commentId))
+		} catch (error) {
+			notifications.showNotification({
+				title: 'Kunne ikke slette kommentar!',
+				message:
+					'En feil oppstod. Ta kontakt med sprint@ntnui.no dersom problemet vedvarer',
+				color: 'red',
+				autoClose: false,
+				icon: <X size={18} />,
+			})
+		}
+	}
+
+	if (!isLoading && !commentCommitteeIds.length) return null
+
+	return (
+		<Box className={classes.commentSection}>
+			<h2 className={classes.sectionTitle}>
+				<Messages size={32} /> Interne kommentarer
+			</h2>
+			{isLoading ? (
+				<Loader color='white' variant='dots' />
+			) : (
+				<>
+					{!comments.length ? (
+						<i className={classes.emptyText}>Ingen kommentarer enda</i>
+					) : (
+						comments.map((comment) => (
+							<div key={comment._id} className={classes.comment}>
+								<div className={classes.commentHeader}>
+									<b>{comment.author_name}</b>
+									<Badge color='yellow' size='xs'>
+										{comment.committee.name}
+									</Badge>
+									{dayjs(comment.created_date).locale('nb').format('D. MMM HH:mm')}
+									{comment.is_author && (
+										<ActionIcon
+											className={classes.deleteButton}
+											title='Slett kommentar'
+											onClick={() => removeComment(comment._id)}
+										>
+											<Trash size={16} />
+										</ActionIcon>
+									)}
+								</div>
+								<p>{comment.text}</p>
+							</div>
+						))
+					)}
+					<div className={classes.form}>
+						{committeeSelectData.length > 1 && (
+							<Select
+								label='Kommenter for'
+								data={committeeSelectData}
+								value={committee}
+								onChange={setCommittee}
+								rightSection={<ChevronDown size={14} />}
+								rightSectionWidth={40}
+								classNames={{
+									label: classes.label,
+									input: classes.inputField,
+									rightSection: classes.selectRightSection,
+								}}
+							/>
+						)}
+						<Textarea
+							placeholder='Skriv en kommentar som kun ditt utvalg kan se ...'
+							autosize
+							minRows={2}
+							maxRows={6}
+							value={text}
+							onChange={(event) => setText(event.currentTarget.value)}
+							classNames={{ input: classes.inputField }}
+						/>
+						<Button
+							className={classes.submitButton}
+							leftIcon={isPosting ? <Loader size={18} /> : <Check size={18} />}
+							disabled={isPosting || !text.trim().length}
+							onClick={submitComment}
+						>
+							Legg til kommentar
+						</Button>
+					</div>
+				</>
+			)}
+		</Box>
+	)
+}
+
+export default CommentSection
@@ -58,10 +58,17 @@ const useStyles = createStyles((theme) => ({
 
 interface ICommitteeBannerProps {
 	committees: ICommittee[]
+	// Committee ids ranked by the applicant, if the applicant ranked them
+	priorities?: number[]
 }
 
-const CommitteeBanner = ({ committees }: ICommitteeBannerProps) => {
+const CommitteeBanner = ({ committees, priorities }: ICommitteeBannerProps) => {
 	const { classes } = useStyles()
+	// Hidden committees, like the main board, are not part of the visible ranking
+	const rankedCommittees = (priorities || [])
+		.map((priority) => committees.find((committee) => committee._id === priority))
+		.filter((committee): committee is ICommittee => !!committee)
+	const isRanked = rankedCommittees.length === committees.length
 	function stringifyCommittees(
 		committees: ICommittee[],
 		maxNum: number
@@ -80,12 +87,24 @@ const CommitteeBanner = ({ committees }: ICommitteeBannerProps) => {
 			<Box className={classes.banner}>
 				<AlertTriangle size={55} />
 				<MediaQuery smallerThan='sm' styles={{ display: 'none' }}>
-					<h3>{`Søker ${stringifyCommittees(committees, 4)}`}</h3>
+					<h3>{`Søker ${stringifyCommittees(
+						isRanked ? rankedCommittees : committees,
+						4
+					)}`}</h3>
 				</MediaQuery>
 				<MediaQuery largerThan='sm' styles={{ display: 'none' }}>
-					<h3>{`Søker ${stringifyCommittees(committees, 3)}`}</h3>
+					<h3>{`Søker ${stringifyCommittees(
+						isRanked ? rankedCommittees : committees,
+						3
+					)}`}</h3>
 				</MediaQuery>
-				<p>Koordiner for å unngå å konkurrere internt</p>
+				<p>
+					{isRanked &&
+						`Prioritert: ${rankedCommittees
+							.map((committee, index) => `${index + 1}. ${committee.name}`)
+							.join(', ')}. `}
+					Koordiner for å unngå å konkurrere internt
+				</p>
 			</Box>
 		</>
 	)
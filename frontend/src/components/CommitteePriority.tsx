@@ -0,0 +1,117 @@
+import { ActionIcon, createStyles, InputWrapper } from '@mantine/core'
+import { useState } from 'react'
+import { ChevronDown, ChevronUp, GripVertical } from 'tabler-icons-react'
+
+const useStyles = createStyles((theme) => ({
+	label: {
+		fontSize: '1rem',
+		color: 'white',
+	},
+	list: {
+		display: 'flex',
+		flexDirection: 'column',
+		gap: '0.3rem',
+		margin: '0.3rem 0 0 0',
+		padding: 0,
+		listStyle: 'none',
+	},
+	item: {
+		display: 'flex',
+		alignItems: 'center',
+		gap: '0.5rem',
+		padding: '0.3rem 0.5rem',
+		color: 'white',
+		border: '1px solid ' + theme.colors.gray[7],
+		borderRadius: theme.radius.sm,
+		cursor: 'grab',
+		userSelect: 'none',
+	},
+	draggedItem: {
+		opacity: 0.5,
+	},
+	grip: {
+		color: theme.colors.gray[5],
+	},
+	position: {
+		color: theme.colors.ntnui_yellow[9],
+		minWidth: '1.5rem',
+	},
+	name: {
+		flexGrow: 1,
+	},
+}))
+
+interface ICommitteePriorityProps {
+	// The chosen committees, ranked
+	committees: { value: string; label: string }[]
+	onChange: (priorities: string[]) => void
+}
+
+/**
+ * Rank the chosen committees by dragging them, or with the arrows on
+ * devices without drag and drop
+ */
+function CommitteePriority({ committees, onChange }: ICommitteePriorityProps) {
+	const { classes, cx } = useStyles()
+	const [dragged, setDragged] = useState<string | null>(null)
+
+	const move = (committee: string, index: number) => {
+		const priorities = committees
+			.map((other) => other.value)
+			.filter((other) => other !== committee)
+		priorities.splice(index, 0, committee)
+		onChange(priorities)
+	}
+
+	return (
+		<InputWrapper
+			label='Prioriter utvalgene'
+			description='Dra utvalgene i den rekkefølgen du helst vil bli med i'
+			classNames={{ label: classes.label }}
+		>
+			<ol className={classes.list}>
+				{committees.map((committee, index) => (
+					<li
+						key={committee.value}
+						draggable
+						className={cx(classes.item, {
+							[classes.draggedItem]: dragged === committee.value,
+						})}
+						onDragStart={(event) => {
+							event.dataTransfer.effectAllowed = 'move'
+							setDragged(committee.value)
+						}}
+						onDragOver={(event) => {
+							event.preventDefault()
+							if (dragged && dragged !== committee.value) move(dragged, index)
+						}}
+						onDrop={(event) => event.preventDefault()}
+						onDragEnd={() => setDragged(null)}
+					>
+						<GripVertical size={16} className={classes.grip} />
+						<span className={classes.position}>{index + 1}.</span>
+						<span className={classes.name}>{committee.label}</span>
+						<ActionIcon
+							size='sm'
+							title='Flytt opp'
+							disabled={index === 0}
+							onClick={() => move(committee.value, index - 1)}
+						>
+							<ChevronUp size={14} />
+						</ActionIcon>
+						<ActionIcon
+							size='sm'
+							title='Flytt ned'
+							disabled={index === committees.length - 1}
+							onClick={() => move(committee.value, index + 1)}
+						>
+							<ChevronDown size={14} />
+						</ActionIcon>
+					</li>
+				))}
+			</ol>
+		</InputWrapper>
+	)
+}
+
+export default CommitteePriority
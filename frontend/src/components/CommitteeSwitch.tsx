@@ -1,10 +1,18 @@
 import { createStyles, Switch } from '@mantine/core'
+import { DateRangePicker } from '@mantine/dates'
 import { useNotifications } from '@mantine/notifications'
+import dayjs from 'dayjs'
+import 'dayjs/locale/nb'
 import { ChangeEvent, useState } from 'react'
 import { useNavigate } from 'react-router-dom'
-import { AlertTriangle } from 'tabler-icons-react'
-import { toggleAcceptsAdmissions } from '../services/Committees'
+import { AlertTriangle, Calendar, Check } from 'tabler-icons-react'
+import {
+	putAdmissionWindow,
+	toggleAcceptsAdmissions,
+} from '../services/Committees'
 import { ICommittee } from '../types/types'
+import { parseDate } from '../utils/admissionWindow'
+import AdmissionSchedule from './AdmissionSchedule'
 
 const useStyles = createStyles((theme) => ({
 	committees: {
@@ -16,10 +24,27 @@ const useStyles = createStyles((theme) => ({
 		fontWeight: '300',
 		fontSize: 'medium',
 		display: 'flex',
-		justifyContent: 'space-between',
+		flexDirection: 'column',
+		gap: '0.5rem',
 		width: '100%',
 		boxShadow: '0rem 0.2rem 0.4rem ' + theme.colors.dark[7],
 	},
+	committeeHeader: {
+		display: 'flex',
+		justifyContent: 'space-between',
+	},
+	dateRangeInput: {
+		backgroundColor: 'transparent',
+		color: 'white',
+		border: '1px solid ' + theme.colors.gray[7],
+	},
+	dateRangeLabel: {
+		color: theme.colors.gray[5],
+		fontWeight: 300,
+	},
+	dateRangeIcon: {
+		color: theme.colors.ntnui_yellow[9],
+	},
 	switch: {
 		input: {
 			background: theme.colors.ntnui_red[9],
@@ -31,11 +56,25 @@ const useStyles = createStyles((theme) => ({
 	},
 }))
 
-function CommitteeSwitch({ name, accepts_admissions, slug }: ICommittee) {
+function toDate(date: string | null) {
+	return date ? parseDate(date) : null
+}
+
+function CommitteeSwitch({
+	name,
+	accepts_admissions,
+	admission_start_date,
+	admission_end_date,
+	slug,
+}: ICommittee) {
 	const { classes } = useStyles()
 	let navigate = useNavigate()
 	const [checked, setChecked] = useState<boolean>(accepts_admissions)
 	const [switchStatus, setSwitchStatus] = useState<boolean>(false)
+	const [admissionWindow, setAdmissionWindow] = useState<
+		[Date | null, Date | null]
+	>([toDate(admission_start_date), toDate(admission_end_date)])
+	const [isSavingWindow, setIsSavingWindow] = useState<boolean>(false)
 	const committeeNotification = useNotifications()
 
 	/**
@@ -68,17 +107,85 @@ function CommitteeSwitch({ name, accepts_admissions, slug }: ICommittee) {
 		}
 	}
 
+	/**
+	 * Save the admission window of the committee once both dates are picked,
+	 * or when it is cleared
+	 */
+	async function handleWindowChange(value: [Date | null, Date | null]) {
+		setAdmissionWindow(value)
+		const [start, end] = value
+		if (!start !== !end) return
+		setIsSavingWindow(true)
+		try {
+			const savedWindow = await putAdmissionWindow(
+				slug,
+				start && dayjs(start).format('YYYY-MM-DD'),
+				end && dayjs(end).format('YYYY-MM-DD')
+			)
+			setAdmissionWindow([
+				toDate(savedWindow.admission_start_date),
+				toDate(savedWindow.admission_end_date),
+			])
+			committeeNotification.showNotification({
+				title: start
+					? `Søknadsperioden for ${name} er lagret!`
+					: `${name} følger opptaksrunden`,
+				message: '',
+				color: 'green',
+				autoClose: 3000,
+				icon: <Check size={18} />,
+			})
+		} catch (error: any) {
+			if (error.response?.status === 401) {
+				navigate('/login')
+			} else {
+				setAdmissionWindow([
+					toDate(admission_start_date),
+					toDate(admission_end_date),
+				])
+				committeeNotification.showNotification({
+					title: 'Kunne ikke lagre søknadsperioden!',
+					message:
+						'Last inn siden på nytt og prøv igjen. Ta kontakt med sprint@ntnui.no dersom problemet vedvarer',
+					color: 'red',
+					autoClose: false,
+					icon: <AlertTriangle size={18} />,
+				})
+			}
+		}
+		setIsSavingWindow(false)
+	}
+
 	return (
 		<div className={classes.committees}>
-			<div>{name}</div>
-			<Switch
-				className={classes.switch}
-				checked={checked}
-				onChange={(event) => handleToggle(event)}
-				size='md'
-				radius='lg'
-				disabled={switchStatus}
+			<div className={classes.committeeHeader}>
+				<div>{name}</div>
+				<Switch
+					className={classes.switch}
+					checked={checked}
+					onChange={(event) => handleToggle(event)}
+					size='md'
+					radius='lg'
+					disabled={switchStatus}
+				/>
+			</div>
+			<DateRangePicker
+				classNames={{
+					input: classes.dateRangeInput,
+					label: classes.dateRangeLabel,
+					icon: classes.dateRangeIcon,
+				}}
+				label='Egen søknadsperiode (valgfritt)'
+				placeholder='Følger opptaksrunden'
+				icon={<Calendar size={16} />}
+				locale='nb'
+				size='xs'
+				clearable
+				disabled={isSavingWindow}
+				value={admissionWindow}
+				onChange={handleWindowChange}
 			/>
+			<AdmissionSchedule slug={slug} />
 		</div>
 	)
 }
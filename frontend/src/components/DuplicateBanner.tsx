@@ -0,0 +1,189 @@
+import { Box, Button, createStyles, Modal } from '@mantine/core'
+import { useNotifications } from '@mantine/notifications'
+import dayjs from 'dayjs'
+import { useEffect, useState } from 'react'
+import { Link, useNavigate } from 'react-router-dom'
+import { Copy, GitMerge, X } from 'tabler-icons-react'
+import {
+	getApplicationDuplicates,
+	mergeApplications,
+} from '../services/Applications'
+import { IApplicationDuplicate } from '../types/types'
+
+const useStyles = createStyles((theme) => ({
+	banner: {
+		boxSizing: 'border-box',
+		backgroundColor: theme.colors.ntnui_yellow[9] + '1A',
+		border: '2px solid ' + theme.colors.ntnui_yellow[9],
+		borderRadius: theme.radius.sm,
+		width: '60%',
+		margin: 'auto auto 15px auto',
+		padding: '0.7rem 0.5rem',
+		color: 'white',
+		display: 'grid',
+		gridTemplateColumns: 'auto 1fr',
+		gridTemplateAreas: `
+        'icon title'
+        'icon duplicates'
+    `,
+		h3: {
+			fontWeight: 'lighter',
+			gridArea: 'title',
+			margin: '0 0 0 10px',
+		},
+		'> svg': {
+			gridArea: 'icon',
+			alignSelf: 'center',
+			color: theme.colors.ntnui_yellow[9],
+		},
+		'@media (max-width: 1200px)': {
+			width: '70%',
+		},
+		'@media (max-width: 700px)': {
+			width: '85%',
+			padding: '5px',
+			borderWidth: '2px 0 2px 0',
+			h3: {
+				margin: 0,
+			},
+			'> svg': {
+				display: 'none',
+			},
+		},
+	},
+	duplicates: {
+		gridArea: 'duplicates',
+		display: 'flex',
+		flexDirection: 'column',
+		gap: '0.3rem',
+		margin: '0.3rem 0 0 10px',
+		'@media (max-width: 700px)': {
+			margin: '0.3rem 0 0 0',
+		},
+	},
+	duplicate: {
+		display: 'flex',
+		alignItems: 'center',
+		flexWrap: 'wrap',
+		gap: '0.5rem',
+		a: {
+			color: theme.colors.ntnui_yellow[9],
+			flexGrow: 1,
+		},
+	},
+	mergeButton: {
+		backgroundColor: theme.colors.ntnui_blue[9],
+	},
+	modalButtons: {
+		display: 'flex',
+		justifyContent: 'flex-end',
+		gap: '0.5rem',
+		marginTop: '1rem',
+	},
+	cancelButton: {
+		backgroundColor: theme.colors.ntnui_red[9],
+	},
+}))
+
+interface IDuplicateBannerProps {
+	applicationId: string
+}
+
+// Warns about other applications likely sent by the same applicant
+function DuplicateBanner({ applicationId }: IDuplicateBannerProps) {
+	const { classes } = useStyles()
+	const navigate = useNavigate()
+	const notifications = useNotifications()
+	const [duplicates, setDuplicates] = useState<IApplicationDuplicate[]>([])
+	const [canMerge, setCanMerge] = useState<boolean>(false)
+	const [merging, setMerging] = useState<IApplicationDuplicate | null>(null)
+	const [isMerging, setIsMerging] = useState<boolean>(false)
+
+	useEffect(() => {
+		const getDuplicatesAsync = async () => {
+			try {
+				const response = await getApplicationDuplicates(applicationId)
+				setDuplicates(response.duplicates)
+				setCanMerge(response.can_merge)
+			} catch (error) {
+				setDuplicates([])
+			}
+		}
+		getDuplicatesAsync()
+	}, [applicationId])
+
+	async function merge() {
+		if (!merging) return
+		setIsMerging(true)
+		try {
+			await mergeApplications(applicationId, merging._id)
+			// The application has changed in every section of the page
+			navigate(0)
+		} catch (error) {
+			notifications.showNotification({
+				title: 'Kunne ikke slå sammen søknadene!',
+				message:
+					'En feil oppstod. Ta kontakt med sprint@ntnui.no dersom problemet vedvarer',
+				color: 'red',
+				autoClose: false,
+				icon: <X size={18} />,
+			})
+		}
+		setIsMerging(false)
+		setMerging(null)
+	}
+
+	if (!duplicates.length) return null
+	return (
+		<>
+			<Box className={classes.banner}>
+				<Copy size={40} />
+				<h3>Mulig duplikat – samme e-post eller telefonnummer som</h3>
+				<div className={classes.duplicates}>
+					{duplicates.map((duplicate) => (
+						<div key={duplicate._id} className={classes.duplicate}>
+							<Link to={`/applications/${duplicate._id}`}>
+								{duplicate.name}, sendt{' '}
+								{dayjs(duplicate.submitted_date).format('DD.MM.YYYY HH:mm')}
+							</Link>
+							{canMerge && (
+								<Button
+									size='xs'
+									className={classes.mergeButton}
+									leftIcon={<GitMerge size={14} />}
+									onClick={() => setMerging(duplicate)}
+								>
+									Slå sammen
+								</Button>
+							)}
+						</div>
+					))}
+				</div>
+			</Box>
+			<Modal
+				centered
+				opened={!!merging}
+				onClose={() => setMerging(null)}
+				title='Slå sammen søknadene?'
+			>
+				Søknaden fra {merging?.name} slettes, og utvalgene, statusene, kommentarene
+				og intervjuene flyttes til denne søknaden. Der begge søknadene er sendt til
+				samme utvalg, beholdes statusen på denne søknaden.
+				<div className={classes.modalButtons}>
+					<Button className={classes.cancelButton} onClick={() => setMerging(null)}>
+						Avbryt
+					</Button>
+					<Button
+						className={classes.mergeButton}
+						loading={isMerging}
+						onClick={merge}
+					>
+						Slå sammen
+					</Button>
+				</div>
+			</Modal>
+		</>
+	)
+}
+
+export default DuplicateBanner
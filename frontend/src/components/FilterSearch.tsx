@@ -1,11 +1,32 @@
-import { createStyles, Group, Input, MultiSelect, Select } from '@mantine/core'
+import {
+	Button,
+	createStyles,
+	Group,
+	Input,
+	Menu,
+	MultiSelect,
+	Select,
+} from '@mantine/core'
+import { useNotifications } from '@mantine/notifications'
+import dayjs from 'dayjs'
 import debounce from 'lodash.debounce'
 import { useMemo } from 'react'
 import { forwardRef, useEffect, useState } from 'react'
-import { ChevronDown, Menu2, Search } from 'tabler-icons-react'
+import {
+	ChevronDown,
+	FileDownload,
+	FileSpreadsheet,
+	FileText,
+	Menu2,
+	Search,
+	X,
+} from 'tabler-icons-react'
+import { getApplicationExport } from '../services/Applications'
+import { getAdmissionRounds } from '../services/AdmissionRounds'
 import { getAllCommittees } from '../services/Committees'
-import { ICommittee } from '../types/types'
+import { IAdmissionRound, ICommittee } from '../types/types'
 import StatusTypes from '../utils/enums'
+import saveFile from '../utils/download'
 import constructSearchFilterQuery from '../utils/filter'
 import { getIconForStatus, getStatusTranslation } from '../utils/status'
 
@@ -101,6 +122,18 @@ const useStyles = createStyles((theme) => ({
 	selectRightSection: {
 		pointerEvents: 'none',
 	},
+	exportMenu: {
+		gridColumn: '1 / 3',
+		justifySelf: 'end',
+	},
+	exportButton: {
+		backgroundColor: 'transparent',
+		border: '2px solid' + theme.colors.ntnui_yellow[9],
+		color: theme.colors.ntnui_yellow[9],
+		'&:hover': {
+			backgroundColor: theme.colors.ntnui_yellow[9] + '33',
+		},
+	},
 }))
 
 interface StatusTypesData {
@@ -130,6 +163,10 @@ function FilterSearch({ setFilter }: FilterSearchProps) {
 	const [status, setStatus] = useState<string>('')
 	const [sort, setSort] = useState<string>('date_desc')
 	const [nameSearch, setNameSearch] = useState<string>('')
+	const [admissionRounds, setAdmissionRounds] = useState<IAdmissionRound[]>([])
+	const [round, setRound] = useState<string>('')
+	const [isExporting, setIsExporting] = useState<boolean>(false)
+	const notifications = useNotifications()
 
 	useEffect(() => {
 		// Retrieve committees for multiselect
@@ -143,6 +180,16 @@ function FilterSearch({ setFilter }: FilterSearchProps) {
 		getCommittees()
 	}, [])
 
+	useEffect(() => {
+		// Retrieve admission rounds for select
+		async function getRounds() {
+			try {
+				setAdmissionRounds(await getAdmissionRounds())
+			} catch (error: any) {}
+		}
+		getRounds()
+	}, [])
+
 	// Debouncing nameSearch
 	const handleChangeFilter = useMemo(
 		() =>
@@ -164,7 +211,8 @@ function FilterSearch({ setFilter }: FilterSearchProps) {
 			filterCommittees,
 			sort,
 			status,
-			nameSearch
+			nameSearch,
+			round
 		)
 		handleChangeFilter(query)
 	}, [nameSearch, setFilter, handleChangeFilter])
@@ -175,10 +223,37 @@ function FilterSearch({ setFilter }: FilterSearchProps) {
 			filterCommittees,
 			sort,
 			status,
-			nameSearch
+			nameSearch,
+			round
 		)
 		setFilter(query.toString())
-	}, [status, filterCommittees, sort, setFilter])
+	}, [status, filterCommittees, sort, round, setFilter])
+
+	// Download the applications matching the current filter
+	async function exportApplications(format: 'csv' | 'xlsx') {
+		setIsExporting(true)
+		try {
+			const query = constructSearchFilterQuery(
+				filterCommittees,
+				sort,
+				status,
+				nameSearch,
+				round
+			)
+			const file = await getApplicationExport(query.toString(), format)
+			saveFile(file, `soknader-${dayjs().format('YYYY-MM-DD')}.${format}`)
+		} catch (error) {
+			notifications.showNotification({
+				title: 'Kunne ikke laste ned søknadene!',
+				message:
+					'En feil oppstod. Ta kontakt med sprint@ntnui.no dersom problemet vedvarer',
+				color: 'red',
+				autoClose: false,
+				icon: <X size={18} />,
+			})
+		}
+		setIsExporting(false)
+	}
 
 	function mapCommitteesToMultiselectData() {
 		let dataList: { value: string; label: string }[] = []
@@ -188,6 +263,15 @@ function FilterSearch({ setFilter }: FilterSearchProps) {
 		return dataList
 	}
 
+	function mapAdmissionRoundsToSelectData() {
+		const dataList = admissionRounds.map((admissionRound) => ({
+			value: admissionRound._id,
+			label: admissionRound.name,
+		}))
+		dataList.unshift({ label: 'Alle', value: '' })
+		return dataList
+	}
+
 	interface ItemProps extends React.ComponentPropsWithoutRef<'div'> {
 		label: string
 		value: StatusTypes
@@ -268,6 +352,20 @@ function FilterSearch({ setFilter }: FilterSearchProps) {
 					rightSection={<ChevronDown size={14} />}
 					rightSectionWidth={40}
 				/>
+				<Select
+					classNames={{
+						root: classes.multiselectRoot,
+						label: classes.selectLabel,
+						input: classes.selectInput,
+						rightSection: classes.selectRightSection,
+					}}
+					data={mapAdmissionRoundsToSelectData()}
+					label={<span className={classes.badgeLabel}>Velg opptaksrunde</span>}
+					value={round}
+					onChange={(e) => setRound(e as string)}
+					rightSection={<ChevronDown size={14} />}
+					rightSectionWidth={40}
+				/>
 				<MultiSelect
 					classNames={{
 						root: classes.multiselectRoot,
@@ -285,6 +383,31 @@ function FilterSearch({ setFilter }: FilterSearchProps) {
 					onChange={setChosenCommittees}
 					rightSectionWidth={40}
 				/>
+				<Menu
+					className={classes.exportMenu}
+					control={
+						<Button
+							className={classes.exportButton}
+							leftIcon={<FileDownload size={18} />}
+							loading={isExporting}
+						>
+							Last ned
+						</Button>
+					}
+				>
+					<Menu.Item
+						icon={<FileSpreadsheet size={16} />}
+						onClick={() => exportApplications('xlsx')}
+					>
+						Excel (.xlsx)
+					</Menu.Item>
+					<Menu.Item
+						icon={<FileText size={16} />}
+						onClick={() => exportApplications('csv')}
+					>
+						CSV (.csv)
+					</Menu.Item>
+				</Menu>
 			</div>
 		</div>
 	)
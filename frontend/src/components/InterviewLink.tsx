@@ -0,0 +1,108 @@
+import { ActionIcon, Button, createStyles, TextInput } from '@mantine/core'
+import { useClipboard } from '@mantine/hooks'
+import { useNotifications } from '@mantine/notifications'
+import { useState } from 'react'
+import { Check, Copy, Link, X } from 'tabler-icons-react'
+import { postInterviewLink } from '../services/Statuses'
+
+const useStyles = createStyles((theme) => ({
+	input: {
+		backgroundColor: 'transparent',
+		color: 'white',
+		fontSize: 'small',
+	},
+	label: {
+		color: 'white',
+		fontSize: 'small',
+	},
+	description: {
+		color: theme.colors.gray[5],
+	},
+	copyButton: {
+		color: theme.colors.ntnui_yellow[9],
+	},
+	createButton: {
+		marginTop: '0.3rem',
+		color: theme.colors.ntnui_yellow[9],
+		padding: 0,
+		backgroundColor: 'transparent',
+		'&:hover': {
+			backgroundColor: 'transparent',
+			textDecoration: 'underline',
+		},
+	},
+}))
+
+interface IInterviewLinkProps {
+	statusId: string
+	interviewLink: string | null
+	setInterviewLink: (link: string) => void
+}
+
+function InterviewLink({
+	statusId,
+	interviewLink,
+	setInterviewLink,
+}: IInterviewLinkProps) {
+	const { classes } = useStyles()
+	const clipboard = useClipboard({ timeout: 2000 })
+	const notifications = useNotifications()
+	const [isLoading, setIsLoading] = useState<boolean>(false)
+
+	async function createLink() {
+		setIsLoading(true)
+		try {
+			setInterviewLink(await postInterviewLink(statusId))
+		} catch (error) {
+			notifications.showNotification({
+				title: 'Kunne ikke lage bookinglenke!',
+				message:
+					'En feil oppstod. Ta kontakt med sprint@ntnui.no dersom problemet vedvarer',
+				color: 'red',
+				autoClose: false,
+				icon: <X size={18} />,
+			})
+		}
+		setIsLoading(false)
+	}
+
+	if (!interviewLink) {
+		// Links are only shown once, so a lost link has to be replaced
+		return (
+			<Button
+				className={classes.createButton}
+				size='xs'
+				leftIcon={<Link size={14} />}
+				disabled={isLoading}
+				onClick={createLink}
+			>
+				Lag ny bookinglenke
+			</Button>
+		)
+	}
+	return (
+		<TextInput
+			label='Bookinglenke'
+			description='Send lenken til søkeren, så kan søkeren booke intervjutid selv'
+			readOnly
+			value={interviewLink}
+			onFocus={(event) => event.currentTarget.select()}
+			rightSection={
+				<ActionIcon
+					className={classes.copyButton}
+					title='Kopier lenke'
+					onClick={() => clipboard.copy(interviewLink)}
+				>
+					{clipboard.copied ? <Check size={16} /> : <Copy size={16} />}
+				</ActionIcon>
+			}
+			classNames={{
+				input: classes.input,
+				label: classes.label,
+				description: classes.description,
+			}}
+		/>
+	)
+}
+
+export default InterviewLink
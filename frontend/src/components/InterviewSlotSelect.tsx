@@ -0,0 +1,130 @@
+import { createStyles, Select } from '@mantine/core'
+import { useNotifications } from '@mantine/notifications'
+import { useEffect, useState } from 'react'
+import { CalendarEvent, ChevronDown, X } from 'tabler-icons-react'
+import { bookInterviewSlot, getInterviewSlots } from '../services/Interviews'
+import { IInterviewSlot } from '../types/types'
+import { formatInterviewSlot } from '../utils/interview'
+
+const useStyles = createStyles((theme) => ({
+	bookedText: {
+		display: 'flex',
+		alignItems: 'center',
+		gap: '0.3rem',
+		fontSize: 'small',
+		margin: '0.3rem 0 0 0',
+		color: theme.colors.ntnui_yellow[9],
+	},
+	input: {
+		backgroundColor: 'transparent',
+		color: 'white',
+	},
+	label: {
+		color: 'white',
+		fontSize: 'small',
+	},
+	rightSection: {
+		pointerEvents: 'none',
+	},
+}))
+
+interface IInterviewSlotSelectProps {
+	applicationId: string
+	committeeId: number
+	interview: IInterviewSlot | undefined
+	// Whether the user can book the interview for the committee
+	canBook: boolean
+}
+
+function InterviewSlotSelect({
+	applicationId,
+	committeeId,
+	interview,
+	canBook,
+}: IInterviewSlotSelectProps) {
+	const { classes } = useStyles()
+	const notifications = useNotifications()
+	const [bookedSlot, setBookedSlot] = useState<IInterviewSlot | undefined>(
+		interview
+	)
+	const [slots, setSlots] = useState<IInterviewSlot[]>([])
+	const [isLoading, setIsLoading] = useState<boolean>(false)
+
+	useEffect(() => {
+		setBookedSlot(interview)
+	}, [interview])
+
+	useEffect(() => {
+		if (!canBook) return
+		const getSlotsAsync = async () => {
+			try {
+				setSlots(await getInterviewSlots(committeeId))
+			} catch (error) {
+				setSlots([])
+			}
+		}
+		getSlotsAsync()
+	}, [canBook, committeeId])
+
+	// Free slots, and the slot booked by this application
+	const slotSelectData = slots
+		.filter((slot) => !slot.application || slot._id === bookedSlot?._id)
+		.map((slot) => ({ value: slot._id, label: formatInterviewSlot(slot) }))
+
+	async function handleBooking(slotId: string | null) {
+		setIsLoading(true)
+		try {
+			if (slotId) {
+				setBookedSlot(await bookInterviewSlot(slotId, applicationId))
+			} else if (bookedSlot) {
+				await bookInterviewSlot(bookedSlot._id, null)
+				setBookedSlot(undefined)
+			}
+			setSlots(await getInterviewSlots(committeeId))
+		} catch (error: any) {
+			notifications.showNotification({
+				title: 'Kunne ikke booke intervjutid!',
+				message:
+					error.response?.status === 409
+						? 'Intervjutiden er opptatt, eller søkeren har et annet intervju samtidig'
+						: 'En feil oppstod. Ta kontakt med sprint@ntnui.no dersom problemet vedvarer',
+				color: 'red',
+				autoClose: false,
+				icon: <X size={18} />,
+			})
+		}
+		setIsLoading(false)
+	}
+
+	if (canBook) {
+		return (
+			<Select
+				label='Intervjutid'
+				placeholder={
+					slotSelectData.length ? 'Velg intervjutid' : 'Ingen ledige intervjutider'
+				}
+				icon={<CalendarEvent size={18} />}
+				clearable
+				disabled={isLoading}
+				data={slotSelectData}
+				value={bookedSlot?._id || null}
+				onChange={handleBooking}
+				rightSection={<ChevronDown size={14} />}
+				rightSectionWidth={40}
+				classNames={{
+					input: classes.input,
+					label: classes.label,
+					rightSection: classes.rightSection,
+				}}
+			/>
+		)
+	}
+	return bookedSlot ? (
+		<p className={classes.bookedText}>
+			<CalendarEvent size={16} />
+			Intervju: {formatInterviewSlot(bookedSlot)}
+		</p>
+	) : null
+}
+
+export default InterviewSlotSelect
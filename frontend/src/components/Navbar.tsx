@@ -11,9 +11,13 @@ import axios from 'axios'
 import { useLocation, useNavigate } from 'react-router-dom'
 import {
 	CalendarEvent,
+	CalendarTime,
 	FileText,
+	Forms,
+	History,
 	Home,
 	Logout,
+	Mail,
 	Users,
 } from 'tabler-icons-react'
 
@@ -171,16 +175,58 @@ function Navbar() {
 					>
 						Opptaksstatus
 					</Menu.Item>
+					<Menu.Item
+						icon={<CalendarTime size={18} />}
+						className={
+							location.pathname === '/interview-slots'
+								? classes.active
+								: classes.menuItemBody
+						}
+						onClick={() => navigate('/interview-slots')}
+					>
+						Intervjutider
+					</Menu.Item>
+					<Menu.Item
+						icon={<Mail size={18} />}
+						className={
+							location.pathname === '/email-templates'
+								? classes.active
+								: classes.menuItemBody
+						}
+						onClick={() => navigate('/email-templates')}
+					>
+						E-postmaler
+					</Menu.Item>
+					<Menu.Item
+						icon={<Forms size={18} />}
+						className={
+							location.pathname === '/committee-questions'
+								? classes.active
+								: classes.menuItemBody
+						}
+						onClick={() => navigate('/committee-questions')}
+					>
+						Søknadsspørsmål
+					</Menu.Item>
 					<Menu.Item
 						icon={<CalendarEvent size={18} />}
 						className={
-							location.pathname === '/admission-period'
+							location.pathname === '/admission-rounds'
 								? classes.active
 								: classes.menuItemBody
 						}
-						onClick={() => navigate('/admission-period')}
+						onClick={() => navigate('/admission-rounds')}
+					>
+						Opptaksrunder
+					</Menu.Item>
+					<Menu.Item
+						icon={<History size={18} />}
+						className={
+							location.pathname === '/audit' ? classes.active : classes.menuItemBody
+						}
+						onClick={() => navigate('/audit')}
 					>
-						Opptaksperiode
+						Revisjonslogg
 					</Menu.Item>
 					<Menu.Item
 						icon={<Logout size={18} />}
@@ -0,0 +1,129 @@
+import {
+	Checkbox,
+	createStyles,
+	InputWrapper,
+	Radio,
+	RadioGroup,
+	Textarea,
+	TextInput,
+} from '@mantine/core'
+import { AnswerValue, ICommitteeQuestion } from '../types/types'
+import { MAX_ANSWER_LENGTH } from '../utils/questions'
+
+const useStyles = createStyles(() => ({
+	label: {
+		fontSize: '1rem',
+		color: 'white',
+	},
+	input: {
+		backgroundColor: 'transparent',
+		color: 'white',
+	},
+	checkboxes: {
+		display: 'flex',
+		flexDirection: 'column',
+		gap: '0.3rem',
+		marginTop: '0.3rem',
+	},
+}))
+
+interface IQuestionInputProps {
+	question: ICommitteeQuestion
+	value: AnswerValue | undefined
+	onChange: (value: AnswerValue) => void
+	error?: string
+}
+
+// The input matching the type of a committee question
+function QuestionInput({
+	question,
+	value,
+	onChange,
+	error,
+}: IQuestionInputProps) {
+	const { classes } = useStyles()
+	const commonProps = {
+		label: question.question,
+		required: question.required,
+		error,
+		classNames: { label: classes.label },
+	}
+
+	switch (question.type) {
+		case 'short_text':
+			return (
+				<TextInput
+					{...commonProps}
+					classNames={{ label: classes.label, input: classes.input }}
+					maxLength={MAX_ANSWER_LENGTH.short_text}
+					value={typeof value === 'string' ? value : ''}
+					onChange={(event) => onChange(event.currentTarget.value)}
+				/>
+			)
+		case 'long_text':
+			return (
+				<Textarea
+					{...commonProps}
+					classNames={{ label: classes.label, input: classes.input }}
+					autosize
+					minRows={3}
+					maxRows={10}
+					maxLength={MAX_ANSWER_LENGTH.long_text}
+					value={typeof value === 'string' ? value : ''}
+					onChange={(event) => onChange(event.currentTarget.value)}
+				/>
+			)
+		case 'single_choice':
+			return (
+				<RadioGroup
+					{...commonProps}
+					orientation='vertical'
+					color='yellow'
+					value={typeof value === 'string' ? value : ''}
+					onChange={onChange}
+				>
+					{question.options.map((option) => (
+						<Radio key={option} value={option} label={option} />
+					))}
+				</RadioGroup>
+			)
+		case 'multiple_choice': {
+			const chosen = Array.isArray(value) ? value : []
+			return (
+				<InputWrapper {...commonProps}>
+					<div className={classes.checkboxes}>
+						{question.options.map((option) => (
+							<Checkbox
+								key={option}
+								color='yellow'
+								label={option}
+								checked={chosen.includes(option)}
+								onChange={(event) =>
+									onChange(
+										event.currentTarget.checked
+											? [...chosen, option]
+											: chosen.filter((other) => other !== option)
+									)
+								}
+							/>
+						))}
+					</div>
+				</InputWrapper>
+			)
+		}
+		default:
+			return (
+				<RadioGroup
+					{...commonProps}
+					color='yellow'
+					value={typeof value === 'boolean' ? (value ? 'ja' : 'nei') : ''}
+					onChange={(answer) => onChange(answer === 'ja')}
+				>
+					<Radio value='ja' label='Ja' />
+					<Radio value='nei' label='Nei' />
+				</RadioGroup>
+			)
+	}
+}
+
+export default QuestionInput
@@ -0,0 +1,119 @@
+import { Button, Collapse, createStyles, Loader, Timeline } from '@mantine/core'
+import dayjs from 'dayjs'
+import { useEffect, useState } from 'react'
+import { ChevronDown, ChevronUp } from 'tabler-icons-react'
+import { getStatusHistory } from '../services/Statuses'
+import { IStatusHistory } from '../types/types'
+import { getIconForStatus, getStatusTranslation } from '../utils/status'
+require('dayjs/locale/nb')
+
+const useStyles = createStyles((theme) => ({
+	toggleButton: {
+		padding: 0,
+		height: 'auto',
+		color: theme.colors.ntnui_yellow[9],
+		fontWeight: 'lighter',
+		'&:hover': {
+			background: 'transparent',
+			textDecoration: 'underline',
+		},
+	},
+	timeline: {
+		margin: '0.5rem 0 0 0.5rem',
+	},
+	itemTitle: {
+		color: 'white',
+		fontSize: 'small',
+	},
+	itemBody: {
+		color: theme.colors.gray[5],
+		fontSize: 'small',
+		margin: 0,
+	},
+	emptyText: {
+		fontSize: 'small',
+		color: theme.colors.gray[5],
+	},
+}))
+
+interface IStatusHistoryProps {
+	statusId: string
+	// Refetch the history when the status is updated
+	updatedDate: Date
+}
+
+function StatusHistory({ statusId, updatedDate }: IStatusHistoryProps) {
+	const { classes } = useStyles()
+	const [opened, setOpened] = useState<boolean>(false)
+	const [history, setHistory] = useState<IStatusHistory[]>([])
+	const [isLoading, setIsLoading] = useState<boolean>(false)
+	const [isError, setIsError] = useState<boolean>(false)
+
+	useEffect(() => {
+		if (!opened) return
+		const getStatusHistoryAsync = async () => {
+			setIsLoading(true)
+			try {
+				setHistory(await getStatusHistory(statusId))
+				setIsError(false)
+			} catch (error) {
+				setIsError(true)
+			}
+			setIsLoading(false)
+		}
+		getStatusHistoryAsync()
+	}, [opened, statusId, updatedDate])
+
+	return (
+		<>
+			<Button
+				variant='subtle'
+				size='xs'
+				className={classes.toggleButton}
+				rightIcon={opened ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+				onClick={() => setOpened(!opened)}
+			>
+				{opened ? 'Skjul historikk' : 'Vis historikk'}
+			</Button>
+			<Collapse in={opened}>
+				{isLoading && !history.length ? (
+					<Loader color='white' variant='dots' size='sm' />
+				) : isError ? (
+					<i className={classes.emptyText}>Kunne ikke hente historikk</i>
+				) : !history.length ? (
+					<i className={classes.emptyText}>Statusen har ikke blitt endret</i>
+				) : (
+					<Timeline
+						className={classes.timeline}
+						bulletSize={26}
+						lineWidth={2}
+						color='yellow'
+					>
+						{history.map((change) => (
+							<Timeline.Item
+								key={change._id}
+								bullet={getIconForStatus(change.value)}
+								title={
+									<span className={classes.itemTitle}>
+										{change.previous_value
+											? `${getStatusTranslation(
+													change.previous_value
+											  )} → ${getStatusTranslation(change.value)}`
+											: getStatusTranslation(change.value)}
+									</span>
+								}
+							>
+								<p className={classes.itemBody}>
+									{change.set_by},{' '}
+									{dayjs(change.set_date).locale('nb').format('D. MMM HH:mm')}
+								</p>
+							</Timeline.Item>
+						))}
+					</Timeline>
+				)}
+			</Collapse>
+		</>
+	)
+}
+
+export default StatusHistory
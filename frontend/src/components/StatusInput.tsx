@@ -6,7 +6,12 @@ import { forwardRef } from 'react'
 import { useState } from 'react'
 import { ChevronDown, X } from 'tabler-icons-react'
 
+import { IStatusTransitions } from '../services/Statuses'
+import { IInterviewSlot } from '../types/types'
 import StatusTypes from '../utils/enums'
+import StatusHistory from './StatusHistory'
+import InterviewSlotSelect from './InterviewSlotSelect'
+import InterviewLink from './InterviewLink'
 import {
 	getIconForStatus,
 	getStatusColor,
@@ -24,6 +29,9 @@ export interface IStatusInputProps {
 	}
 	updated_date: Date
 	allowedToChange: boolean
+	transitions: IStatusTransitions | null
+	applicationId: string
+	interview: IInterviewSlot | undefined
 }
 
 interface IStatusStyleProps {
@@ -70,16 +78,24 @@ function StatusInput({
 	committee,
 	updated_date,
 	allowedToChange,
+	transitions,
+	applicationId,
+	interview,
 }: IStatusInputProps) {
 	const [statusValue, setStatusValue] = useState<StatusTypes>(value)
 	const [setByValue, setSetByValue] = useState<string | null>(set_by)
 	const [updatedDateValue, setUpdatedDateValue] = useState<Date>(updated_date)
 	const { classes } = useStyles({ statusValue })
 	const [isLoading, setIsLoading] = useState<boolean>(false)
+	const [interviewLink, setInterviewLink] = useState<string | null>(null)
 	const notification = useNotifications()
 
 	const StatusOptions = () => {
-		return Object.values(StatusTypes).map((status: StatusTypes) => {
+		// Only offer the statuses the current status can legally be changed to
+		const legalStatuses = transitions
+			? [statusValue, ...(transitions[statusValue] || [])]
+			: Object.values(StatusTypes)
+		return legalStatuses.map((status: StatusTypes) => {
 			return {
 				value: status,
 				label: `${getStatusTranslation(status)}`,
@@ -99,13 +115,16 @@ function StatusInput({
 					const newStatus = res.data.status
 					setUpdatedDateValue(newStatus.updated_date)
 					setSetByValue(newStatus.set_by)
+					setInterviewLink(res.data.interview_link || null)
 				})
 				.catch((err) => {
 					setIsLoading(false)
 					notification.showNotification({
 						title: 'Kunne ikke endre status!',
 						message:
-							'En feil oppstod. Ta kontakt med sprint@ntnui.no dersom problemet vedvarer',
+							err.response?.status === 409
+								? 'Statusen kan ikke endres til den valgte statusen'
+								: 'En feil oppstod. Ta kontakt med sprint@ntnui.no dersom problemet vedvarer',
 						color: 'red',
 						autoClose: false,
 						icon: <X size={18} />,
@@ -165,6 +184,22 @@ function StatusInput({
 				}}
 				data={StatusOptions()}
 			/>
+			<InterviewSlotSelect
+				applicationId={applicationId}
+				committeeId={committee._id}
+				interview={interview}
+				canBook={
+					allowedToChange && statusValue === StatusTypes.INVITED_TO_INTERVIEW
+				}
+			/>
+			{allowedToChange && statusValue === StatusTypes.INVITED_TO_INTERVIEW && (
+				<InterviewLink
+					statusId={_id}
+					interviewLink={interviewLink}
+					setInterviewLink={setInterviewLink}
+				/>
+			)}
+			<StatusHistory statusId={_id} updatedDate={updatedDateValue} />
 		</>
 	)
 }
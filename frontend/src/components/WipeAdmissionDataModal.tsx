@@ -2,7 +2,7 @@ import { Box, Button, createStyles, TextInput } from '@mantine/core'
 import { Modal } from '@mantine/core'
 import { useForm } from '@mantine/form'
 import { useNotifications } from '@mantine/notifications'
-import { Check, Trash, X } from 'tabler-icons-react'
+import { Archive, Check, X } from 'tabler-icons-react'
 import { wipeApplicationData } from '../services/Applications'
 
 interface IWipeModal {
@@ -89,11 +89,16 @@ function WipeModal({ opened, setOpened }: IWipeModal) {
 	// Validate input
 	const form = useForm({
 		initialValues: {
+			name: '',
 			confirm: '',
 		},
 		validate: {
+			name: (value: string) =>
+				value.trim().length > 0 && value.length <= 100
+					? undefined
+					: 'Gi arkivet et navn på maks 100 tegn',
 			confirm: (value: string) =>
-				value === 'slett' ? undefined : 'Skriv inn "slett"',
+				value === 'arkiver' ? undefined : 'Skriv inn "arkiver"',
 		},
 	})
 
@@ -102,33 +107,42 @@ function WipeModal({ opened, setOpened }: IWipeModal) {
 		// Wipe app data
 		const notificationId = notifications.showNotification({
 			id: 'wipe-notification',
-			title: 'Sletter opptaksdata...',
+			title: 'Arkiverer opptaket...',
 			message: '',
 			loading: true,
 			autoClose: false,
 		})
 		try {
-			await wipeApplicationData()
+			await wipeApplicationData(form.values.name)
 			notifications.updateNotification(notificationId, {
 				id: notificationId,
 				loading: false,
 				color: 'green',
 				icon: <Check size={18} />,
-				title: 'Opptaksdata slettet!',
+				title: 'Opptaket er arkivert!',
 				message: '',
 				autoClose: 5000,
 			})
 			form.reset()
 			setOpened(false)
 		} catch (error: any) {
-			console.log(error.response.status)
 			if (error.response.status === 403) {
 				notifications.updateNotification(notificationId, {
 					id: notificationId,
 					loading: false,
 					color: 'red',
 					icon: <X size={18} />,
-					title: 'Du har ikke rettighetene til å slette opptaksdata!',
+					title: 'Du har ikke rettighetene til å arkivere opptaket!',
+					message: '',
+					autoClose: 6000,
+				})
+			} else if (error.response.status === 409) {
+				notifications.updateNotification(notificationId, {
+					id: notificationId,
+					loading: false,
+					color: 'red',
+					icon: <X size={18} />,
+					title: 'Det finnes allerede et arkiv med dette navnet!',
 					message: '',
 					autoClose: 6000,
 				})
@@ -138,8 +152,8 @@ function WipeModal({ opened, setOpened }: IWipeModal) {
 					loading: false,
 					color: 'red',
 					icon: <X size={18} />,
-					title: 'Noe gikk galt ved sletting av opptaksdata!',
-					message: `En feil oppstod ved sletting. Prøv igjen. Dersom det vedvarer ta kontakt med sprint@ntnui.no`,
+					title: 'Noe gikk galt ved arkivering av opptaket!',
+					message: `En feil oppstod ved arkivering. Prøv igjen. Dersom det vedvarer ta kontakt med sprint@ntnui.no`,
 					autoClose: 6000,
 				})
 			}
@@ -150,7 +164,7 @@ function WipeModal({ opened, setOpened }: IWipeModal) {
 		<Modal
 			title={
 				<h1>
-					<span>Slett</span> all opptaksdata
+					<span>Arkiver</span> opptaket
 				</h1>
 			}
 			size='lg'
@@ -164,20 +178,37 @@ function WipeModal({ opened, setOpened }: IWipeModal) {
 			}}
 		>
 			<p>Dette er ment å gjøres når man er ferdig med semesterets opptak.</p>
-			<p>Ved sletting av all opptaksdata slettes følgende:</p>
+			<p>Ved arkivering skjer følgende:</p>
 			<ul>
-				<li>Alle søknader som er sendt inn og tilhørende data</li>
-				<li>Alle kontoer i søknadssystemet som har logget inn</li>
+				<li>
+					Alle søknader, statuser og kommentarer, opptaksrundene som har startet og
+					hvilke utvalg som tok opp søkere, lagres i et arkiv som kan leses og
+					gjenopprettes
+				</li>
+				<li>
+					Opptaket tømmes, slik at et nytt opptak kan starte. Kommende opptaksrunder
+					beholdes
+				</li>
+				<li>Alle kontoer i søknadssystemet som har logget inn slettes</li>
 			</ul>
+			<p>Arkivet kan slettes permanent når oppbevaringstiden er ute.</p>
 
 			<form onSubmit={form.onSubmit(handleWipeApplicationData)}>
+				<TextInput
+					required
+					classNames={{ label: classes.labelText, input: classes.inputField }}
+					label='Navn på arkivet'
+					placeholder='For eksempel "Opptak høst 2022"'
+					onBlur={() => form.validateField('name')}
+					{...form.getInputProps('name')}
+				/>
 				<TextInput
 					required
 					classNames={{ label: classes.labelText, input: classes.inputField }}
 					label={
 						<>
 							Skriv
-							<span className={classes.slettSpan}> "slett" </span>
+							<span className={classes.slettSpan}> "arkiver" </span>
 							for å bekrefte
 						</>
 					}
@@ -196,9 +227,9 @@ function WipeModal({ opened, setOpened }: IWipeModal) {
 						type='submit'
 						onClick={handleWipeApplicationData}
 						className={classes.confirmButton}
-						leftIcon={<Trash size={18} />}
+						leftIcon={<Archive size={18} />}
 					>
-						Slett opptaksdata
+						Arkiver opptaket
 					</Button>
 				</Box>
 			</form>
@@ -0,0 +1,471 @@
+import {
+	Badge,
+	Button,
+	createStyles,
+	Loader,
+	MultiSelect,
+	TextInput,
+} from '@mantine/core'
+import { useEffect, useState } from 'react'
+import { useLocation, useNavigate } from 'react-router-dom'
+import { useForm } from '@mantine/form'
+import { DateRangePicker } from '@mantine/dates'
+import 'dayjs/locale/nb'
+import { Calendar, Check, Edit, Plus, Trash, X } from 'tabler-icons-react'
+import {
+	deleteAdmissionRound,
+	getAdmissionRounds,
+	postAdmissionRound,
+	putAdmissionRound,
+} from '../services/AdmissionRounds'
+import { getAllCommittees } from '../services/Committees'
+import { IUserPermissions } from '../services/User'
+import { IAdmissionRound, ICommittee } from '../types/types'
+import { DEFAULT_TIME_ZONE, parseDate } from '../utils/admissionWindow'
+import dayjs from 'dayjs'
+import { useNotifications } from '@mantine/notifications'
+
+const useStyles = createStyles((theme) => ({
+	pageWrapper: {
+		display: 'flex',
+		flexDirection: 'column',
+		justifyContent: 'center',
+		gap: '1rem',
+		margin: '0 auto 2rem auto',
+		width: '500px',
+		color: 'white',
+		'@media (max-width: 500px)': {
+			fontSize: 'small',
+			width: '90%',
+		},
+	},
+	header: {
+		textAlign: 'center',
+		h1: {
+			fontWeight: 'lighter',
+			margin: '1rem 0 0 0',
+		},
+		p: {
+			margin: '10px 0 0 0',
+		},
+	},
+	loaderWrapper: {
+		alignSelf: 'center',
+	},
+	input: {
+		backgroundColor: 'transparent',
+		color: 'white',
+		border: '2px solid ' + theme.colors.ntnui_yellow[9],
+	},
+	label: {
+		textAlign: 'left',
+		color: 'white',
+	},
+	dateRangeIcon: {
+		color: theme.colors.ntnui_yellow[9],
+	},
+	dateRangeRightSection: {
+		button: {
+			color: theme.colors.ntnui_yellow[9],
+		},
+	},
+	multiselectValue: {
+		background: theme.colors.ntnui_yellow[9],
+		color: theme.colors.ntnui_background[9],
+	},
+	roundForm: {
+		display: 'flex',
+		flexDirection: 'column',
+		gap: '0.5rem',
+		padding: '1rem',
+		borderRadius: theme.radius.sm,
+		backgroundColor: theme.colors.ntnui_background[9],
+	},
+	round: {
+		display: 'flex',
+		flexDirection: 'column',
+		gap: '0.3rem',
+		padding: '1rem',
+		border: '2px solid ' + theme.colors.ntnui_yellow[9],
+		borderRadius: theme.radius.sm,
+		h2: {
+			fontWeight: 'normal',
+			margin: 0,
+		},
+		p: {
+			margin: 0,
+		},
+	},
+	roundHeader: {
+		display: 'flex',
+		flexWrap: 'wrap',
+		alignItems: 'center',
+		gap: '0.5rem',
+	},
+	details: {
+		fontSize: 'small',
+		color: theme.colors.gray[5],
+	},
+	buttonWrapper: {
+		margin: '0.5rem 0 0 0',
+		width: '100%',
+		display: 'flex',
+		gap: '10px',
+	},
+	cancelButton: {
+		width: '100%',
+		backgroundColor: theme.colors.ntnui_blue[9],
+		transition: '0.3s',
+		border: '2px solid' + theme.colors.ntnui_blue[9],
+		':hover': {
+			border: '2px solid' + theme.colors.ntnui_blue[9],
+			color: theme.colors.ntnui_blue[9],
+			backgroundColor: 'transparent',
+		},
+	},
+	confirmButton: {
+		width: '100%',
+		backgroundColor: theme.colors.ntnui_green[9],
+		transition: '0.3s',
+		border: '2px solid' + theme.colors.ntnui_green[9],
+		':hover': {
+			border: '2px solid' + theme.colors.ntnui_green[9],
+			color: theme.colors.ntnui_green[9],
+			backgroundColor: 'transparent',
+		},
+	},
+	deleteButton: {
+		width: '100%',
+		backgroundColor: theme.colors.ntnui_red[9],
+	},
+}))
+
+interface stateType {
+	permissions: IUserPermissions
+}
+
+// 'new' while creating a round, otherwise the id of the round being edited
+type Editing = 'new' | string | null
+
+function getRoundState(round: IAdmissionRound) {
+	const now = new Date()
+	if (new Date(round.closes_at) <= now) {
+		return { label: 'Avsluttet', color: 'gray' }
+	}
+	if (new Date(round.opens_at) > now) {
+		return { label: 'Kommende', color: 'blue' }
+	}
+	return { label: 'Aktiv', color: 'green' }
+}
+
+function formatDate(date: string) {
+	return dayjs(date).locale('nb').format('D. MMMM YYYY')
+}
+
+function AdmissionRounds() {
+	const { classes } = useStyles()
+	const navigate = useNavigate()
+	const location = useLocation()
+	const notifications = useNotifications()
+	const [isLoading, setIsLoading] = useState<boolean>(true)
+	const [isSaving, setIsSaving] = useState<boolean>(false)
+	const [rounds, setRounds] = useState<IAdmissionRound[]>([])
+	const [committees, setCommittees] = useState<ICommittee[]>([])
+	const [editing, setEditing] = useState<Editing>(null)
+	const [loadFailed, setLoadFailed] = useState<boolean>(false)
+
+	const form = useForm({
+		initialValues: {
+			name: '',
+			dateRangeInput: [null, null] as [Date | null, Date | null],
+			committees: [] as string[],
+			timeZone: DEFAULT_TIME_ZONE,
+		},
+		validate: {
+			name: (value) =>
+				value.trim().length > 0 && value.length <= 100
+					? null
+					: 'Navnet må være mellom 1 og 100 tegn',
+			dateRangeInput: (value) =>
+				!value[0] || !value[1] ? 'Du må velge to datoer' : null,
+			committees: (value) => (value.length ? null : 'Velg minst ett utvalg'),
+			timeZone: (value) =>
+				value.trim().length > 0 ? null : 'Du må velge en tidssone',
+		},
+	})
+
+	useEffect(() => {
+		const getAdmissionRoundsAsync = async () => {
+			try {
+				// If not allowed to manage the rounds, redirect to dashboard
+				const locationState = location.state as stateType
+				if (!locationState.permissions.manage_admission_rounds) {
+					navigate('/dashboard')
+					return
+				}
+				const [allRounds, allCommittees] = await Promise.all([
+					getAdmissionRounds(),
+					getAllCommittees(),
+				])
+				setRounds(allRounds)
+				setCommittees(
+					allCommittees.filter((committee) =>
+						locationState.permissions.application_committees.includes(committee._id)
+					)
+				)
+			} catch (error: any) {
+				if (error.response?.status === 401) {
+					navigate('/login')
+				} else {
+					setLoadFailed(true)
+				}
+			}
+			setIsLoading(false)
+		}
+		getAdmissionRoundsAsync()
+	}, [location.state, navigate])
+
+	const startEditing = (round: IAdmissionRound | null) => {
+		form.setValues({
+			name: round?.name || '',
+			dateRangeInput: round
+				? [parseDate(round.start_date), parseDate(round.end_date)]
+				: [null, null],
+			timeZone: round?.time_zone || DEFAULT_TIME_ZONE,
+			committees: round
+				? round.committees.map(String)
+				: committees.map((committee) => committee._id.toString()),
+		})
+		setEditing(round ? round._id : 'new')
+	}
+
+	const showError = (title: string, message: string) =>
+		notifications.showNotification({
+			color: 'red',
+			icon: <X size={18} />,
+			title,
+			message,
+			autoClose: false,
+		})
+
+	const saveRound = async () => {
+		if (form.validate().hasErrors || !editing) return
+		const [start, end] = form.values.dateRangeInput
+		const admissionRound = {
+			name: form.values.name.trim(),
+			start_date: dayjs(start).format('YYYY-MM-DD'),
+			end_date: dayjs(end).format('YYYY-MM-DD'),
+			time_zone: form.values.timeZone.trim(),
+			committees: form.values.committees.map(Number),
+		}
+		setIsSaving(true)
+		try {
+			if (editing === 'new') {
+				const newRound = await postAdmissionRound(admissionRound)
+				setRounds([{ ...newRound, number_of_applications: 0 }, ...rounds])
+			} else {
+				const updatedRound = await putAdmissionRound(editing, admissionRound)
+				setRounds(
+					rounds.map((round) =>
+						round._id === editing
+							? {
+									...updatedRound,
+									number_of_applications: round.number_of_applications,
+							  }
+							: round
+					)
+				)
+			}
+			notifications.showNotification({
+				color: 'green',
+				icon: <Check size={18} />,
+				title: `Opptaksrunde ${editing === 'new' ? 'opprettet' : 'oppdatert'}!`,
+				message: '',
+				autoClose: 5000,
+			})
+			setEditing(null)
+		} catch (error: any) {
+			if (error.response?.status === 409) {
+				showError(
+					'Opptaksrunden overlapper med en annen runde!',
+					'Det kan bare være én aktiv opptaksrunde om gangen'
+				)
+			} else if (error.response?.status === 400) {
+				showError(
+					'Opptaksrunden er ugyldig!',
+					'Sjekk at datoene og tidssonen er riktige, for eksempel Europe/Oslo'
+				)
+			} else if (error.response?.status === 403) {
+				showError(
+					'Du har ikke tilgang til å endre opptaksrundene!',
+					'Du må være i Hovedstyret for å kunne endre opptaksrundene'
+				)
+			} else {
+				showError('En feil oppstod!', 'Kunne ikke lagre opptaksrunden')
+			}
+		}
+		setIsSaving(false)
+	}
+
+	const removeRound = async (round: IAdmissionRound) => {
+		try {
+			await deleteAdmissionRound(round._id)
+			setRounds(rounds.filter((other) => other._id !== round._id))
+		} catch (error) {
+			showError('En feil oppstod!', 'Kunne ikke slette opptaksrunden')
+		}
+	}
+
+	const committeeNames = (round: IAdmissionRound) =>
+		round.committees
+			.map((id) => committees.find((committee) => committee._id === id)?.name)
+			.filter(Boolean)
+			.join(', ')
+
+	const roundForm = (
+		<div className={classes.roundForm}>
+			<TextInput
+				label='Navn'
+				placeholder='For eksempel "Opptak høst 2022"'
+				classNames={{ input: classes.input, label: classes.label }}
+				{...form.getInputProps('name')}
+			/>
+			<DateRangePicker
+				locale='nb'
+				amountOfMonths={1}
+				icon={<Calendar />}
+				closeCalendarOnChange={false}
+				classNames={{
+					input: classes.input,
+					label: classes.label,
+					icon: classes.dateRangeIcon,
+					rightSection: classes.dateRangeRightSection,
+				}}
+				label='Opptaksperiode'
+				placeholder='Velg en tidsperiode'
+				{...form.getInputProps('dateRangeInput')}
+			/>
+			<TextInput
+				label='Tidssone'
+				description='Runden åpner ved midnatt på startdatoen og stenger ved midnatt etter sluttdatoen'
+				placeholder={DEFAULT_TIME_ZONE}
+				classNames={{ input: classes.input, label: classes.label }}
+				{...form.getInputProps('timeZone')}
+			/>
+			<MultiSelect
+				label='Utvalg med opptak'
+				data={committees.map((committee) => ({
+					value: committee._id.toString(),
+					label: committee.name,
+				}))}
+				searchable
+				clearable
+				classNames={{
+					input: classes.input,
+					label: classes.label,
+					value: classes.multiselectValue,
+				}}
+				{...form.getInputProps('committees')}
+			/>
+			<div className={classes.buttonWrapper}>
+				<Button
+					className={classes.cancelButton}
+					leftIcon={<X />}
+					onClick={() => setEditing(null)}
+				>
+					Avbryt
+				</Button>
+				<Button
+					className={classes.confirmButton}
+					leftIcon={<Check />}
+					disabled={isSaving}
+					onClick={saveRound}
+				>
+					Lagre
+				</Button>
+			</div>
+		</div>
+	)
+
+	return (
+		<div className={classes.pageWrapper}>
+			<div className={classes.header}>
+				<h1>Opptaksrunder</h1>
+				<p>
+					Opptaksrundene bestemmer når studenter har mulighet til å sende inn søknad,
+					og hvilke utvalg de kan søke til.
+				</p>
+			</div>
+			{isLoading ? (
+				<div className={classes.loaderWrapper}>
+					<Loader color='yellow' variant='dots' />
+				</div>
+			) : loadFailed ? (
+				<p className={classes.details}>
+					Kunne ikke hente opptaksrundene. Ta kontakt med sprint@ntnui.no dersom
+					problemet vedvarer
+				</p>
+			) : (
+				<>
+					{editing === 'new' ? (
+						roundForm
+					) : (
+						<Button
+							className={classes.confirmButton}
+							leftIcon={<Plus />}
+							onClick={() => startEditing(null)}
+						>
+							Ny opptaksrunde
+						</Button>
+					)}
+					{rounds.map((round) =>
+						editing === round._id ? (
+							<div key={round._id}>{roundForm}</div>
+						) : (
+							<div key={round._id} className={classes.round}>
+								<div className={classes.roundHeader}>
+									<h2>{round.name}</h2>
+									<Badge color={getRoundState(round).color}>
+										{getRoundState(round).label}
+									</Badge>
+								</div>
+								<p>
+									{formatDate(round.start_date)} – {formatDate(round.end_date)}
+								</p>
+								<p className={classes.details}>Tidssone: {round.time_zone}</p>
+								<p className={classes.details}>{committeeNames(round)}</p>
+								<p className={classes.details}>
+									{round.number_of_applications || 0} søknader
+								</p>
+								<div className={classes.buttonWrapper}>
+									<Button
+										className={classes.cancelButton}
+										leftIcon={<Edit />}
+										onClick={() => startEditing(round)}
+									>
+										Endre
+									</Button>
+									<Button
+										className={classes.deleteButton}
+										leftIcon={<Trash />}
+										disabled={!!round.number_of_applications}
+										title={
+											round.number_of_applications
+												? 'Runder med søknader kan ikke slettes'
+												: undefined
+										}
+										onClick={() => removeRound(round)}
+									>
+										Slett
+									</Button>
+								</div>
+							</div>
+						)
+					)}
+				</>
+			)}
+		</div>
+	)
+}
+
+export default AdmissionRounds
@@ -4,12 +4,9 @@ import { useEffect, useState } from 'react'
 import { useLocation, useNavigate } from 'react-router-dom'
 import { AlertTriangle, X } from 'tabler-icons-react'
 import CommitteeSwitch from '../components/CommitteeSwitch'
-import { getAdmissionPeriod } from '../services/Applications'
-import {
-	getAllCommittees,
-	getUserCommittees,
-	IRoleInCommittee,
-} from '../services/Committees'
+import { getActiveAdmissionRound } from '../services/AdmissionRounds'
+import { getAllCommittees } from '../services/Committees'
+import { IUserPermissions } from '../services/User'
 
 import { ICommittee } from '../types/types'
 
@@ -99,8 +96,7 @@ const useStyles = createStyles((theme) => ({
 }))
 
 interface stateType {
-	isOrganizer: boolean
-	isElectionCommittee: boolean
+	permissions: IUserPermissions
 }
 
 function AdmissionStatus() {
@@ -133,36 +129,13 @@ function AdmissionStatus() {
 		setIsLoading(true)
 		async function getCommittees() {
 			try {
-				let allCommittees: ICommittee[] = []
 				const locationState = location.state as stateType
-				// Organizers see all committee-statuses except main board
-				if (locationState.isOrganizer) {
-					allCommittees = await getAllCommittees()
-					allCommittees = allCommittees.filter((committee: ICommittee) => {
-						return (
-							committee.slug !== 'valgkomiteen' && committee.slug !== 'hovedstyret'
-						)
-					})
-					// Election committee can see main board
-				} else if (locationState.isElectionCommittee) {
-					allCommittees = await getAllCommittees()
-					allCommittees = allCommittees.filter((committee: ICommittee) => {
-						return committee.slug === 'hovedstyret'
-					})
-					// Include the users other committees
-					const committeesRes = await getUserCommittees()
-					committeesRes.forEach((item: IRoleInCommittee) => {
-						if (item.committee.slug !== 'valgkomiteen') {
-							allCommittees.push(item.committee)
-						}
-					})
-				} else {
-					const committeesRes = await getUserCommittees()
-					committeesRes.forEach((item: IRoleInCommittee) => {
-						allCommittees.push(item.committee)
-					})
-				}
-				setCommittees(allCommittees)
+				// Only the committees the user can open and close admissions for
+				const admissionCommittees = (await getAllCommittees()).filter(
+					(committee: ICommittee) =>
+						locationState.permissions.admission_committees.includes(committee._id)
+				)
+				setCommittees(admissionCommittees)
 				setIsLoading(false)
 			} catch (error: any) {
 				if (error.response.status === 401) {
@@ -184,15 +157,17 @@ function AdmissionStatus() {
 	}, [])
 
 	useEffect(() => {
-		async function getAdmissionPeriodData() {
+		async function getAdmissionRoundData() {
 			try {
-				const admissionPeriodData = await getAdmissionPeriod()
-				setFromPeriod(admissionPeriodData.admissionPeriod.start_date)
-				setToPeriod(admissionPeriodData.admissionPeriod.end_date)
-			} catch (error: any) {
-				if (error.response.status === 404) {
+				const admissionRound = await getActiveAdmissionRound()
+				if (admissionRound) {
+					setFromPeriod(admissionRound.start_date)
+					setToPeriod(admissionRound.end_date)
+				} else {
 					setPeriodIsMissing(true)
-				} else if (error.response.status === 500) {
+				}
+			} catch (error: any) {
+				if (error.response.status === 500) {
 					setIsError(true)
 					setErrorMessage('Det skjedde en feil på serveren')
 				} else {
@@ -203,7 +178,7 @@ function AdmissionStatus() {
 			}
 		}
 
-		getAdmissionPeriodData()
+		getAdmissionRoundData()
 	}, [navigate])
 
 	return (
@@ -230,8 +205,8 @@ function AdmissionStatus() {
 					) : (
 						<div className={classes.text}>
 							<AlertTriangle size={35} className={classes.warningAlertIcon} /> <br />
-							Opptaksperioden er ikke satt. Når den er satt vil søknader kunne sendes
-							til ditt utvalg dersom det er åpent.
+							Det er ingen aktiv opptaksrunde. Når en runde starter vil søknader kunne
+							sendes til ditt utvalg dersom det er med i runden og er åpent.
 						</div>
 					)}
 
@@ -0,0 +1,378 @@
+import {
+	Badge,
+	Box,
+	Button,
+	createStyles,
+	Loader,
+	Modal,
+	Textarea,
+	TextInput,
+} from '@mantine/core'
+import { useNotifications } from '@mantine/notifications'
+import dayjs from 'dayjs'
+import { useEffect, useState } from 'react'
+import { useParams } from 'react-router-dom'
+import {
+	Check,
+	DeviceFloppy,
+	FileText,
+	Mail,
+	Paperclip,
+	UserMinus,
+	X,
+} from 'tabler-icons-react'
+import {
+	getApplicantPortal,
+	postApplicantPortalLink,
+	postApplicantPortalWithdrawal,
+	putApplicantPortalText,
+} from '../services/ApplicantPortal'
+import { IApplicantPortal } from '../types/types'
+import { formatAnswer } from '../utils/questions'
+
+const useStyles = createStyles((theme) => ({
+	header: {
+		display: 'flex',
+		flexDirection: 'column',
+		alignItems: 'center',
+		margin: '2rem 0',
+		h1: {
+			color: 'white',
+			fontWeight: 'lighter',
+			fontSize: 'x-large',
+			margin: '-10px 0 0 0',
+		},
+		img: {
+			height: '100px',
+		},
+	},
+	portalWrapper: {
+		display: 'flex',
+		flexDirection: 'column',
+		gap: '0.5rem',
+		width: '35%',
+		margin: 'auto auto 2rem auto',
+		padding: '1rem 2rem 2rem 2rem',
+		border: '2px solid ' + theme.colors.ntnui_yellow[9],
+		boxShadow: '0rem 0rem 1rem 0.4rem ' + theme.colors.dark[7],
+		borderRadius: '20px',
+		color: 'white',
+		h2: {
+			fontWeight: 'lighter',
+			fontSize: 'large',
+			margin: '1rem 0 0 0',
+		},
+		p: {
+			margin: 0,
+			whiteSpace: 'pre-wrap',
+			wordBreak: 'break-word',
+		},
+		'@media (max-width: 1200px)': {
+			width: '60%',
+		},
+		'@media (max-width: 700px)': {
+			width: '85%',
+			border: 'none',
+			boxShadow: 'none',
+			padding: '1rem',
+		},
+	},
+	title: {
+		fontWeight: 'lighter',
+		fontSize: 'x-large',
+		textAlign: 'center',
+		'*': {
+			// Icon
+			margin: '0 0 -3px 0',
+		},
+	},
+	committee: {
+		display: 'flex',
+		alignItems: 'center',
+		gap: '0.5rem',
+		padding: '0.5rem 1rem',
+		border: '1px solid ' + theme.colors.gray[7],
+		borderRadius: theme.radius.sm,
+		span: {
+			flexGrow: 1,
+		},
+	},
+	input: {
+		backgroundColor: 'transparent',
+		color: 'white',
+	},
+	label: {
+		color: 'white',
+	},
+	saveButton: {
+		alignSelf: 'flex-end',
+		backgroundColor: theme.colors.ntnui_green[9],
+	},
+	withdrawButton: {
+		backgroundColor: theme.colors.ntnui_red[9],
+	},
+	cancelButton: {
+		backgroundColor: theme.colors.ntnui_blue[9],
+	},
+	modalButtons: {
+		display: 'flex',
+		justifyContent: 'flex-end',
+		gap: '0.5rem',
+		marginTop: '1rem',
+	},
+	infoText: {
+		textAlign: 'center',
+		color: theme.colors.gray[5],
+	},
+	loading: {
+		margin: 'auto',
+		width: '100%',
+	},
+}))
+
+// Lets applicants who have lost the link get a new one by mail
+function RequestPortalLink() {
+	const { classes } = useStyles()
+	const [email, setEmail] = useState<string>('')
+	const [isSent, setIsSent] = useState<boolean>(false)
+	const [isSending, setIsSending] = useState<boolean>(false)
+
+	async function requestLink() {
+		if (!/^\S+@\S+$/.test(email)) return
+		setIsSending(true)
+		try {
+			await postApplicantPortalLink(email)
+		} catch (error) {
+			// The applicant is told the same either way
+		}
+		setIsSent(true)
+		setIsSending(false)
+	}
+
+	return (
+		<Box className={classes.portalWrapper}>
+			<h1 className={classes.title}>
+				<FileText /> Din søknad
+			</h1>
+			{isSent ? (
+				<p className={classes.infoText}>
+					Har du sendt en søknad fra {email}, har vi sendt deg en lenke til den.
+				</p>
+			) : (
+				<>
+					<p>
+						Skriv e-postadressen du søkte med, så sender vi deg en lenke der du kan se
+						søknaden din.
+					</p>
+					<TextInput
+						label='E-post'
+						type='email'
+						autoComplete='email'
+						value={email}
+						onChange={(event) => setEmail(event.currentTarget.value)}
+						classNames={{ input: classes.input, label: classes.label }}
+					/>
+					<Button
+						className={classes.saveButton}
+						leftIcon={<Mail size={18} />}
+						loading={isSending}
+						onClick={requestLink}
+					>
+						Send lenke
+					</Button>
+				</>
+			)}
+		</Box>
+	)
+}
+
+function ApplicantPortal() {
+	const { classes } = useStyles()
+	const { token } = useParams()
+	const notifications = useNotifications()
+	const [application, setApplication] = useState<IApplicantPortal | null>(null)
+	const [text, setText] = useState<string>('')
+	const [isLoading, setIsLoading] = useState<boolean>(true)
+	const [isSaving, setIsSaving] = useState<boolean>(false)
+	const [withdrawing, setWithdrawing] = useState<
+		IApplicantPortal['committees'][number] | null
+	>(null)
+
+	useEffect(() => {
+		const getApplicationAsync = async () => {
+			if (!token) return
+			setIsLoading(true)
+			try {
+				const response = await getApplicantPortal(token)
+				setApplication(response)
+				setText(response.text || '')
+			} catch (error) {
+				setApplication(null)
+			}
+			setIsLoading(false)
+		}
+		getApplicationAsync()
+	}, [token])
+
+	const showError = (title: string) =>
+		notifications.showNotification({
+			title,
+			message:
+				'En feil oppstod. Ta kontakt med sprint@ntnui.no dersom problemet vedvarer',
+			color: 'red',
+			autoClose: false,
+			icon: <X size={18} />,
+		})
+
+	async function saveText() {
+		if (!token || !application || text.trim().length > 2500) return
+		setIsSaving(true)
+		try {
+			const savedText = await putApplicantPortalText(token, text)
+			setApplication({ ...application, text: savedText })
+			notifications.showNotification({
+				title: 'Søknadsteksten er lagret!',
+				message: '',
+				color: 'green',
+				icon: <Check size={18} />,
+				autoClose: 3000,
+			})
+		} catch (error) {
+			showError('Kunne ikke lagre søknadsteksten!')
+		}
+		setIsSaving(false)
+	}
+
+	async function withdraw() {
+		if (!token || !application || !withdrawing) return
+		try {
+			await postApplicantPortalWithdrawal(token, withdrawing._id)
+			setApplication({
+				...application,
+				committees: application.committees.map((committee) =>
+					committee._id === withdrawing._id
+						? { ...committee, withdrawn: true, can_withdraw: false }
+						: committee
+				),
+			})
+		} catch (error) {
+			showError('Kunne ikke trekke søknaden!')
+		}
+		setWithdrawing(null)
+	}
+
+	return (
+		<>
+			<Box className={classes.header}>
+				<img alt='NTNUI logo' src='/images/ntnui.svg' />
+				<h1>OPPTAK</h1>
+			</Box>
+			{!token ? (
+				<RequestPortalLink />
+			) : isLoading ? (
+				<Loader size='xl' color='yellow' className={classes.loading} />
+			) : !application ? (
+				<Box className={classes.portalWrapper}>
+					<h1 className={classes.title}>Lenken er ugyldig</h1>
+					<p className={classes.infoText}>
+						Lenken kan være utløpt. Du kan få en ny lenke på{' '}
+						<a href='/my-application'>denne siden</a>.
+					</p>
+				</Box>
+			) : (
+				<Box className={classes.portalWrapper}>
+					<h1 className={classes.title}>
+						<FileText /> Søknad fra {application.name}
+					</h1>
+					<p>
+						Sendt {dayjs(application.submitted_date).format('DD.MM.YYYY HH:mm')}
+						<br />
+						{application.email} · {application.phone_number}
+					</p>
+					<h2>Utvalg du har søkt</h2>
+					{application.committees.map((committee) => (
+						<div key={committee._id} className={classes.committee}>
+							<span>{committee.name}</span>
+							{committee.withdrawn ? (
+								<Badge color='gray'>Trukket</Badge>
+							) : (
+								committee.can_withdraw && (
+									<Button
+										size='xs'
+										className={classes.withdrawButton}
+										leftIcon={<UserMinus size={14} />}
+										onClick={() => setWithdrawing(committee)}
+									>
+										Trekk søknad
+									</Button>
+								)
+							)}
+						</div>
+					))}
+					<h2>Søknadstekst</h2>
+					{application.can_edit ? (
+						<>
+							<Textarea
+								autosize
+								minRows={3}
+								maxRows={15}
+								value={text}
+								error={text.trim().length > 2500 && 'Maks 2500 tegn'}
+								onChange={(event) => setText(event.currentTarget.value)}
+								classNames={{ input: classes.input }}
+							/>
+							<Button
+								className={classes.saveButton}
+								leftIcon={<DeviceFloppy size={18} />}
+								loading={isSaving}
+								disabled={text === application.text}
+								onClick={saveText}
+							>
+								Lagre
+							</Button>
+						</>
+					) : (
+						<p>{application.text || <i>Ingen søknadstekst</i>}</p>
+					)}
+					{application.answers.map((answer) => (
+						<div key={answer.question}>
+							<b>{answer.question_text}</b>
+							<p>{formatAnswer(answer.value)}</p>
+						</div>
+					))}
+					{!!application.attachments.length && (
+						<>
+							<h2>Vedlegg</h2>
+							{application.attachments.map((attachment) => (
+								<p key={attachment.file_name}>
+									<Paperclip size={14} /> {attachment.file_name}
+								</p>
+							))}
+						</>
+					)}
+				</Box>
+			)}
+			<Modal
+				centered
+				opened={!!withdrawing}
+				onClose={() => setWithdrawing(null)}
+				title={`Trekke søknaden til ${withdrawing?.name}?`}
+			>
+				Utvalget vil ikke lenger behandle søknaden din. Dette kan ikke angres.
+				<div className={classes.modalButtons}>
+					<Button
+						className={classes.cancelButton}
+						onClick={() => setWithdrawing(null)}
+					>
+						Avbryt
+					</Button>
+					<Button className={classes.withdrawButton} onClick={withdraw}>
+						Trekk søknad
+					</Button>
+				</div>
+			</Modal>
+		</>
+	)
+}
+
+export default ApplicantPortal
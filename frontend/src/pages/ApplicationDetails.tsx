@@ -1,22 +1,41 @@
 import { Box, Button, createStyles, Loader } from '@mantine/core'
+import { useNotifications } from '@mantine/notifications'
 import { useEffect, useState } from 'react'
-import { useNavigate, useParams } from 'react-router-dom'
+import { useLocation, useNavigate, useParams } from 'react-router-dom'
 import {
 	AlertTriangle,
 	AlignJustified,
 	ArrowLeft,
 	ClipboardList,
 	Clock,
+	FileDownload,
 	Mail,
+	Paperclip,
 	Phone,
 	User,
 	Gavel,
+	X,
 } from 'tabler-icons-react'
 import CommitteBanner from '../components/CommitteeBanner'
+import CommentSection from '../components/CommentSection'
+import DuplicateBanner from '../components/DuplicateBanner'
 import StatusInput from '../components/StatusInput'
-import { getApplication } from '../services/Applications'
-import { getUserCommittees, IRoleInCommittee } from '../services/Committees'
-import { IApplication, IStatus } from '../types/types'
+import {
+	getApplication,
+	getApplicationAttachment,
+	getApplicationPdf,
+} from '../services/Applications'
+import { getStatusTransitions, IStatusTransitions } from '../services/Statuses'
+import { getApplicationInterviews } from '../services/Interviews'
+import { IUserPermissions } from '../services/User'
+import {
+	IApplication,
+	IApplicationAttachment,
+	IInterviewSlot,
+	IStatus,
+} from '../types/types'
+import saveFile from '../utils/download'
+import { formatAnswer } from '../utils/questions'
 
 interface IStatusesStyleProps {
 	amountOfStatuses: number
@@ -56,6 +75,20 @@ const useStyles = createStyles(
 				display: 'none',
 			},
 		},
+		pdfButton: {
+			gridColumn: 3,
+			justifySelf: 'end',
+			backgroundColor: 'transparent',
+			border: '2px solid' + theme.colors.ntnui_yellow[9],
+			color: theme.colors.ntnui_yellow[9],
+			'&:hover': {
+				backgroundColor: theme.colors.ntnui_yellow[9] + '33',
+			},
+			'@media (max-width: 900px)': {
+				gridColumn: 1,
+				justifySelf: 'center',
+			},
+		},
 		headerText: {
 			gridColumn: 2,
 			textAlign: 'center',
@@ -179,6 +212,26 @@ const useStyles = createStyles(
 				padding: '0',
 			},
 		},
+		answers: {
+			marginTop: '1.5rem',
+			display: 'flex',
+			flexDirection: 'column',
+			gap: '0.5rem',
+			h3: {
+				fontWeight: 'normal',
+				margin: 0,
+			},
+			p: {
+				whiteSpace: 'pre-wrap',
+			},
+		},
+		attachmentButton: {
+			alignSelf: 'flex-start',
+			color: theme.colors.ntnui_yellow[9],
+			'&:hover': {
+				backgroundColor: theme.colors.ntnui_yellow[9] + '33',
+			},
+		},
 		sectionTitle: {
 			margin: '0 0 1rem 0',
 			fontWeight: 'lighter',
@@ -211,20 +264,28 @@ const useStyles = createStyles(
 	})
 )
 
+interface stateType {
+	permissions: IUserPermissions
+}
+
 function YellowDotLoader() {
 	return <Loader color='white' variant='dots' />
 }
 
 function ApplicationDetailPage() {
 	const navigate = useNavigate()
+	const location = useLocation()
 	const [application, setApplication] = useState<IApplication | null>(null)
 	const [amountOfStatuses, setAmountOfStatuses] = useState<number>(0)
 	const { classes } = useStyles({ amountOfStatuses })
-	const [userCommitteeIds, setUserCommitteeIds] = useState<number[]>([])
-	const [userCommittees, setUserCommittees] = useState<IRoleInCommittee[]>([])
+	const [statusTransitions, setStatusTransitions] =
+		useState<IStatusTransitions | null>(null)
+	const [interviews, setInterviews] = useState<IInterviewSlot[]>([])
 	const [isLoading, setIsLoading] = useState<boolean>(false)
 	const [isError, setIsError] = useState<boolean>(false)
 	const [errorMessage, setErrorMessage] = useState('')
+	const [isDownloading, setIsDownloading] = useState<boolean>(false)
+	const notifications = useNotifications()
 	const { id } = useParams()
 
 	useEffect(() => {
@@ -234,11 +295,8 @@ function ApplicationDetailPage() {
 				try {
 					const response = await getApplication(id)
 					setApplication(response.application)
-					const userCommitteesRes = await getUserCommittees()
-					setUserCommitteeIds(
-						userCommitteesRes.map((committee) => committee.committee._id)
-					)
-					setUserCommittees(userCommitteesRes)
+					setStatusTransitions(await getStatusTransitions())
+					setInterviews(await getApplicationInterviews(id))
 					setIsLoading(false)
 					setAmountOfStatuses(response.application.statuses.length)
 				} catch (error: any) {
@@ -258,6 +316,42 @@ function ApplicationDetailPage() {
 		}
 	}, [id, navigate])
 
+	async function downloadAttachment(attachment: IApplicationAttachment) {
+		if (!id) return
+		try {
+			const file = await getApplicationAttachment(id, attachment._id)
+			saveFile(file, attachment.file_name)
+		} catch (error) {
+			notifications.showNotification({
+				title: 'Kunne ikke laste ned vedlegget!',
+				message:
+					'En feil oppstod. Ta kontakt med sprint@ntnui.no dersom problemet vedvarer',
+				color: 'red',
+				autoClose: false,
+				icon: <X size={18} />,
+			})
+		}
+	}
+
+	async function downloadPdf() {
+		if (!id || !application) return
+		setIsDownloading(true)
+		try {
+			const pdf = await getApplicationPdf(id)
+			saveFile(pdf, `soknad-${application.name}.pdf`)
+		} catch (error) {
+			notifications.showNotification({
+				title: 'Kunne ikke laste ned PDF!',
+				message:
+					'En feil oppstod. Ta kontakt med sprint@ntnui.no dersom problemet vedvarer',
+				color: 'red',
+				autoClose: false,
+				icon: <X size={18} />,
+			})
+		}
+		setIsDownloading(false)
+	}
+
 	function stringifyDate(date: Date) {
 		return new Date(date).toLocaleString('no-NO', {
 			month: 'long',
@@ -273,19 +367,12 @@ function ApplicationDetailPage() {
 	}
 
 	function statusByRelevancy(statuses: IStatus[]): IStatusWithRelevancy[] {
-		const isUserInElectionCommittee = userCommittees.some(
-			(roleInCommittee: IRoleInCommittee) => {
-				return roleInCommittee.committee.slug === 'valgkomiteen'
-			}
-		)
+		const locationState = location.state as stateType
+		const managedCommittees = locationState.permissions.managed_committees
 		const statByRel = statuses
 			.map((status) => {
 				// If the status can be edited by the user, it should be shown on the top
-				const isStatusForMainBoard = status.committee.name === 'Hovedstyret'
-				if (
-					userCommitteeIds.includes(status.committee._id) ||
-					(isUserInElectionCommittee && isStatusForMainBoard)
-				) {
+				if (managedCommittees.includes(status.committee._id)) {
 					return { status, isRelevant: true }
 				}
 				return { status, isRelevant: false }
@@ -322,12 +409,25 @@ function ApplicationDetailPage() {
 								{isLoading || !application ? <YellowDotLoader /> : application.name}
 							</b>
 						</h1>
+						<Button
+							className={classes.pdfButton}
+							leftIcon={<FileDownload size={18} />}
+							loading={isDownloading}
+							disabled={!application}
+							onClick={downloadPdf}
+						>
+							Last ned PDF
+						</Button>
 					</div>
 					{application
 						? application.committees.length > 1 && (
-								<CommitteBanner committees={application.committees} />
+								<CommitteBanner
+									committees={application.committees}
+									priorities={application.priorities}
+								/>
 						  )
 						: null}
+					{application && <DuplicateBanner applicationId={application._id} />}
 					<Box className={classes.pageWrapper}>
 						<Box className={classes.personalInfoSection}>
 							<h2 className={classes.sectionTitle}>
@@ -385,6 +485,11 @@ function ApplicationDetailPage() {
 								statusByRelevancy(application.statuses).map((statusRel, index) => (
 									<StatusInput
 										allowedToChange={!!statusRel.isRelevant}
+										transitions={statusTransitions}
+										applicationId={application._id}
+										interview={interviews.find(
+											(interview) => interview.committee === statusRel.status.committee._id
+										)}
 										key={index}
 										{...statusRel.status}
 									/>
@@ -402,8 +507,48 @@ function ApplicationDetailPage() {
 							) : (
 								<p>{application.text}</p>
 							)}
+							{/* The user only receives the answers to their committees' questions */}
+							{application?.committees.map((committee) => {
+								const answers = (application.answers || []).filter(
+									(answer) => answer.committee === committee._id
+								)
+								if (!answers.length) return null
+								return (
+									<div key={committee._id} className={classes.answers}>
+										<h3>Spørsmål fra {committee.name}</h3>
+										{answers.map((answer) => (
+											<div key={answer.question}>
+												<b>{answer.question_text}</b>
+												<p>{formatAnswer(answer.value)}</p>
+											</div>
+										))}
+									</div>
+								)
+							})}
+							{!!application?.attachments?.length && (
+								<div className={classes.answers}>
+									<h3>Vedlegg</h3>
+									{application.attachments.map((attachment) => (
+										<Button
+											key={attachment._id}
+											className={classes.attachmentButton}
+											variant='subtle'
+											leftIcon={<Paperclip size={18} />}
+											onClick={() => downloadAttachment(attachment)}
+										>
+											{attachment.file_name} ({Math.ceil(attachment.size / 1024)} kB)
+										</Button>
+									))}
+								</div>
+							)}
 						</Box>
 					</Box>
+					{application && (
+						<CommentSection
+							applicationId={application._id}
+							committees={application.committees}
+						/>
+					)}
 				</>
 			) : (
 				<div className={classes.errorMessage}>
@@ -0,0 +1,279 @@
+import { Badge, Button, createStyles, Loader, Modal } from '@mantine/core'
+import { useNotifications } from '@mantine/notifications'
+import { useEffect, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { Check, Eye, EyeOff, Refresh, Trash, X } from 'tabler-icons-react'
+import dayjs from 'dayjs'
+import 'dayjs/locale/nb'
+import ArchivedApplications from '../components/ArchivedApplications'
+import { getArchives, purgeArchive, restoreArchive } from '../services/Archives'
+import { IAdmissionArchive } from '../types/types'
+
+const useStyles = createStyles((theme) => ({
+	pageWrapper: {
+		display: 'flex',
+		flexDirection: 'column',
+		gap: '1rem',
+		margin: '0 auto 2rem auto',
+		width: '60%',
+		color: 'white',
+		'@media (max-width: 1200px)': {
+			width: '80%',
+		},
+		'@media (max-width: 700px)': {
+			width: '95%',
+		},
+	},
+	header: {
+		textAlign: 'center',
+		h1: {
+			fontWeight: 'lighter',
+			margin: '1rem 0 0 0',
+		},
+		p: {
+			margin: '10px 0 0 0',
+		},
+	},
+	archive: {
+		display: 'flex',
+		flexDirection: 'column',
+		gap: '0.5rem',
+		padding: '1rem',
+		border: '2px solid ' + theme.colors.ntnui_yellow[9],
+		borderRadius: theme.radius.sm,
+		h2: {
+			fontWeight: 'normal',
+			margin: 0,
+		},
+		p: {
+			margin: 0,
+		},
+	},
+	archiveHeader: {
+		display: 'flex',
+		flexWrap: 'wrap',
+		alignItems: 'center',
+		gap: '0.5rem',
+	},
+	details: {
+		fontSize: 'small',
+		color: theme.colors.gray[5],
+	},
+	buttons: {
+		display: 'flex',
+		flexWrap: 'wrap',
+		justifyContent: 'flex-end',
+		gap: '0.5rem',
+	},
+	showButton: {
+		backgroundColor: theme.colors.ntnui_blue[9],
+	},
+	restoreButton: {
+		backgroundColor: theme.colors.ntnui_green[9],
+	},
+	purgeButton: {
+		backgroundColor: theme.colors.ntnui_red[9],
+	},
+	modal: {
+		backgroundColor: theme.colors.ntnui_background[9],
+		color: 'white',
+		border: '2px solid ' + theme.colors.ntnui_yellow[9],
+	},
+	modalTitle: {
+		color: 'white',
+		fontWeight: 500,
+	},
+	infoText: {
+		textAlign: 'center',
+		color: theme.colors.gray[5],
+	},
+}))
+
+interface IConfirmation {
+	archive: IAdmissionArchive
+	action: 'restore' | 'purge'
+}
+
+function formatDate(date: Date | string) {
+	return dayjs(date).locale('nb').format('D. MMMM YYYY')
+}
+
+function Archives() {
+	const { classes } = useStyles()
+	const navigate = useNavigate()
+	const notifications = useNotifications()
+	const [archives, setArchives] = useState<IAdmissionArchive[]>([])
+	const [shownArchive, setShownArchive] = useState<string | null>(null)
+	const [confirmation, setConfirmation] = useState<IConfirmation | null>(null)
+	const [isLoading, setIsLoading] = useState<boolean>(true)
+	const [isWorking, setIsWorking] = useState<boolean>(false)
+
+	// Changed to fetch the archives again
+	const [archivesVersion, setArchivesVersion] = useState<number>(0)
+
+	useEffect(() => {
+		const getArchivesAsync = async () => {
+			try {
+				setArchives(await getArchives())
+			} catch (error: any) {
+				if (error.response?.status === 401) navigate('/login')
+				setArchives([])
+			}
+			setIsLoading(false)
+		}
+		getArchivesAsync()
+	}, [archivesVersion, navigate])
+
+	const confirm = async () => {
+		if (!confirmation) return
+		const { archive, action } = confirmation
+		setIsWorking(true)
+		try {
+			if (action === 'restore') {
+				await restoreArchive(archive._id)
+			} else {
+				await purgeArchive(archive._id)
+			}
+			notifications.showNotification({
+				title:
+					action === 'restore'
+						? `${archive.name} er gjenopprettet!`
+						: `${archive.name} er slettet permanent!`,
+				message: '',
+				color: 'green',
+				icon: <Check size={18} />,
+				autoClose: 3000,
+			})
+			if (shownArchive === archive._id) setShownArchive(null)
+			setArchivesVersion(archivesVersion + 1)
+		} catch (error: any) {
+			notifications.showNotification({
+				title:
+					action === 'restore'
+						? 'Kunne ikke gjenopprette opptaket!'
+						: 'Kunne ikke slette arkivet!',
+				message:
+					error.response?.status === 409
+						? action === 'restore'
+							? 'Det nåværende opptaket må arkiveres før et annet kan gjenopprettes'
+							: 'Arkivet kan ikke slettes før oppbevaringstiden er ute'
+						: 'En feil oppstod. Ta kontakt med sprint@ntnui.no dersom problemet vedvarer',
+				color: 'red',
+				icon: <X size={18} />,
+				autoClose: false,
+			})
+		}
+		setIsWorking(false)
+		setConfirmation(null)
+	}
+
+	return (
+		<div className={classes.pageWrapper}>
+			<Modal
+				centered
+				opened={!!confirmation}
+				onClose={() => setConfirmation(null)}
+				title={
+					confirmation?.action === 'restore'
+						? `Gjenopprett ${confirmation.archive.name}`
+						: `Slett ${confirmation?.archive.name} permanent`
+				}
+				classNames={{ modal: classes.modal, title: classes.modalTitle }}
+			>
+				<p>
+					{confirmation?.action === 'restore'
+						? 'Søknadene, opptaksrundene og hvilke utvalg som tok opp søkere blir satt tilbake slik de var da opptaket ble arkivert. Arkivet beholdes.'
+						: 'Alle søknader i arkivet slettes, og kan ikke hentes tilbake.'}
+				</p>
+				<div className={classes.buttons}>
+					<Button
+						className={
+							confirmation?.action === 'restore'
+								? classes.restoreButton
+								: classes.purgeButton
+						}
+						disabled={isWorking}
+						onClick={confirm}
+					>
+						{confirmation?.action === 'restore' ? 'Gjenopprett' : 'Slett permanent'}
+					</Button>
+				</div>
+			</Modal>
+			<div className={classes.header}>
+				<h1>Arkiv</h1>
+				<p>Tidligere opptak. Arkivene kan leses og gjenopprettes.</p>
+			</div>
+			{isLoading ? (
+				<Loader color='yellow' />
+			) : !archives.length ? (
+				<p className={classes.infoText}>Ingen opptak er arkivert</p>
+			) : (
+				archives.map((archive) => (
+					<div key={archive._id} className={classes.archive}>
+						<div className={classes.archiveHeader}>
+							<h2>{archive.name}</h2>
+							{archive.restored_date && (
+								<Badge color='green'>
+									Gjenopprettet {formatDate(archive.restored_date)}
+								</Badge>
+							)}
+						</div>
+						<p className={classes.details}>
+							Arkivert {formatDate(archive.created_date)} av {archive.created_by_name}{' '}
+							· {archive.number_of_applications} søknader
+						</p>
+						{archive.admission_rounds.map((round) => (
+							<p key={round._id} className={classes.details}>
+								{round.name} {formatDate(round.start_date)} –{' '}
+								{formatDate(round.end_date)}
+							</p>
+						))}
+						<p className={classes.details}>
+							Tok opp søkere:{' '}
+							{archive.committees
+								.filter((committee) => committee.accepts_admissions)
+								.map((committee) => committee.name)
+								.join(', ') || 'Ingen'}
+						</p>
+						<p className={classes.details}>
+							Kan slettes permanent fra {formatDate(archive.purge_after)}
+						</p>
+						<div className={classes.buttons}>
+							<Button
+								className={classes.showButton}
+								leftIcon={
+									shownArchive === archive._id ? <EyeOff size={18} /> : <Eye size={18} />
+								}
+								onClick={() =>
+									setShownArchive(shownArchive === archive._id ? null : archive._id)
+								}
+							>
+								{shownArchive === archive._id ? 'Skjul søknader' : 'Vis søknader'}
+							</Button>
+							<Button
+								className={classes.restoreButton}
+								leftIcon={<Refresh size={18} />}
+								onClick={() => setConfirmation({ archive, action: 'restore' })}
+							>
+								Gjenopprett
+							</Button>
+							<Button
+								className={classes.purgeButton}
+								leftIcon={<Trash size={18} />}
+								disabled={dayjs().isBefore(archive.purge_after)}
+								onClick={() => setConfirmation({ archive, action: 'purge' })}
+							>
+								Slett permanent
+							</Button>
+						</div>
+						{shownArchive === archive._id && (
+							<ArchivedApplications archiveId={archive._id} />
+						)}
+					</div>
+				))
+			)}
+		</div>
+	)
+}
+
+export default Archives
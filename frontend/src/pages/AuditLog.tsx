@@ -0,0 +1,299 @@
+import {
+	Badge,
+	createStyles,
+	Loader,
+	Pagination,
+	Select,
+	TextInput,
+} from '@mantine/core'
+import { DateRangePicker } from '@mantine/dates'
+import { useDebouncedValue } from '@mantine/hooks'
+import { useEffect, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { Calendar, ChevronDown, Search } from 'tabler-icons-react'
+import dayjs from 'dayjs'
+import 'dayjs/locale/nb'
+import { getAuditLog } from '../services/Audit'
+import { IAuditLogEntry } from '../types/types'
+import {
+	AUDIT_ACTION_TRANSLATIONS,
+	formatAuditValue,
+	getAuditActionTranslation,
+	getAuditTargetTranslation,
+} from '../utils/audit'
+
+const useStyles = createStyles((theme) => ({
+	pageWrapper: {
+		display: 'flex',
+		flexDirection: 'column',
+		gap: '1rem',
+		margin: '0 auto 2rem auto',
+		width: '70%',
+		color: 'white',
+		'@media (max-width: 1200px)': {
+			width: '85%',
+		},
+		'@media (max-width: 700px)': {
+			width: '95%',
+		},
+	},
+	header: {
+		textAlign: 'center',
+		h1: {
+			fontWeight: 'lighter',
+			margin: '1rem 0 0 0',
+		},
+		p: {
+			margin: '10px 0 0 0',
+		},
+	},
+	filters: {
+		display: 'grid',
+		gridTemplateColumns: '1fr 1fr 1fr',
+		gap: '0.5rem 1rem',
+		'@media (max-width: 900px)': {
+			gridTemplateColumns: '1fr',
+		},
+	},
+	input: {
+		backgroundColor: 'transparent',
+		color: 'white',
+		border: '2px solid ' + theme.colors.ntnui_yellow[9],
+	},
+	label: {
+		color: 'white',
+	},
+	icon: {
+		color: theme.colors.ntnui_yellow[9],
+	},
+	rightSection: {
+		button: {
+			color: theme.colors.ntnui_yellow[9],
+		},
+	},
+	entry: {
+		display: 'flex',
+		flexDirection: 'column',
+		gap: '0.3rem',
+		padding: '0.75rem 1rem',
+		borderRadius: theme.radius.sm,
+		backgroundColor: theme.colors.ntnui_background[9],
+	},
+	entryHeader: {
+		display: 'flex',
+		flexWrap: 'wrap',
+		alignItems: 'center',
+		gap: '0.5rem',
+	},
+	entryTime: {
+		marginLeft: 'auto',
+		fontSize: 'small',
+		color: theme.colors.gray[5],
+	},
+	entryTarget: {
+		fontSize: 'small',
+		color: theme.colors.gray[5],
+		margin: 0,
+	},
+	changes: {
+		display: 'grid',
+		gridTemplateColumns: '1fr 1fr',
+		gap: '0.5rem',
+		'@media (max-width: 700px)': {
+			gridTemplateColumns: '1fr',
+		},
+		pre: {
+			margin: 0,
+			padding: '0.5rem',
+			fontSize: 'small',
+			whiteSpace: 'pre-wrap',
+			wordBreak: 'break-word',
+			borderRadius: theme.radius.sm,
+			backgroundColor: theme.colors.dark[7],
+		},
+	},
+	infoText: {
+		textAlign: 'center',
+		color: theme.colors.gray[5],
+	},
+	loader: {
+		alignSelf: 'center',
+	},
+	pagination: {
+		margin: '1rem auto 1rem auto',
+	},
+	paginationItems: {
+		color: 'white',
+		border: theme.colors.ntnui_background[9],
+		backgroundColor: theme.colors.ntnui_background[9],
+		transition: 'ease-out 0.1s',
+		'&:hover': {
+			backgroundColor: theme.colors.ntnui_background[7],
+			boxShadow: '0rem 0.2rem 0.4rem ' + theme.colors.dark[7],
+			transform: 'translateY(-0.2em)',
+		},
+	},
+	pagintationActive: {
+		backgroundColor: theme.colors.ntnui_blue[9],
+		'&:hover': {
+			backgroundColor: theme.colors.ntnui_blue[9],
+		},
+	},
+}))
+
+function AuditLog() {
+	const { classes } = useStyles()
+	const navigate = useNavigate()
+	const [entries, setEntries] = useState<IAuditLogEntry[]>([])
+	const [currentPage, setCurrentPage] = useState<number>(1)
+	const [numberOfPages, setNumberOfPages] = useState<number>(1)
+	const [action, setAction] = useState<string | null>(null)
+	const [actor, setActor] = useState<string>('')
+	const [debouncedActor] = useDebouncedValue(actor, 400)
+	const [dateRange, setDateRange] = useState<[Date | null, Date | null]>([
+		null,
+		null,
+	])
+	const [isLoading, setIsLoading] = useState<boolean>(false)
+	const [hasAccess, setHasAccess] = useState<boolean>(true)
+
+	// Start on the first page whenever the filters change
+	useEffect(() => {
+		setCurrentPage(1)
+	}, [action, debouncedActor, dateRange])
+
+	useEffect(() => {
+		const getAuditLogAsync = async () => {
+			setIsLoading(true)
+			try {
+				const [from, to] = dateRange
+				const response = await getAuditLog(currentPage, {
+					action: action || undefined,
+					actor: debouncedActor.trim() || undefined,
+					from: from ? dayjs(from).format('YYYY-MM-DD') : undefined,
+					to: to ? dayjs(to).format('YYYY-MM-DD') : undefined,
+				})
+				setEntries(response.entries)
+				setNumberOfPages(response.pagination.numberOfPages)
+			} catch (error: any) {
+				if (error.response?.status === 401) {
+					navigate('/login')
+				} else if (error.response?.status === 403) {
+					setHasAccess(false)
+				}
+				setEntries([])
+			}
+			setIsLoading(false)
+		}
+		getAuditLogAsync()
+	}, [currentPage, action, debouncedActor, dateRange, navigate])
+
+	if (!hasAccess) {
+		return (
+			<div className={classes.pageWrapper}>
+				<div className={classes.header}>
+					<h1>Revisjonslogg</h1>
+					<p>Kun hovedstyret og valgkomiteen har tilgang til revisjonsloggen.</p>
+				</div>
+			</div>
+		)
+	}
+
+	return (
+		<div className={classes.pageWrapper}>
+			<div className={classes.header}>
+				<h1>Revisjonslogg</h1>
+				<p>Oversikt over hvem som har gjort endringer i opptaket, og når.</p>
+			</div>
+			<div className={classes.filters}>
+				<Select
+					label='Handling'
+					placeholder='Alle handlinger'
+					clearable
+					data={Object.entries(AUDIT_ACTION_TRANSLATIONS).map(([value, label]) => ({
+						value,
+						label,
+					}))}
+					value={action}
+					onChange={setAction}
+					rightSection={<ChevronDown size={14} />}
+					rightSectionWidth={40}
+					classNames={{ input: classes.input, label: classes.label }}
+				/>
+				<TextInput
+					label='Utført av'
+					placeholder='Navn eller medlemsnummer'
+					icon={<Search size={16} />}
+					value={actor}
+					onChange={(event) => setActor(event.currentTarget.value)}
+					classNames={{
+						input: classes.input,
+						label: classes.label,
+						icon: classes.icon,
+					}}
+				/>
+				<DateRangePicker
+					locale='nb'
+					amountOfMonths={1}
+					icon={<Calendar size={16} />}
+					label='Tidsrom'
+					placeholder='Velg en tidsperiode'
+					value={dateRange}
+					onChange={setDateRange}
+					classNames={{
+						input: classes.input,
+						label: classes.label,
+						icon: classes.icon,
+						rightSection: classes.rightSection,
+					}}
+				/>
+			</div>
+			{isLoading ? (
+				<Loader color='yellow' className={classes.loader} />
+			) : !entries.length ? (
+				<p className={classes.infoText}>Ingen hendelser passer filtrene.</p>
+			) : (
+				entries.map((entry) => (
+					<div key={entry._id} className={classes.entry}>
+						<div className={classes.entryHeader}>
+							<Badge color='yellow'>{getAuditActionTranslation(entry.action)}</Badge>
+							<b>{entry.actor_name}</b> ({entry.actor ?? 'søker'})
+							<span className={classes.entryTime}>
+								{dayjs(entry.created_date).locale('nb').format('D. MMMM YYYY HH:mm')}
+							</span>
+						</div>
+						<p className={classes.entryTarget}>
+							{getAuditTargetTranslation(entry.target_type)}
+							{entry.target_id && ` ${entry.target_id}`}
+						</p>
+						{(entry.before !== null || entry.after !== null) && (
+							<div className={classes.changes}>
+								<div>
+									Før
+									<pre>{formatAuditValue(entry.before)}</pre>
+								</div>
+								<div>
+									Etter
+									<pre>{formatAuditValue(entry.after)}</pre>
+								</div>
+							</div>
+						)}
+					</div>
+				))
+			)}
+			<Pagination
+				className={classes.pagination}
+				classNames={{
+					item: classes.paginationItems,
+					active: classes.pagintationActive,
+				}}
+				total={numberOfPages}
+				noWrap
+				page={currentPage}
+				onChange={setCurrentPage}
+			/>
+		</div>
+	)
+}
+
+export default AuditLog
@@ -0,0 +1,399 @@
+import {
+	Badge,
+	Button,
+	Checkbox,
+	createStyles,
+	Loader,
+	Select,
+	Textarea,
+	TextInput,
+} from '@mantine/core'
+import { useForm } from '@mantine/form'
+import { useNotifications } from '@mantine/notifications'
+import { useEffect, useState } from 'react'
+import { useLocation, useNavigate } from 'react-router-dom'
+import { Check, ChevronDown, Edit, Plus, Trash, X } from 'tabler-icons-react'
+import {
+	deleteCommitteeQuestion,
+	getCommitteeQuestions,
+	postCommitteeQuestion,
+	putCommitteeQuestion,
+} from '../services/CommitteeQuestions'
+import { getManagedCommittees } from '../services/Committees'
+import { IUserPermissions } from '../services/User'
+import { ICommittee, ICommitteeQuestion, QuestionType } from '../types/types'
+import {
+	isChoiceQuestion,
+	QUESTION_TYPE_TRANSLATIONS,
+} from '../utils/questions'
+
+const useStyles = createStyles((theme) => ({
+	pageWrapper: {
+		display: 'flex',
+		flexDirection: 'column',
+		gap: '1rem',
+		margin: '0 auto 2rem auto',
+		width: '50%',
+		color: 'white',
+		'@media (max-width: 1200px)': {
+			width: '70%',
+		},
+		'@media (max-width: 700px)': {
+			width: '90%',
+		},
+	},
+	header: {
+		textAlign: 'center',
+		h1: {
+			fontWeight: 'lighter',
+			margin: '1rem 0 0 0',
+		},
+		p: {
+			margin: '10px 0 0 0',
+		},
+	},
+	input: {
+		backgroundColor: 'transparent',
+		color: 'white',
+		border: '2px solid ' + theme.colors.ntnui_yellow[9],
+	},
+	label: {
+		color: 'white',
+	},
+	rightSection: {
+		pointerEvents: 'none',
+	},
+	questionForm: {
+		display: 'flex',
+		flexDirection: 'column',
+		gap: '0.5rem',
+		padding: '1rem',
+		borderRadius: theme.radius.sm,
+		backgroundColor: theme.colors.ntnui_background[9],
+	},
+	question: {
+		display: 'flex',
+		flexDirection: 'column',
+		gap: '0.3rem',
+		padding: '1rem',
+		border: '2px solid ' + theme.colors.ntnui_yellow[9],
+		borderRadius: theme.radius.sm,
+		p: {
+			margin: 0,
+			whiteSpace: 'pre-wrap',
+			wordBreak: 'break-word',
+		},
+	},
+	questionHeader: {
+		display: 'flex',
+		flexWrap: 'wrap',
+		gap: '0.5rem',
+	},
+	infoText: {
+		fontSize: 'small',
+		color: theme.colors.gray[5],
+		margin: 0,
+	},
+	buttons: {
+		display: 'flex',
+		justifyContent: 'flex-end',
+		flexWrap: 'wrap',
+		gap: '0.5rem',
+	},
+	saveButton: {
+		backgroundColor: theme.colors.ntnui_green[9],
+	},
+	cancelButton: {
+		backgroundColor: theme.colors.ntnui_blue[9],
+	},
+	deleteButton: {
+		backgroundColor: theme.colors.ntnui_red[9],
+	},
+}))
+
+interface stateType {
+	permissions: IUserPermissions
+}
+
+// 'new' while adding a question, otherwise the id of the question being edited
+type Editing = 'new' | string | null
+
+function CommitteeQuestions() {
+	const { classes } = useStyles()
+	const navigate = useNavigate()
+	const location = useLocation()
+	const notifications = useNotifications()
+	const [committees, setCommittees] = useState<ICommittee[]>([])
+	const [committee, setCommittee] = useState<string | null>(null)
+	const [questions, setQuestions] = useState<ICommitteeQuestion[]>([])
+	const [editing, setEditing] = useState<Editing>(null)
+	const [isLoading, setIsLoading] = useState<boolean>(false)
+	const [isSaving, setIsSaving] = useState<boolean>(false)
+
+	const form = useForm({
+		initialValues: {
+			type: 'short_text' as QuestionType,
+			question: '',
+			options: '',
+			required: false,
+		},
+		validate: {
+			question: (value) =>
+				value.trim().length > 0 && value.trim().length <= 500
+					? null
+					: 'Spørsmålet må være mellom 1 og 500 tegn',
+			options: (value, values) =>
+				!isChoiceQuestion(values.type) ||
+				value.split('\n').filter((option) => option.trim()).length >= 2
+					? null
+					: 'Skriv minst to alternativer',
+		},
+	})
+
+	useEffect(() => {
+		async function getCommitteesAsync() {
+			try {
+				const locationState = location.state as stateType
+				const userCommittees = await getManagedCommittees(
+					locationState.permissions.managed_committees
+				)
+				setCommittees(userCommittees)
+				if (userCommittees.length) {
+					setCommittee(userCommittees[0]._id.toString())
+				}
+			} catch (error: any) {
+				if (error.response?.status === 401) {
+					navigate('/login')
+				}
+			}
+		}
+		getCommitteesAsync()
+	}, [location.state, navigate])
+
+	useEffect(() => {
+		if (!committee) return
+		async function getQuestionsAsync() {
+			setIsLoading(true)
+			setEditing(null)
+			try {
+				setQuestions(await getCommitteeQuestions([Number(committee)]))
+			} catch (error) {
+				setQuestions([])
+			}
+			setIsLoading(false)
+		}
+		getQuestionsAsync()
+	}, [committee])
+
+	const showError = (title: string) =>
+		notifications.showNotification({
+			title,
+			message:
+				'En feil oppstod. Ta kontakt med sprint@ntnui.no dersom problemet vedvarer',
+			color: 'red',
+			icon: <X size={18} />,
+			autoClose: false,
+		})
+
+	const startEditing = (question: ICommitteeQuestion | null) => {
+		form.setValues({
+			type: question?.type || 'short_text',
+			question: question?.question || '',
+			options: question?.options.join('\n') || '',
+			required: question?.required || false,
+		})
+		setEditing(question ? question._id : 'new')
+	}
+
+	const saveQuestion = async () => {
+		if (form.validate().hasErrors || !editing || !committee) return
+		const question = {
+			type: form.values.type,
+			question: form.values.question.trim(),
+			options: isChoiceQuestion(form.values.type)
+				? form.values.options
+						.split('\n')
+						.map((option) => option.trim())
+						.filter(Boolean)
+				: [],
+			required: form.values.required,
+		}
+		setIsSaving(true)
+		try {
+			if (editing === 'new') {
+				const newQuestion = await postCommitteeQuestion(Number(committee), question)
+				setQuestions([...questions, newQuestion])
+			} else {
+				const updatedQuestion = await putCommitteeQuestion(editing, question)
+				setQuestions(
+					questions.map((other) => (other._id === editing ? updatedQuestion : other))
+				)
+			}
+			notifications.showNotification({
+				title: 'Spørsmålet er lagret!',
+				message: '',
+				color: 'green',
+				icon: <Check size={18} />,
+				autoClose: 3000,
+			})
+			setEditing(null)
+		} catch (error) {
+			showError('Kunne ikke lagre spørsmålet!')
+		}
+		setIsSaving(false)
+	}
+
+	const removeQuestion = async (questionId: string) => {
+		try {
+			await deleteCommitteeQuestion(questionId)
+			setQuestions(questions.filter((question) => question._id !== questionId))
+		} catch (error) {
+			showError('Kunne ikke slette spørsmålet!')
+		}
+	}
+
+	const questionForm = (
+		<div className={classes.questionForm}>
+			<Select
+				label='Type'
+				data={Object.entries(QUESTION_TYPE_TRANSLATIONS).map(([value, label]) => ({
+					value,
+					label,
+				}))}
+				rightSection={<ChevronDown size={14} />}
+				rightSectionWidth={40}
+				classNames={{
+					input: classes.input,
+					label: classes.label,
+					rightSection: classes.rightSection,
+				}}
+				{...form.getInputProps('type')}
+			/>
+			<TextInput
+				label='Spørsmål'
+				classNames={{ input: classes.input, label: classes.label }}
+				{...form.getInputProps('question')}
+			/>
+			{isChoiceQuestion(form.values.type) && (
+				<Textarea
+					label='Alternativer'
+					description='Ett alternativ per linje'
+					autosize
+					minRows={3}
+					classNames={{ input: classes.input, label: classes.label }}
+					{...form.getInputProps('options')}
+				/>
+			)}
+			<Checkbox
+				label='Må besvares'
+				color='yellow'
+				classNames={{ label: classes.label }}
+				{...form.getInputProps('required', { type: 'checkbox' })}
+			/>
+			<div className={classes.buttons}>
+				<Button
+					className={classes.cancelButton}
+					leftIcon={<X size={18} />}
+					onClick={() => setEditing(null)}
+				>
+					Avbryt
+				</Button>
+				<Button
+					className={classes.saveButton}
+					leftIcon={<Check size={18} />}
+					loading={isSaving}
+					onClick={saveQuestion}
+				>
+					Lagre
+				</Button>
+			</div>
+		</div>
+	)
+
+	return (
+		<div className={classes.pageWrapper}>
+			<div className={classes.header}>
+				<h1>Søknadsspørsmål</h1>
+				<p>
+					Spørsmålene vises i søknadsskjemaet for de som søker utvalget. Bare
+					utvalget selv ser svarene.
+				</p>
+			</div>
+			<Select
+				label='Utvalg'
+				data={committees.map((com) => ({
+					value: com._id.toString(),
+					label: com.name,
+				}))}
+				value={committee}
+				onChange={setCommittee}
+				rightSection={<ChevronDown size={14} />}
+				rightSectionWidth={40}
+				classNames={{
+					input: classes.input,
+					label: classes.label,
+					rightSection: classes.rightSection,
+				}}
+			/>
+			{isLoading ? (
+				<Loader color='yellow' variant='dots' />
+			) : (
+				<>
+					{!questions.length && (
+						<p className={classes.infoText}>
+							Utvalget har ingen egne spørsmål. Søkerne skriver bare søknadsteksten.
+						</p>
+					)}
+					{questions.map((question) =>
+						editing === question._id ? (
+							<div key={question._id}>{questionForm}</div>
+						) : (
+							<div key={question._id} className={classes.question}>
+								<div className={classes.questionHeader}>
+									<Badge color='yellow'>
+										{QUESTION_TYPE_TRANSLATIONS[question.type]}
+									</Badge>
+									{question.required && <Badge color='red'>Må besvares</Badge>}
+								</div>
+								<p>{question.question}</p>
+								{isChoiceQuestion(question.type) && (
+									<p className={classes.infoText}>{question.options.join(' · ')}</p>
+								)}
+								<div className={classes.buttons}>
+									<Button
+										className={classes.cancelButton}
+										leftIcon={<Edit size={18} />}
+										onClick={() => startEditing(question)}
+									>
+										Endre
+									</Button>
+									<Button
+										className={classes.deleteButton}
+										leftIcon={<Trash size={18} />}
+										onClick={() => removeQuestion(question._id)}
+									>
+										Slett
+									</Button>
+								</div>
+							</div>
+						)
+					)}
+					{editing === 'new' ? (
+						questionForm
+					) : (
+						<Button
+							className={classes.saveButton}
+							leftIcon={<Plus size={18} />}
+							disabled={!committee}
+							onClick={() => startEditing(null)}
+						>
+							Nytt spørsmål
+						</Button>
+					)}
+				</>
+			)}
+		</div>
+	)
+}
+
+export default CommitteeQuestions
@@ -8,14 +8,25 @@ import {
 } from '@mantine/core'
 import { useEffect, useState } from 'react'
 import { useLocation, useNavigate } from 'react-router-dom'
-import { CalendarEvent, FileText, Trash, Users } from 'tabler-icons-react'
 import {
-	isApplicationPeriodActive,
-	getAdmissionPeriod,
-} from '../services/Applications'
-import { IUserProfile, getUserProfile } from '../services/User'
+	Archive,
+	CalendarEvent,
+	CalendarTime,
+	FileText,
+	Forms,
+	History,
+	Mail,
+	Users,
+} from 'tabler-icons-react'
+import { getActiveAdmissionRound } from '../services/AdmissionRounds'
+import {
+	IUserPermissions,
+	IUserProfile,
+	getUserProfile,
+} from '../services/User'
 import dayjs from 'dayjs'
 import WipeModal from '../components/WipeAdmissionDataModal'
+import ActiveSessions from '../components/ActiveSessions'
 require('dayjs/locale/nb')
 
 const useStyles = createStyles((theme) => ({
@@ -101,7 +112,7 @@ const useStyles = createStyles((theme) => ({
 }))
 
 interface stateType {
-	isOrganizer: boolean
+	permissions: IUserPermissions
 }
 
 function Dashboard() {
@@ -111,7 +122,8 @@ function Dashboard() {
 	const [periodOpen, setPeriodOpen] = useState<boolean>(true)
 	const [startDate, setStartDate] = useState<string>('')
 	const [endDate, setEndDate] = useState<string>('')
-	const [isTheOrganizer, setTheOrganizer] = useState<boolean>(false)
+	const [roundName, setRoundName] = useState<string>('')
+	const [permissions, setPermissions] = useState<IUserPermissions>()
 	const [isLoading, setIsLoading] = useState<boolean>(true)
 	const [userName, setUserName] = useState<IUserProfile>()
 	const [wipeModalOpen, setWipeModalOpen] = useState<boolean>(false)
@@ -123,21 +135,20 @@ function Dashboard() {
 				// Get user
 				const user = await getUserProfile()
 				setUserName(user)
-				// Get organizer value
+				// Get what the user is allowed to do
 				const locationState = location.state as stateType
-				setTheOrganizer(locationState.isOrganizer)
-				// Check if application period active
-				const response = await isApplicationPeriodActive()
-				setPeriodOpen(response)
-				// If active, get application period
-				if (response) {
-					const response = await getAdmissionPeriod()
-					const parsedStartDate = dayjs(response.admissionPeriod.start_date)
+				setPermissions(locationState.permissions)
+				// Get the admission round open for applications, if any
+				const admissionRound = await getActiveAdmissionRound()
+				setPeriodOpen(!!admissionRound)
+				if (admissionRound) {
+					const parsedStartDate = dayjs(admissionRound.start_date)
 						.locale('nb')
 						.format('D. MMMM YYYY')
-					const parsedEndDate = dayjs(response.admissionPeriod.end_date)
+					const parsedEndDate = dayjs(admissionRound.end_date)
 						.locale('nb')
 						.format('D. MMMM YYYY')
+					setRoundName(admissionRound.name)
 					setStartDate(parsedStartDate)
 					setEndDate(parsedEndDate)
 				}
@@ -176,12 +187,12 @@ function Dashboard() {
 								<p style={styles} className={classes.text}>
 									{periodOpen && startDate && endDate ? (
 										<>
-											<CalendarEvent size={24} strokeWidth={1.5} /> Opptaksperioden er satt
-											fra <span className={classes.date}>{startDate}</span> til{' '}
+											<CalendarEvent size={24} strokeWidth={1.5} /> {roundName} er åpen fra{' '}
+											<span className={classes.date}>{startDate}</span> til{' '}
 											<span className={classes.date}>{endDate}</span>
 										</>
 									) : (
-										<span>Det er for tiden ingen satt opptaksperiode</span>
+										<span>Det er for tiden ingen aktiv opptaksrunde</span>
 									)}
 								</p>
 								<div style={styles} className={classes.metroBoxWrapper}>
@@ -197,24 +208,59 @@ function Dashboard() {
 									>
 										<Users size={150} strokeWidth={0.9} /> Opptaksstatus
 									</Box>
-									{isTheOrganizer && (
+									<Box
+										className={classes.metroBoxes}
+										onClick={() => navigate('/interview-slots')}
+									>
+										<CalendarTime size={150} strokeWidth={0.9} /> Intervjutider
+									</Box>
+									<Box
+										className={classes.metroBoxes}
+										onClick={() => navigate('/email-templates')}
+									>
+										<Mail size={150} strokeWidth={0.9} /> E-postmaler
+									</Box>
+									<Box
+										className={classes.metroBoxes}
+										onClick={() => navigate('/committee-questions')}
+									>
+										<Forms size={150} strokeWidth={0.9} /> Søknadsspørsmål
+									</Box>
+									{permissions?.manage_admission_rounds && (
+										<Box
+											className={classes.metroBoxes}
+											onClick={() => navigate('/admission-rounds')}
+										>
+											<CalendarEvent size={150} strokeWidth={0.9} /> Opptaksrunder
+										</Box>
+									)}
+									{permissions?.manage_archives && (
+										<Box
+											className={classes.metroBoxes}
+											onClick={() => navigate('/archives')}
+										>
+											<Archive size={150} strokeWidth={0.9} /> Arkiv
+										</Box>
+									)}
+									{permissions?.read_audit_log && (
 										<Box
 											className={classes.metroBoxes}
-											onClick={() => navigate('/admission-period')}
+											onClick={() => navigate('/audit')}
 										>
-											<CalendarEvent size={150} strokeWidth={0.9} /> Opptaksperiode
+											<History size={150} strokeWidth={0.9} /> Revisjonslogg
 										</Box>
 									)}
 								</div>
-								{isTheOrganizer && (
+								{permissions?.manage_archives && (
 									<Button
 										onClick={() => setWipeModalOpen(true)}
 										className={classes.wipeDataButton}
-										leftIcon={<Trash size={18} />}
+										leftIcon={<Archive size={18} />}
 									>
-										Slett opptaksdata
+										Arkiver opptaket
 									</Button>
 								)}
+								<ActiveSessions />
 							</>
 						)}
 					</Transition>
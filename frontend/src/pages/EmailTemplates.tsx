@@ -0,0 +1,415 @@
+import {
+	Badge,
+	Button,
+	createStyles,
+	Loader,
+	SegmentedControl,
+	Select,
+	Textarea,
+	TextInput,
+} from '@mantine/core'
+import { useNotifications } from '@mantine/notifications'
+import { useEffect, useState } from 'react'
+import { useLocation, useNavigate } from 'react-router-dom'
+import { Check, ChevronDown, Eye, Refresh, X } from 'tabler-icons-react'
+import { getManagedCommittees } from '../services/Committees'
+import { IUserPermissions } from '../services/User'
+import {
+	deleteEmailTemplate,
+	getEmailTemplates,
+	IEmailPreview,
+	previewEmailTemplate,
+	putEmailTemplate,
+} from '../services/EmailTemplates'
+import { ICommittee, IEmailTemplate } from '../types/types'
+import StatusTypes from '../utils/enums'
+import { getStatusTranslation } from '../utils/status'
+
+const useStyles = createStyles((theme) => ({
+	pageWrapper: {
+		display: 'flex',
+		flexDirection: 'column',
+		gap: '1rem',
+		margin: '0 auto 2rem auto',
+		width: '50%',
+		color: 'white',
+		'@media (max-width: 1200px)': {
+			width: '70%',
+		},
+		'@media (max-width: 700px)': {
+			width: '90%',
+		},
+	},
+	header: {
+		textAlign: 'center',
+		h1: {
+			fontWeight: 'lighter',
+			margin: '1rem 0 0 0',
+		},
+		p: {
+			margin: '10px 0 0 0',
+		},
+	},
+	selects: {
+		display: 'grid',
+		gridTemplateColumns: '1fr 1fr',
+		gap: '0.5rem 1rem',
+		'@media (max-width: 700px)': {
+			gridTemplateColumns: '1fr',
+		},
+	},
+	input: {
+		backgroundColor: 'transparent',
+		color: 'white',
+		border: '2px solid ' + theme.colors.ntnui_yellow[9],
+	},
+	label: {
+		color: 'white',
+	},
+	rightSection: {
+		pointerEvents: 'none',
+	},
+	languageControl: {
+		alignSelf: 'center',
+		backgroundColor: theme.colors.ntnui_background[9],
+	},
+	languageControlActive: {
+		backgroundColor: theme.colors.ntnui_yellow[9],
+	},
+	languageControlLabel: {
+		color: 'white',
+	},
+	languageControlLabelActive: {
+		color: 'black !important',
+	},
+	placeholders: {
+		display: 'flex',
+		flexWrap: 'wrap',
+		alignItems: 'center',
+		gap: '0.5rem',
+		fontSize: 'small',
+	},
+	placeholder: {
+		cursor: 'pointer',
+		textTransform: 'none',
+	},
+	infoText: {
+		fontSize: 'small',
+		color: theme.colors.gray[5],
+		margin: 0,
+	},
+	buttons: {
+		display: 'flex',
+		justifyContent: 'flex-end',
+		flexWrap: 'wrap',
+		gap: '0.5rem',
+	},
+	saveButton: {
+		backgroundColor: theme.colors.ntnui_green[9],
+	},
+	previewButton: {
+		backgroundColor: theme.colors.ntnui_blue[9],
+	},
+	resetButton: {
+		backgroundColor: theme.colors.ntnui_red[9],
+	},
+	preview: {
+		backgroundColor: theme.colors.ntnui_yellow[9] + '0F',
+		borderRadius: theme.radius.sm,
+		padding: '0.5rem 1rem',
+		h3: {
+			fontWeight: 'normal',
+			margin: '0.5rem 0',
+		},
+		p: {
+			whiteSpace: 'pre-wrap',
+			wordBreak: 'break-word',
+		},
+	},
+}))
+
+interface stateType {
+	permissions: IUserPermissions
+}
+
+function EmailTemplates() {
+	const { classes } = useStyles()
+	const navigate = useNavigate()
+	const location = useLocation()
+	const notifications = useNotifications()
+	const [committees, setCommittees] = useState<ICommittee[]>([])
+	const [committee, setCommittee] = useState<string | null>(null)
+	const [templates, setTemplates] = useState<IEmailTemplate[]>([])
+	const [placeholders, setPlaceholders] = useState<string[]>([])
+	const [status, setStatus] = useState<string | null>(
+		StatusTypes.INVITED_TO_INTERVIEW
+	)
+	const [language, setLanguage] = useState<string>('nb')
+	const [subject, setSubject] = useState<string>('')
+	const [body, setBody] = useState<string>('')
+	const [preview, setPreview] = useState<IEmailPreview | null>(null)
+	const [isLoading, setIsLoading] = useState<boolean>(false)
+	const [isSaving, setIsSaving] = useState<boolean>(false)
+
+	const template = templates.find(
+		(temp) => temp.status === status && temp.language === language
+	)
+
+	useEffect(() => {
+		async function getCommitteesAsync() {
+			try {
+				const locationState = location.state as stateType
+				const userCommittees = await getManagedCommittees(
+					locationState.permissions.managed_committees
+				)
+				setCommittees(userCommittees)
+				if (userCommittees.length) {
+					setCommittee(userCommittees[0]._id.toString())
+				}
+			} catch (error: any) {
+				if (error.response.status === 401) {
+					navigate('/login')
+				}
+			}
+		}
+		getCommitteesAsync()
+	}, [location.state, navigate])
+
+	useEffect(() => {
+		if (!committee) return
+		async function getTemplatesAsync() {
+			setIsLoading(true)
+			try {
+				const response = await getEmailTemplates(Number(committee))
+				setTemplates(response.templates)
+				setPlaceholders(response.placeholders)
+			} catch (error) {
+				setTemplates([])
+			}
+			setIsLoading(false)
+		}
+		getTemplatesAsync()
+	}, [committee])
+
+	// Edit the chosen template
+	useEffect(() => {
+		setSubject(template?.subject || '')
+		setBody(template?.body || '')
+		setPreview(null)
+	}, [template])
+
+	const showError = (title: string) =>
+		notifications.showNotification({
+			title,
+			message:
+				'En feil oppstod. Ta kontakt med sprint@ntnui.no dersom problemet vedvarer',
+			color: 'red',
+			icon: <X size={18} />,
+			autoClose: false,
+		})
+
+	const replaceTemplate = (newTemplate: IEmailTemplate) =>
+		setTemplates(
+			templates.map((temp) =>
+				temp.status === newTemplate.status && temp.language === newTemplate.language
+					? newTemplate
+					: temp
+			)
+		)
+
+	const saveTemplate = async () => {
+		if (!committee || !status) return
+		setIsSaving(true)
+		try {
+			replaceTemplate(
+				await putEmailTemplate({
+					committee: Number(committee),
+					status: status as StatusTypes,
+					language: language as IEmailTemplate['language'],
+					subject,
+					body,
+				})
+			)
+			notifications.showNotification({
+				title: 'E-postmalen er lagret!',
+				message: '',
+				color: 'green',
+				icon: <Check size={18} />,
+				autoClose: 3000,
+			})
+		} catch (error) {
+			showError('Kunne ikke lagre e-postmalen!')
+		}
+		setIsSaving(false)
+	}
+
+	const resetTemplate = async () => {
+		if (!template?._id || !committee) return
+		setIsSaving(true)
+		try {
+			await deleteEmailTemplate(template._id)
+			// Retrieve the default template
+			const response = await getEmailTemplates(Number(committee))
+			setTemplates(response.templates)
+		} catch (error) {
+			showError('Kunne ikke tilbakestille e-postmalen!')
+		}
+		setIsSaving(false)
+	}
+
+	const showPreview = async () => {
+		if (!committee) return
+		try {
+			setPreview(await previewEmailTemplate(Number(committee), subject, body))
+		} catch (error) {
+			showError('Kunne ikke forhåndsvise e-postmalen!')
+		}
+	}
+
+	return (
+		<div className={classes.pageWrapper}>
+			<div className={classes.header}>
+				<h1>E-postmaler</h1>
+				<p>
+					Skriv e-postene søkerne får når statusen deres endres. Søkerne får både den
+					norske og den engelske teksten.
+				</p>
+			</div>
+			<div className={classes.selects}>
+				<Select
+					label='Utvalg'
+					data={committees.map((com) => ({
+						value: com._id.toString(),
+						label: com.name,
+					}))}
+					value={committee}
+					onChange={setCommittee}
+					rightSection={<ChevronDown size={14} />}
+					rightSectionWidth={40}
+					classNames={{
+						input: classes.input,
+						label: classes.label,
+						rightSection: classes.rightSection,
+					}}
+				/>
+				<Select
+					label='Status'
+					data={Object.values(StatusTypes)
+						.filter(
+							(statusType) =>
+								statusType !== StatusTypes.PENDING &&
+								statusType !== StatusTypes.WITHDRAWN
+						)
+						.map((statusType) => ({
+							value: statusType,
+							label: getStatusTranslation(statusType),
+						}))}
+					value={status}
+					onChange={setStatus}
+					rightSection={<ChevronDown size={14} />}
+					rightSectionWidth={40}
+					classNames={{
+						input: classes.input,
+						label: classes.label,
+						rightSection: classes.rightSection,
+					}}
+				/>
+			</div>
+			<SegmentedControl
+				className={classes.languageControl}
+				classNames={{
+					active: classes.languageControlActive,
+					label: classes.languageControlLabel,
+					labelActive: classes.languageControlLabelActive,
+				}}
+				value={language}
+				onChange={setLanguage}
+				data={[
+					{ value: 'nb', label: 'Norsk' },
+					{ value: 'en', label: 'Engelsk' },
+				]}
+			/>
+			{isLoading ? (
+				<Loader color='yellow' variant='dots' />
+			) : (
+				<>
+					<p className={classes.infoText}>
+						{template?.is_default
+							? template.body
+								? 'Standardmalen brukes. Lagre for å bruke utvalgets egen tekst.'
+								: 'Ingen e-post sendes for denne statusen før en mal er skrevet.'
+							: `Sist endret av ${template?.updated_by}`}
+					</p>
+					<div className={classes.placeholders}>
+						Variabler:
+						{placeholders.map((placeholder) => (
+							<Badge
+								key={placeholder}
+								color='yellow'
+								className={classes.placeholder}
+								title='Legg til i teksten'
+								onClick={() => setBody(`${body}{{${placeholder}}}`)}
+							>
+								{`{{${placeholder}}}`}
+							</Badge>
+						))}
+					</div>
+					<TextInput
+						label='Emne'
+						value={subject}
+						onChange={(event) => setSubject(event.currentTarget.value)}
+						classNames={{ input: classes.input, label: classes.label }}
+					/>
+					<Textarea
+						label='Tekst'
+						autosize
+						minRows={8}
+						value={body}
+						onChange={(event) => setBody(event.currentTarget.value)}
+						classNames={{ input: classes.input, label: classes.label }}
+					/>
+					<div className={classes.buttons}>
+						{template && !template.is_default && (
+							<Button
+								className={classes.resetButton}
+								leftIcon={<Refresh size={18} />}
+								disabled={isSaving}
+								onClick={resetTemplate}
+							>
+								Tilbakestill til standard
+							</Button>
+						)}
+						<Button
+							className={classes.previewButton}
+							leftIcon={<Eye size={18} />}
+							onClick={showPreview}
+						>
+							Forhåndsvis
+						</Button>
+						<Button
+							className={classes.saveButton}
+							leftIcon={<Check size={18} />}
+							disabled={isSaving || !subject.trim() || !body.trim()}
+							onClick={saveTemplate}
+						>
+							Lagre
+						</Button>
+					</div>
+					{preview && (
+						<div className={classes.preview}>
+							<p className={classes.infoText}>
+								{preview.applicant_name
+									? `Slik blir e-posten til ${preview.applicant_name}, den siste søkeren til utvalget. Intervjulenken er et eksempel.`
+									: 'Utvalget har ingen søkere ennå, så forhåndsvisningen bruker eksempeldata.'}
+							</p>
+							<h3>{preview.subject}</h3>
+							<p>{preview.text}</p>
+						</div>
+					)}
+				</>
+			)}
+		</div>
+	)
+}
+
+export default EmailTemplates
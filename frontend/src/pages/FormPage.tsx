@@ -1,12 +1,11 @@
 import { Box, Button, createStyles, Loader } from '@mantine/core'
 import { FileText, Login } from 'tabler-icons-react'
 import { Form } from '../components/ApplicationForm'
-import { useNavigate } from 'react-router-dom'
+import { Link, useNavigate } from 'react-router-dom'
 import { useEffect, useState } from 'react'
-import {
-	isApplicationPeriodActive,
-	getAdmissionPeriod,
-} from '../services/Applications'
+import { getActiveAdmissionRound } from '../services/AdmissionRounds'
+import { IAdmissionRound } from '../types/types'
+import { formatCountdown, formatDeadline } from '../utils/admissionWindow'
 
 const useStyles = createStyles((theme) => ({
 	formTitleAndBodyWrapper: {
@@ -152,45 +151,51 @@ const useStyles = createStyles((theme) => ({
 		fontSize: 'large',
 		paddingBottom: '1rem',
 	},
+	portalText: {
+		textAlign: 'center',
+		color: theme.colors.gray[5],
+		margin: '0 0 2rem 0',
+		a: {
+			color: theme.colors.ntnui_yellow[9],
+		},
+	},
 }))
 
 function FormBox() {
 	const { classes } = useStyles()
-	const [periodOpen, setPeriodOpen] = useState<boolean>(false)
+	const [admissionRound, setAdmissionRound] = useState<IAdmissionRound | null>(
+		null
+	)
 	const [isLoading, setIsLoading] = useState<boolean>(false)
-	const [endDate, setEndDate] = useState<string>('')
+	const [now, setNow] = useState<number>(Date.now())
 	let navigate = useNavigate()
 
 	useEffect(() => {
 		setIsLoading(true)
-		const getApplicationPeriodActiveAsync = async () => {
+		const getActiveAdmissionRoundAsync = async () => {
 			try {
-				const response = await isApplicationPeriodActive()
-				setPeriodOpen(response)
-				if (response) {
-					const getApplicationsPeriodAsync = async () => {
-						const response = await getAdmissionPeriod()
-						const parsedEndDate = new Date(response.admissionPeriod.end_date)
-							.toLocaleDateString('no-No', {
-								month: 'long',
-								day: '2-digit',
-								year: 'numeric',
-							})
-							.concat(' 23:59')
-						setEndDate(parsedEndDate)
-						setIsLoading(false)
-					}
-					getApplicationsPeriodAsync()
-				}
+				const response = await getActiveAdmissionRound()
+				setAdmissionRound(response)
 				setIsLoading(false)
 			} catch (err) {
-				setPeriodOpen(false)
+				setAdmissionRound(null)
 				setIsLoading(false)
 			}
 		}
-		getApplicationPeriodActiveAsync()
+		getActiveAdmissionRoundAsync()
 	}, [])
 
+	// Tick the countdown to the closing of the round
+	useEffect(() => {
+		if (!admissionRound) return undefined
+		const interval = setInterval(() => setNow(Date.now()), 1000)
+		return () => clearInterval(interval)
+	}, [admissionRound])
+
+	// The form closes when the countdown reaches zero, like on the server
+	const isOpen =
+		!!admissionRound && now < new Date(admissionRound.closes_at).getTime()
+
 	return (
 		<>
 			<Box className={classes.header}>
@@ -209,16 +214,18 @@ function FormBox() {
 			</Box>
 			{isLoading ? (
 				<Loader size='xl' color='yellow' className={classes.loading} />
-			) : periodOpen ? (
+			) : admissionRound && isOpen ? (
 				<Box className={classes.formTitleAndBodyWrapper}>
 					<h1 className={classes.formTitle}>
 						<FileText />
 						Søknad til NTNUI Admin
 					</h1>
-					{endDate && (
-						<p className={classes.endOfSearchPeriodText}>Søknadsfrist: {endDate}</p>
-					)}
-					<Form />
+					<p className={classes.endOfSearchPeriodText}>
+						Søknadsfrist: {formatDeadline(admissionRound)}
+						<br />
+						Stenger om {formatCountdown(admissionRound.closes_at, now)}
+					</p>
+					<Form admissionRound={admissionRound} />
 				</Box>
 			) : (
 				<Box className={classes.closedPeriod}>
@@ -232,6 +239,9 @@ function FormBox() {
 					</p>
 				</Box>
 			)}
+			<p className={classes.portalText}>
+				Har du allerede søkt? <Link to='/my-application'>Se søknaden din</Link>
+			</p>
 		</>
 	)
 }
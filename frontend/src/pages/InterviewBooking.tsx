@@ -0,0 +1,231 @@
+import { Box, Button, createStyles, Loader } from '@mantine/core'
+import { useNotifications } from '@mantine/notifications'
+import { useEffect, useState } from 'react'
+import { useParams } from 'react-router-dom'
+import {
+	CalendarEvent,
+	CalendarTime,
+	Check,
+	MapPin,
+	X,
+} from 'tabler-icons-react'
+import {
+	bookInvitedInterviewSlot,
+	getInterviewInvitation,
+} from '../services/Interviews'
+import { IInterviewInvitation } from '../types/types'
+import { formatInterviewTime } from '../utils/interview'
+
+const useStyles = createStyles((theme) => ({
+	header: {
+		display: 'flex',
+		flexDirection: 'column',
+		alignItems: 'center',
+		margin: '2rem 0',
+		h1: {
+			color: 'white',
+			fontWeight: 'lighter',
+			fontSize: 'x-large',
+			margin: '-10px 0 0 0',
+		},
+		img: {
+			height: '100px',
+		},
+	},
+	bookingWrapper: {
+		width: '35%',
+		margin: 'auto auto 2rem auto',
+		padding: '1rem 2rem 2rem 2rem',
+		border: '2px solid ' + theme.colors.ntnui_yellow[9],
+		boxShadow: '0rem 0rem 1rem 0.4rem ' + theme.colors.dark[7],
+		borderRadius: '20px',
+		color: 'white',
+		'@media (max-width: 1200px)': {
+			width: '60%',
+		},
+		'@media (max-width: 700px)': {
+			width: '85%',
+			border: 'none',
+			boxShadow: 'none',
+			padding: '1rem',
+		},
+	},
+	title: {
+		fontWeight: 'lighter',
+		fontSize: 'x-large',
+		textAlign: 'center',
+		'*': {
+			// Icon
+			margin: '0 0 -3px 0',
+		},
+	},
+	bookedSlot: {
+		display: 'flex',
+		flexDirection: 'column',
+		gap: '0.3rem',
+		padding: '0.75rem 1.25rem',
+		margin: '0 0 1rem 0',
+		borderRadius: theme.radius.sm,
+		backgroundColor: theme.colors.ntnui_green[9] + '33',
+		p: {
+			margin: 0,
+			display: 'flex',
+			alignItems: 'center',
+			gap: '0.3rem',
+		},
+	},
+	slots: {
+		display: 'flex',
+		flexDirection: 'column',
+		gap: '0.5rem',
+	},
+	slotButton: {
+		height: 'auto',
+		padding: '0.5rem 1rem',
+		backgroundColor: 'transparent',
+		border: '2px solid ' + theme.colors.ntnui_yellow[9],
+		fontWeight: 'normal',
+		transition: '0.3s',
+		'&:hover': {
+			backgroundColor: theme.colors.ntnui_yellow[9] + '33',
+		},
+	},
+	slotButtonInner: {
+		justifyContent: 'space-between',
+	},
+	infoText: {
+		textAlign: 'center',
+		color: theme.colors.gray[5],
+	},
+	loading: {
+		margin: 'auto',
+		width: '100%',
+	},
+}))
+
+function InterviewBooking() {
+	const { classes } = useStyles()
+	const { token } = useParams()
+	const notifications = useNotifications()
+	const [invitation, setInvitation] = useState<IInterviewInvitation | null>(null)
+	const [isLoading, setIsLoading] = useState<boolean>(true)
+	const [isBooking, setIsBooking] = useState<boolean>(false)
+
+	useEffect(() => {
+		const getInvitationAsync = async () => {
+			if (!token) return
+			setIsLoading(true)
+			try {
+				setInvitation(await getInterviewInvitation(token))
+			} catch (error) {
+				setInvitation(null)
+			}
+			setIsLoading(false)
+		}
+		getInvitationAsync()
+	}, [token])
+
+	async function bookSlot(slotId: string) {
+		if (!token || !invitation) return
+		setIsBooking(true)
+		try {
+			await bookInvitedInterviewSlot(token, slotId)
+			notifications.showNotification({
+				title: 'Intervjutiden er booket!',
+				message: '',
+				color: 'green',
+				icon: <Check size={18} />,
+				autoClose: 3000,
+			})
+		} catch (error: any) {
+			notifications.showNotification({
+				title: 'Kunne ikke booke intervjutid!',
+				message:
+					error.response?.status === 409
+						? 'Intervjutiden er ikke lenger ledig, eller du har et annet intervju samtidig'
+						: 'En feil oppstod. Ta kontakt med sprint@ntnui.no dersom problemet vedvarer',
+				color: 'red',
+				autoClose: false,
+				icon: <X size={18} />,
+			})
+		}
+		// Refresh the free slots, as others might have booked in the meantime
+		try {
+			setInvitation(await getInterviewInvitation(token))
+		} catch (error) {
+			setInvitation(null)
+		}
+		setIsBooking(false)
+	}
+
+	return (
+		<>
+			<Box className={classes.header}>
+				<img alt='NTNUI logo' src='/images/ntnui.svg' />
+				<h1>OPPTAK</h1>
+			</Box>
+			{isLoading ? (
+				<Loader size='xl' color='yellow' className={classes.loading} />
+			) : !invitation ? (
+				<Box className={classes.bookingWrapper}>
+					<h1 className={classes.title}>Lenken er ugyldig</h1>
+					<p className={classes.infoText}>
+						Lenken kan ha blitt erstattet av en ny. Ta kontakt med utvalget du har
+						søkt til.
+					</p>
+				</Box>
+			) : (
+				<Box className={classes.bookingWrapper}>
+					<h1 className={classes.title}>
+						<CalendarTime /> Intervju med {invitation.committee}
+					</h1>
+					<p>
+						Hei {invitation.name}! Du er invitert til intervju. Velg tidspunktet som
+						passer deg best.
+					</p>
+					{invitation.booked_slot && (
+						<div className={classes.bookedSlot}>
+							<b>Din intervjutid</b>
+							<p>
+								<CalendarEvent size={16} />
+								{formatInterviewTime(invitation.booked_slot)}
+							</p>
+							<p>
+								<MapPin size={16} />
+								{invitation.booked_slot.location}
+							</p>
+						</div>
+					)}
+					{!invitation.can_book ? (
+						<p className={classes.infoText}>
+							Det er ikke lenger mulig å booke intervjutid med denne lenken.
+						</p>
+					) : !invitation.slots.length ? (
+						<p className={classes.infoText}>
+							Det er ingen ledige intervjutider. Ta kontakt med utvalget du har søkt
+							til.
+						</p>
+					) : (
+						<div className={classes.slots}>
+							{invitation.booked_slot && <b>Bytt til en annen tid</b>}
+							{invitation.slots.map((slot) => (
+								<Button
+									key={slot._id}
+									className={classes.slotButton}
+									classNames={{ inner: classes.slotButtonInner }}
+									disabled={isBooking}
+									onClick={() => bookSlot(slot._id)}
+								>
+									<span>{formatInterviewTime(slot)}</span>
+									<span>{slot.location}</span>
+								</Button>
+							))}
+						</div>
+					)}
+				</Box>
+			)}
+		</>
+	)
+}
+
+export default InterviewBooking
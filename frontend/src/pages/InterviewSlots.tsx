@@ -0,0 +1,395 @@
+import {
+	ActionIcon,
+	Button,
+	createStyles,
+	Loader,
+	Select,
+	TextInput,
+} from '@mantine/core'
+import { DatePicker, TimeRangeInput } from '@mantine/dates'
+import { useForm } from '@mantine/form'
+import { useNotifications } from '@mantine/notifications'
+import dayjs from 'dayjs'
+import 'dayjs/locale/nb'
+import { useEffect, useState } from 'react'
+import { useLocation, useNavigate } from 'react-router-dom'
+import {
+	Calendar,
+	Check,
+	ChevronDown,
+	Clock,
+	MapPin,
+	Trash,
+	Users,
+	X,
+} from 'tabler-icons-react'
+import { getManagedCommittees } from '../services/Committees'
+import { IUserPermissions } from '../services/User'
+import {
+	deleteInterviewSlot,
+	getInterviewSlots,
+	postInterviewSlot,
+} from '../services/Interviews'
+import { ICommittee, IInterviewSlot } from '../types/types'
+import { formatInterviewTime } from '../utils/interview'
+
+const useStyles = createStyles((theme) => ({
+	pageWrapper: {
+		display: 'flex',
+		flexDirection: 'column',
+		gap: '1rem',
+		margin: '0 auto 2rem auto',
+		width: '50%',
+		color: 'white',
+		'@media (max-width: 1200px)': {
+			width: '70%',
+		},
+		'@media (max-width: 700px)': {
+			width: '90%',
+		},
+	},
+	header: {
+		textAlign: 'center',
+		h1: {
+			fontWeight: 'lighter',
+			margin: '1rem 0 0 0',
+		},
+		p: {
+			margin: '10px 0 0 0',
+		},
+	},
+	input: {
+		backgroundColor: 'transparent',
+		color: 'white',
+		border: '2px solid ' + theme.colors.ntnui_yellow[9],
+	},
+	label: {
+		color: 'white',
+	},
+	icon: {
+		color: theme.colors.ntnui_yellow[9],
+	},
+	rightSection: {
+		pointerEvents: 'none',
+	},
+	form: {
+		display: 'grid',
+		gridTemplateColumns: '1fr 1fr',
+		gap: '0.5rem 1rem',
+		'@media (max-width: 700px)': {
+			gridTemplateColumns: '1fr',
+		},
+	},
+	submitButton: {
+		gridColumn: '1 / -1',
+		backgroundColor: theme.colors.ntnui_green[9],
+		transition: '0.3s',
+		border: '2px solid' + theme.colors.ntnui_green[9],
+		':hover': {
+			border: '2px solid' + theme.colors.ntnui_green[9],
+			color: theme.colors.ntnui_green[9],
+			backgroundColor: 'transparent',
+		},
+	},
+	slot: {
+		color: theme.colors.gray[2],
+		border: '2px solid' + theme.colors.ntnui_yellow[9],
+		padding: '0.75rem 1.25rem',
+		borderRadius: theme.radius.sm,
+		display: 'flex',
+		alignItems: 'center',
+		gap: '1rem',
+		boxShadow: '0rem 0.2rem 0.4rem ' + theme.colors.dark[7],
+		p: {
+			margin: 0,
+		},
+	},
+	slotInfo: {
+		flexGrow: 1,
+		display: 'flex',
+		flexDirection: 'column',
+		gap: '0.2rem',
+		fontWeight: 300,
+	},
+	slotDetail: {
+		display: 'flex',
+		alignItems: 'center',
+		gap: '0.3rem',
+		fontSize: 'small',
+	},
+	bookedBy: {
+		color: theme.colors.ntnui_yellow[9],
+		cursor: 'pointer',
+		fontSize: 'small',
+	},
+	deleteButton: {
+		color: theme.colors.ntnui_red[9],
+		'&:hover': {
+			backgroundColor: theme.colors.ntnui_red[9] + '4D',
+		},
+	},
+	emptyText: {
+		textAlign: 'center',
+		color: theme.colors.gray[5],
+	},
+}))
+
+interface stateType {
+	permissions: IUserPermissions
+}
+
+function InterviewSlots() {
+	const { classes } = useStyles()
+	const navigate = useNavigate()
+	const location = useLocation()
+	const notifications = useNotifications()
+	const [committees, setCommittees] = useState<ICommittee[]>([])
+	const [committee, setCommittee] = useState<string | null>(null)
+	const [slots, setSlots] = useState<IInterviewSlot[]>([])
+	const [isLoading, setIsLoading] = useState<boolean>(false)
+
+	const form = useForm({
+		initialValues: {
+			date: new Date(),
+			time: [
+				dayjs().startOf('hour').add(1, 'hour').toDate(),
+				dayjs().startOf('hour').add(90, 'minute').toDate(),
+			],
+			location: '',
+			interviewers: '',
+		},
+		validate: {
+			date: (value) => (value ? null : 'Velg en dato'),
+			time: (value) =>
+				value[0] && value[1] && dayjs(value[0]).isBefore(value[1])
+					? null
+					: 'Slutttiden må være etter starttiden',
+			location: (value) =>
+				value.trim().length >= 1 ? null : 'Feltet kan ikke være tomt',
+		},
+	})
+
+	useEffect(() => {
+		async function getCommitteesAsync() {
+			try {
+				const locationState = location.state as stateType
+				const userCommittees = await getManagedCommittees(
+					locationState.permissions.managed_committees
+				)
+				setCommittees(userCommittees)
+				if (userCommittees.length) {
+					setCommittee(userCommittees[0]._id.toString())
+				}
+			} catch (error: any) {
+				if (error.response.status === 401) {
+					navigate('/login')
+				}
+			}
+		}
+		getCommitteesAsync()
+	}, [location.state, navigate])
+
+	useEffect(() => {
+		if (!committee) return
+		async function getSlotsAsync() {
+			setIsLoading(true)
+			try {
+				setSlots(await getInterviewSlots(Number(committee)))
+			} catch (error) {
+				setSlots([])
+			}
+			setIsLoading(false)
+		}
+		getSlotsAsync()
+	}, [committee])
+
+	// Combine the chosen date with the chosen clock times
+	const toDateTime = (date: Date, time: Date) =>
+		dayjs(date)
+			.hour(time.getHours())
+			.minute(time.getMinutes())
+			.second(0)
+			.millisecond(0)
+			.toDate()
+
+	const saveSlot = async (values: typeof form.values) => {
+		if (!committee) return
+		try {
+			const slot = await postInterviewSlot({
+				committee: Number(committee),
+				start_time: toDateTime(values.date, values.time[0]),
+				end_time: toDateTime(values.date, values.time[1]),
+				location: values.location,
+				interviewers: values.interviewers
+					.split(',')
+					.map((interviewer) => interviewer.trim())
+					.filter((interviewer) => interviewer.length),
+			})
+			setSlots(
+				[...slots, slot].sort((a, b) =>
+					dayjs(a.start_time).isBefore(b.start_time) ? -1 : 1
+				)
+			)
+			notifications.showNotification({
+				title: 'Intervjutid lagt til!',
+				message: '',
+				color: 'green',
+				icon: <Check size={18} />,
+				autoClose: 3000,
+			})
+		} catch (error) {
+			notifications.showNotification({
+				title: 'Kunne ikke legge til intervjutid!',
+				message:
+					'En feil oppstod. Ta kontakt med sprint@ntnui.no dersom problemet vedvarer',
+				color: 'red',
+				icon: <X size={18} />,
+				autoClose: false,
+			})
+		}
+	}
+
+	const removeSlot = async (slotId: string) => {
+		try {
+			await deleteInterviewSlot(slotId)
+			setSlots(slots.filter((slot) => slot._id !== slotId))
+		} catch (error) {
+			notifications.showNotification({
+				title: 'Kunne ikke slette intervjutid!',
+				message:
+					'En feil oppstod. Ta kontakt med sprint@ntnui.no dersom problemet vedvarer',
+				color: 'red',
+				icon: <X size={18} />,
+				autoClose: false,
+			})
+		}
+	}
+
+	return (
+		<div className={classes.pageWrapper}>
+			<div className={classes.header}>
+				<h1>Intervjutider</h1>
+				<p>
+					Publiser tidspunkter for intervju, og book dem for søkere som er invitert
+					til intervju fra søknaden.
+				</p>
+			</div>
+			<Select
+				label='Utvalg'
+				data={committees.map((com) => ({
+					value: com._id.toString(),
+					label: com.name,
+				}))}
+				value={committee}
+				onChange={setCommittee}
+				rightSection={<ChevronDown size={14} />}
+				rightSectionWidth={40}
+				classNames={{
+					input: classes.input,
+					label: classes.label,
+					rightSection: classes.rightSection,
+				}}
+			/>
+			<form className={classes.form} onSubmit={form.onSubmit(saveSlot)}>
+				<DatePicker
+					locale='nb'
+					label='Dato'
+					icon={<Calendar />}
+					clearable={false}
+					classNames={{
+						input: classes.input,
+						label: classes.label,
+						icon: classes.icon,
+					}}
+					{...form.getInputProps('date')}
+				/>
+				<TimeRangeInput
+					label='Tid'
+					icon={<Clock />}
+					classNames={{
+						input: classes.input,
+						label: classes.label,
+						icon: classes.icon,
+					}}
+					{...form.getInputProps('time')}
+				/>
+				<TextInput
+					label='Sted'
+					icon={<MapPin />}
+					classNames={{
+						input: classes.input,
+						label: classes.label,
+						icon: classes.icon,
+					}}
+					{...form.getInputProps('location')}
+				/>
+				<TextInput
+					label='Intervjuere'
+					placeholder='Kommaseparert liste med navn'
+					icon={<Users />}
+					classNames={{
+						input: classes.input,
+						label: classes.label,
+						icon: classes.icon,
+					}}
+					{...form.getInputProps('interviewers')}
+				/>
+				<Button
+					type='submit'
+					className={classes.submitButton}
+					leftIcon={<Check />}
+					disabled={!committee}
+				>
+					Legg til intervjutid
+				</Button>
+			</form>
+			{isLoading ? (
+				<Loader color='yellow' variant='dots' />
+			) : !slots.length ? (
+				<i className={classes.emptyText}>Ingen intervjutider er publisert</i>
+			) : (
+				slots.map((slot) => {
+					// The application is populated with name when booked
+					const bookedBy =
+						typeof slot.application === 'string' ? null : slot.application
+					return (
+						<div key={slot._id} className={classes.slot}>
+							<div className={classes.slotInfo}>
+								<p>{formatInterviewTime(slot)}</p>
+								<p className={classes.slotDetail}>
+									<MapPin size={16} />
+									{slot.location}
+								</p>
+								{slot.interviewers.length > 0 && (
+									<p className={classes.slotDetail}>
+										<Users size={16} />
+										{slot.interviewers.join(', ')}
+									</p>
+								)}
+							</div>
+							{bookedBy ? (
+								<span
+									className={classes.bookedBy}
+									onClick={() => navigate(`/applications/${bookedBy._id}`)}
+								>
+									Booket av {bookedBy.name}
+								</span>
+							) : (
+								<i>Ledig</i>
+							)}
+							<ActionIcon
+								className={classes.deleteButton}
+								title='Slett intervjutid'
+								onClick={() => removeSlot(slot._id)}
+							>
+								<Trash size={18} />
+							</ActionIcon>
+						</div>
+					)
+				})
+			)}
+		</div>
+	)
+}
+
+export default InterviewSlots
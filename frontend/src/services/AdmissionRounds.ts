@@ -0,0 +1,47 @@
+import axios from 'axios'
+import { IAdmissionRound } from '../types/types'
+
+export type IAdmissionRoundInput = Pick<
+	IAdmissionRound,
+	'name' | 'start_date' | 'end_date' | 'time_zone' | 'committees'
+>
+
+export const getAdmissionRounds = async (): Promise<IAdmissionRound[]> => {
+	const response = await axios.get('/admission-rounds')
+	return response.data.admissionRounds
+}
+
+// The round open for applications, or null if there is none
+export const getActiveAdmissionRound =
+	async (): Promise<IAdmissionRound | null> => {
+		try {
+			const response = await axios.get('/admission-rounds/active')
+			return response.data.admissionRound
+		} catch (error: any) {
+			if (error.response?.status === 404) return null
+			throw error
+		}
+	}
+
+export const postAdmissionRound = async (
+	admissionRound: IAdmissionRoundInput
+): Promise<IAdmissionRound> => {
+	const response = await axios.post('/admission-rounds', admissionRound)
+	return response.data.admissionRound
+}
+
+export const putAdmissionRound = async (
+	roundId: string,
+	admissionRound: IAdmissionRoundInput
+): Promise<IAdmissionRound> => {
+	const response = await axios.put(
+		`/admission-rounds/${roundId}`,
+		admissionRound
+	)
+	return response.data.admissionRound
+}
+
+export const deleteAdmissionRound = async (roundId: string) => {
+	const response = await axios.delete(`/admission-rounds/${roundId}`)
+	return response.data
+}
@@ -0,0 +1,32 @@
+import axios from 'axios'
+import { IApplicantPortal } from '../types/types'
+
+export const getApplicantPortal = async (
+	token: string
+): Promise<IApplicantPortal> => {
+	const response = await axios.get(`/applications/portal/${token}`)
+	return response.data
+}
+
+export const putApplicantPortalText = async (
+	token: string,
+	text: string
+): Promise<string> => {
+	const response = await axios.put(`/applications/portal/${token}`, { text })
+	return response.data.text
+}
+
+export const postApplicantPortalWithdrawal = async (
+	token: string,
+	committee: number
+) => {
+	const response = await axios.post(`/applications/portal/${token}/withdraw`, {
+		committee,
+	})
+	return response.data
+}
+
+export const postApplicantPortalLink = async (email: string) => {
+	const response = await axios.post('/applications/portal', { email })
+	return response.data
+}
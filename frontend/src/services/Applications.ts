@@ -1,8 +1,8 @@
 import axios from 'axios'
 import {
-	IAdmissionPeriod,
 	IApplicationsResponse,
 	IApplicationResponse,
+	IApplicationDuplicate,
 } from '../types/types'
 
 const getApplications = async (
@@ -12,38 +12,66 @@ const getApplications = async (
 	return response.data
 }
 
-const getAdmissionPeriod = async () => {
-	const response = await axios.get(`/applications/period`)
+const getApplication = async (id: String): Promise<IApplicationResponse> => {
+	const response = await axios.get(`/applications/${id}`)
 	return response.data
 }
 
-const putAdmissionPeriod = async (admissionPeriod: IAdmissionPeriod) => {
-	const response = await axios.put(`/applications/period/`, {
-		...admissionPeriod,
+const getApplicationPdf = async (id: String): Promise<Blob> => {
+	const response = await axios.get(`/applications/${id}/pdf`, {
+		responseType: 'blob',
 	})
 	return response.data
 }
 
-const getApplication = async (id: String): Promise<IApplicationResponse> => {
-	const response = await axios.get(`/applications/${id}`)
+const getApplicationAttachment = async (
+	id: String,
+	attachmentId: string
+): Promise<Blob> => {
+	const response = await axios.get(
+		`/applications/${id}/attachments/${attachmentId}`,
+		{ responseType: 'blob' }
+	)
+	return response.data
+}
+
+const getApplicationDuplicates = async (
+	id: String
+): Promise<{ duplicates: IApplicationDuplicate[]; can_merge: boolean }> => {
+	const response = await axios.get(`/applications/${id}/duplicates`)
 	return response.data
 }
 
-const isApplicationPeriodActive = async (): Promise<boolean> => {
-	const response = await axios.get('/applications/period/active')
-	return response.data.response
+const mergeApplications = async (id: String, duplicateId: string) => {
+	const response = await axios.post(`/applications/${id}/merge`, {
+		duplicate: duplicateId,
+	})
+	return response.data
+}
+
+const getApplicationExport = async (
+	query: string,
+	format: 'csv' | 'xlsx'
+): Promise<Blob> => {
+	const response = await axios.get(`/applications/export?${query}`, {
+		params: { format },
+		responseType: 'blob',
+	})
+	return response.data
 }
 
-const wipeApplicationData = async () => {
-	const response = await axios.delete('/applications/')
+const wipeApplicationData = async (name: string) => {
+	const response = await axios.delete('/applications/', { data: { name } })
 	return response
 }
 
 export {
 	getApplications,
 	getApplication,
-	getAdmissionPeriod,
-	putAdmissionPeriod,
-	isApplicationPeriodActive,
+	getApplicationPdf,
+	getApplicationAttachment,
+	getApplicationDuplicates,
+	mergeApplications,
+	getApplicationExport,
 	wipeApplicationData,
 }
@@ -0,0 +1,36 @@
+import axios from 'axios'
+import { IAdmissionArchive, IArchivedApplication } from '../types/types'
+
+export interface IArchivedApplicationsResponse {
+	applications: IArchivedApplication[]
+	pagination: {
+		currentPage: number
+		numberOfPages: number
+	}
+}
+
+export const getArchives = async (): Promise<IAdmissionArchive[]> => {
+	const response = await axios.get('/archives')
+	return response.data.archives
+}
+
+export const getArchivedApplications = async (
+	archiveId: string,
+	page: number,
+	name: string
+): Promise<IArchivedApplicationsResponse> => {
+	const response = await axios.get(`/archives/${archiveId}/applications`, {
+		params: { page, name: name || undefined },
+	})
+	return response.data
+}
+
+export const restoreArchive = async (archiveId: string) => {
+	const response = await axios.post(`/archives/${archiveId}/restore`)
+	return response.data
+}
+
+export const purgeArchive = async (archiveId: string) => {
+	const response = await axios.delete(`/archives/${archiveId}`)
+	return response.data
+}
@@ -0,0 +1,25 @@
+import axios from 'axios'
+import { IAuditLogEntry } from '../types/types'
+
+export interface IAuditLogFilter {
+	action?: string
+	actor?: string
+	from?: string
+	to?: string
+}
+
+export interface IAuditLogResponse {
+	entries: IAuditLogEntry[]
+	pagination: {
+		currentPage: number
+		numberOfPages: number
+	}
+}
+
+export const getAuditLog = async (
+	page: number,
+	filter: IAuditLogFilter
+): Promise<IAuditLogResponse> => {
+	const response = await axios.get('/audit', { params: { page, ...filter } })
+	return response.data
+}
@@ -10,3 +10,7 @@ export const login = (phone_number: string, password: string) => {
 		password: password,
 	})
 }
+
+export const logoutEverywhere = () => {
+	return axios.post('/auth/logout/all')
+}
@@ -0,0 +1,36 @@
+import axios from 'axios'
+import { IComment } from '../types/types'
+
+export interface ICommentsResponse {
+	comments: IComment[]
+	committees: number[]
+}
+
+export const getComments = async (
+	applicationId: string
+): Promise<ICommentsResponse> => {
+	const response = await axios.get(`/applications/${applicationId}/comments`)
+	return response.data
+}
+
+export const postComment = async (
+	applicationId: string,
+	committee: number,
+	text: string
+): Promise<IComment> => {
+	const response = await axios.post(`/applications/${applicationId}/comments`, {
+		committee,
+		text,
+	})
+	return response.data.comment
+}
+
+export const deleteComment = async (
+	applicationId: string,
+	commentId: string
+) => {
+	const response = await axios.delete(
+		`/applications/${applicationId}/comments/${commentId}`
+	)
+	return response.data
+}
@@ -0,0 +1,43 @@
+import axios from 'axios'
+import { ICommitteeQuestion } from '../types/types'
+
+export type ICommitteeQuestionInput = Pick<
+	ICommitteeQuestion,
+	'type' | 'question' | 'options' | 'required'
+>
+
+export const getCommitteeQuestions = async (
+	committees: number[] = []
+): Promise<ICommitteeQuestion[]> => {
+	const query = new URLSearchParams()
+	committees.forEach((committee) => query.append('committee', `${committee}`))
+	const response = await axios.get(`/committee-questions?${query}`)
+	return response.data.questions
+}
+
+export const postCommitteeQuestion = async (
+	committee: number,
+	question: ICommitteeQuestionInput
+): Promise<ICommitteeQuestion> => {
+	const response = await axios.post('/committee-questions', {
+		committee,
+		...question,
+	})
+	return response.data.question
+}
+
+export const putCommitteeQuestion = async (
+	questionId: string,
+	question: ICommitteeQuestionInput
+): Promise<ICommitteeQuestion> => {
+	const response = await axios.put(
+		`/committee-questions/${questionId}`,
+		question
+	)
+	return response.data.question
+}
+
+export const deleteCommitteeQuestion = async (questionId: string) => {
+	const response = await axios.delete(`/committee-questions/${questionId}`)
+	return response.data
+}
@@ -1,5 +1,5 @@
 import axios from 'axios'
-import { ICommittee } from '../types/types'
+import { ICommittee, IScheduledJob } from '../types/types'
 
 export interface IRoleInCommittee {
 	committee: ICommittee
@@ -16,6 +16,18 @@ export const getUserCommittees = async (): Promise<IRoleInCommittee[]> => {
 	return response.data.committees
 }
 
+/**
+ * Committees the user manages admissions for, from the user's permissions
+ */
+export const getManagedCommittees = async (
+	managedCommittees: number[]
+): Promise<ICommittee[]> => {
+	const allCommittees = await getAllCommittees()
+	return allCommittees.filter((com: ICommittee) =>
+		managedCommittees.includes(com._id)
+	)
+}
+
 export const toggleAcceptsAdmissions = async (slug: string) => {
 	const response = axios
 		.put(`/committees/${slug}/accept-admissions`)
@@ -24,3 +36,41 @@ export const toggleAcceptsAdmissions = async (slug: string) => {
 		})
 	return response
 }
+
+export const putAdmissionWindow = async (
+	slug: string,
+	admissionStartDate: string | null,
+	admissionEndDate: string | null
+): Promise<Pick<ICommittee, 'admission_start_date' | 'admission_end_date'>> => {
+	const response = await axios.put(`/committees/${slug}/admission-window`, {
+		admission_start_date: admissionStartDate,
+		admission_end_date: admissionEndDate,
+	})
+	return response.data
+}
+
+export const getScheduledJobs = async (
+	slug: string
+): Promise<IScheduledJob[]> => {
+	const response = await axios.get(`/committees/${slug}/scheduled-jobs`)
+	return response.data.scheduledJobs
+}
+
+export const postScheduledJob = async (
+	slug: string,
+	type: IScheduledJob['type'],
+	runAt: Date
+): Promise<IScheduledJob> => {
+	const response = await axios.post(`/committees/${slug}/scheduled-jobs`, {
+		type,
+		run_at: runAt,
+	})
+	return response.data.scheduledJob
+}
+
+export const deleteScheduledJob = async (slug: string, jobId: string) => {
+	const response = await axios.delete(
+		`/committees/${slug}/scheduled-jobs/${jobId}`
+	)
+	return response.data
+}
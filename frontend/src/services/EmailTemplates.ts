@@ -0,0 +1,49 @@
+import axios from 'axios'
+import { IEmailTemplate } from '../types/types'
+
+export interface IEmailTemplatesResponse {
+	templates: IEmailTemplate[]
+	placeholders: string[]
+}
+
+export interface IEmailPreview {
+	subject: string
+	text: string
+	// The applicant the preview is made for, null if placeholder data is used
+	applicant_name: string | null
+}
+
+export const getEmailTemplates = async (
+	committee: number
+): Promise<IEmailTemplatesResponse> => {
+	const response = await axios.get(`/email-templates?committee=${committee}`)
+	return response.data
+}
+
+export const putEmailTemplate = async (
+	template: Pick<
+		IEmailTemplate,
+		'committee' | 'status' | 'language' | 'subject' | 'body'
+	>
+): Promise<IEmailTemplate> => {
+	const response = await axios.put('/email-templates', template)
+	return response.data.template
+}
+
+export const deleteEmailTemplate = async (templateId: string) => {
+	const response = await axios.delete(`/email-templates/${templateId}`)
+	return response.data
+}
+
+export const previewEmailTemplate = async (
+	committee: number,
+	subject: string,
+	body: string
+): Promise<IEmailPreview> => {
+	const response = await axios.post('/email-templates/preview', {
+		committee,
+		subject,
+		body,
+	})
+	return response.data.preview
+}
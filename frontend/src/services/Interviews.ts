@@ -0,0 +1,67 @@
+import axios from 'axios'
+import {
+	IInterviewInvitation,
+	IInterviewSlot,
+	IPublicInterviewSlot,
+} from '../types/types'
+
+export interface INewInterviewSlot {
+	committee: number
+	start_time: Date
+	end_time: Date
+	location: string
+	interviewers: string[]
+}
+
+export const getInterviewSlots = async (
+	committee: number
+): Promise<IInterviewSlot[]> => {
+	const response = await axios.get(`/interviews/slots?committee=${committee}`)
+	return response.data.slots
+}
+
+export const postInterviewSlot = async (
+	slot: INewInterviewSlot
+): Promise<IInterviewSlot> => {
+	const response = await axios.post('/interviews/slots', slot)
+	return response.data.slot
+}
+
+export const deleteInterviewSlot = async (slotId: string) => {
+	const response = await axios.delete(`/interviews/slots/${slotId}`)
+	return response.data
+}
+
+export const bookInterviewSlot = async (
+	slotId: string,
+	applicationId: string | null
+): Promise<IInterviewSlot> => {
+	const response = await axios.put(`/interviews/slots/${slotId}/application`, {
+		application: applicationId,
+	})
+	return response.data.slot
+}
+
+export const getApplicationInterviews = async (
+	applicationId: string
+): Promise<IInterviewSlot[]> => {
+	const response = await axios.get(`/interviews/applications/${applicationId}`)
+	return response.data.slots
+}
+
+export const getInterviewInvitation = async (
+	token: string
+): Promise<IInterviewInvitation> => {
+	const response = await axios.get(`/applications/interview/${token}`)
+	return response.data
+}
+
+export const bookInvitedInterviewSlot = async (
+	token: string,
+	slotId: string
+): Promise<IPublicInterviewSlot> => {
+	const response = await axios.post(`/applications/interview/${token}`, {
+		slot: slotId,
+	})
+	return response.data.booked_slot
+}
@@ -0,0 +1,22 @@
+import axios from 'axios'
+import { IStatusHistory } from '../types/types'
+import StatusTypes from '../utils/enums'
+
+export const getStatusHistory = async (
+	statusId: string
+): Promise<IStatusHistory[]> => {
+	const response = await axios.get(`/statuses/${statusId}/history`)
+	return response.data.history
+}
+
+export type IStatusTransitions = Record<StatusTypes, StatusTypes[]>
+
+export const getStatusTransitions = async (): Promise<IStatusTransitions> => {
+	const response = await axios.get('/statuses/transitions')
+	return response.data.transitions
+}
+
+export const postInterviewLink = async (statusId: string): Promise<string> => {
+	const response = await axios.post(`/statuses/${statusId}/interview-link`)
+	return response.data.interview_link
+}
@@ -21,3 +21,39 @@ export const getUserProfile = async (): Promise<IUserProfile> => {
 	const response = await axios.get('/user/profile')
 	return response.data
 }
+
+export interface IUserSession {
+	_id: string
+	user_agent: string
+	created_date: string
+	last_used_date: string
+	current: boolean
+}
+
+export const getUserSessions = async (): Promise<IUserSession[]> => {
+	const response = await axios.get('/user/sessions')
+	return response.data.sessions
+}
+
+export const deleteUserSession = async (sessionId: string) => {
+	return axios.delete(`/user/sessions/${sessionId}`)
+}
+
+export interface IUserPermissions {
+	read_main_board: boolean
+	manage_admission_rounds: boolean
+	manage_archives: boolean
+	read_audit_log: boolean
+	merge_applications: boolean
+	// Committees whose statuses, interviews, templates and questions are managed
+	managed_committees: number[]
+	// Committees whose admissions can be opened and closed
+	admission_committees: number[]
+	// Committees that take applications, and can be part of admission rounds
+	application_committees: number[]
+}
+
+export const getUserPermissions = async (): Promise<IUserPermissions> => {
+	const response = await axios.get('/user/permissions')
+	return response.data.permissions
+}
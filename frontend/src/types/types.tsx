@@ -11,6 +11,125 @@ export interface IStatus {
 	updated_date: Date
 }
 
+interface IStatusHistory {
+	_id: string
+	committee: number
+	previous_value: StatusTypes | null
+	value: StatusTypes
+	set_by: string
+	set_date: Date
+}
+
+interface IComment {
+	_id: string
+	committee: {
+		name: string
+		_id: number
+	}
+	author_name: string
+	text: string
+	created_date: Date
+	is_author: boolean
+}
+
+interface IInterviewSlot {
+	_id: string
+	committee: number
+	start_time: Date
+	end_time: Date
+	location: string
+	interviewers: string[]
+	application: { _id: string; name: string } | string | null
+}
+
+// Interview slot as shown to the applicant
+type IPublicInterviewSlot = Omit<IInterviewSlot, 'interviewers' | 'application'>
+
+interface IInterviewInvitation {
+	name: string
+	committee: string
+	can_book: boolean
+	booked_slot: IPublicInterviewSlot | null
+	slots: IPublicInterviewSlot[]
+}
+
+// What the applicant sees of their own application in the applicant portal
+interface IApplicantPortal {
+	name: string
+	email: string
+	phone_number: string
+	text: string
+	submitted_date: string
+	can_edit: boolean
+	committees: {
+		_id: number
+		name: string
+		withdrawn: boolean
+		can_withdraw: boolean
+	}[]
+	answers: IApplicationAnswer[]
+	attachments: { file_name: string; size: number }[]
+}
+
+interface IEmailTemplate {
+	_id?: string
+	committee: number
+	status: StatusTypes
+	language: 'nb' | 'en'
+	subject: string
+	body: string
+	is_default: boolean
+	updated_by?: string
+	updated_date?: Date
+}
+
+interface IAuditLogEntry {
+	_id: string
+	// Null when the applicant did it
+	actor: number | null
+	actor_name: string
+	action: string
+	target_type: string
+	target_id: string | null
+	committee: number | null
+	before: unknown
+	after: unknown
+	created_date: Date
+}
+
+type QuestionType =
+	| 'short_text'
+	| 'long_text'
+	| 'single_choice'
+	| 'multiple_choice'
+	| 'yes_no'
+
+interface ICommitteeQuestion {
+	_id: string
+	committee: number
+	type: QuestionType
+	question: string
+	options: string[]
+	required: boolean
+	created_date: Date
+}
+
+type AnswerValue = string | string[] | boolean
+
+interface IApplicationAnswer {
+	question: string
+	committee: number
+	question_text: string
+	type: QuestionType
+	value: AnswerValue
+}
+
+interface IApplicationAttachment {
+	_id: string
+	file_name: string
+	size: number
+}
+
 interface IApplication {
 	_id: string
 	name: string
@@ -18,8 +137,22 @@ interface IApplication {
 	email: string
 	text: string
 	committees: ICommittee[]
+	// Committee ids ranked by the applicant, most wanted first
+	priorities?: number[]
 	submitted_date: Date
 	statuses: IStatus[]
+	// Only the answers to the questions of the user's committees
+	answers?: IApplicationAnswer[]
+	attachments?: IApplicationAttachment[]
+}
+
+// Another application likely sent by the same applicant
+interface IApplicationDuplicate {
+	_id: string
+	name: string
+	email: string
+	phone_number: string
+	submitted_date: string
 }
 
 interface IApplicationsResponse {
@@ -39,23 +172,92 @@ interface ICommittee {
 	name: string
 	slug: string
 	accepts_admissions: boolean
+	admission_start_date: string | null
+	admission_end_date: string | null
 	access_roles: string[]
+	// Only sent with the list of all committees
+	takes_applications?: boolean
 }
 
-interface IAdmissionPeriod {
+interface IAdmissionRound {
+	_id: string
+	name: string
 	start_date: string
 	end_date: string
+	time_zone: string
+	opens_at: string
+	closes_at: string
+	committees: number[]
+	created_date: Date
+	number_of_applications?: number
+}
+
+interface IScheduledJob {
+	_id: string
+	type: 'open_admissions' | 'close_admissions'
+	committee: number
+	run_at: string
+	created_by: number
+	executed_date: string | null
+	error: string | null
+	created_date: Date
 }
 
 interface ICommitteeResponse {
 	accepts_admissions: boolean
 }
 
+interface IAdmissionArchive {
+	_id: string
+	name: string
+	created_by: number
+	created_by_name: string
+	created_date: Date
+	purge_after: Date
+	restored_date: Date | null
+	admission_rounds: IAdmissionRound[]
+	committees: { _id: number; name: string; accepts_admissions: boolean }[]
+	number_of_applications: number
+}
+
+interface IArchivedApplication {
+	_id: string
+	name: string
+	email: string
+	phone_number: string
+	text: string
+	submitted_date: Date
+	statuses: { committee: string; value: StatusTypes; set_by: string | null }[]
+	comments: {
+		committee: string
+		author_name: string
+		text: string
+		created_date: Date
+	}[]
+}
+
 export type {
 	IApplication,
 	ICommittee,
 	IApplicationResponse,
 	IApplicationsResponse,
-	IAdmissionPeriod,
+	IAdmissionRound,
 	ICommitteeResponse,
+	IStatusHistory,
+	IComment,
+	IInterviewSlot,
+	IPublicInterviewSlot,
+	IInterviewInvitation,
+	IApplicantPortal,
+	IEmailTemplate,
+	IAuditLogEntry,
+	IAdmissionArchive,
+	IArchivedApplication,
+	IScheduledJob,
+	QuestionType,
+	ICommitteeQuestion,
+	AnswerValue,
+	IApplicationAnswer,
+	IApplicationAttachment,
+	IApplicationDuplicate,
 }
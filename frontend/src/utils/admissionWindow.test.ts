@@ -0,0 +1,104 @@
+import { IAdmissionRound, ICommittee } from '../types/types'
+import { formatDeadline, getCommitteeAdmissionWindow } from './admissionWindow'
+
+const round: IAdmissionRound = {
+	_id: 'round',
+	name: 'Opptak 2023',
+	start_date: '2023-03-01',
+	end_date: '2023-11-30',
+	time_zone: 'Europe/Oslo',
+	opens_at: '2023-02-28T23:00:00.000Z',
+	closes_at: '2023-11-30T23:00:00.000Z',
+	committees: [1],
+	created_date: new Date('2023-02-01T12:00:00.000Z'),
+}
+
+const committee: ICommittee = {
+	_id: 1,
+	name: 'Sprint',
+	slug: 'sprint',
+	accepts_admissions: true,
+	admission_start_date: null,
+	admission_end_date: null,
+	access_roles: [],
+}
+
+describe('getCommitteeAdmissionWindow', () => {
+	afterEach(() => {
+		jest.useRealTimers()
+	})
+
+	it('closes when the round closes without an end date of its own', () => {
+		const window = getCommitteeAdmissionWindow(committee, round)
+		expect(window.closesAt.toISOString()).toBe(round.closes_at)
+	})
+
+	it.each([
+		// Oslo springs forward on 2023-03-26, the day is 23 hours
+		['2023-03-25', 'Europe/Oslo', '2023-03-25T23:00:00.000Z'],
+		['2023-03-26', 'Europe/Oslo', '2023-03-26T22:00:00.000Z'],
+		// Oslo falls back on 2023-10-29, the day is 25 hours
+		['2023-10-28', 'Europe/Oslo', '2023-10-28T22:00:00.000Z'],
+		['2023-10-29', 'Europe/Oslo', '2023-10-29T23:00:00.000Z'],
+		// New York springs forward on 2023-03-12 and falls back on 2023-11-05
+		['2023-03-12', 'America/New_York', '2023-03-13T04:00:00.000Z'],
+		['2023-11-05', 'America/New_York', '2023-11-06T05:00:00.000Z'],
+	])('closes at midnight after %s in %s', (endDate, timeZone, closesAt) => {
+		const window = getCommitteeAdmissionWindow(
+			{ ...committee, admission_end_date: endDate },
+			{ ...round, time_zone: timeZone }
+		)
+		expect(window.closesAt.toISOString()).toBe(closesAt)
+	})
+
+	it.each([
+		['2023-03-25T22:59:00.000Z', false],
+		['2023-03-25T23:00:00.000Z', true],
+	])(
+		'has started by %s when starting the day Oslo springs forward',
+		(now, hasStarted) => {
+			jest.useFakeTimers().setSystemTime(new Date(now))
+			const window = getCommitteeAdmissionWindow(
+				{ ...committee, admission_start_date: '2023-03-26' },
+				round
+			)
+			expect(window.hasStarted).toBe(hasStarted)
+		}
+	)
+
+	it.each([
+		['2023-10-29T22:59:00.000Z', false],
+		['2023-10-29T23:00:00.000Z', true],
+	])('has ended by %s when ending the day Oslo falls back', (now, hasEnded) => {
+		jest.useFakeTimers().setSystemTime(new Date(now))
+		const window = getCommitteeAdmissionWindow(
+			{ ...committee, admission_end_date: '2023-10-29' },
+			round
+		)
+		expect(window.hasEnded).toBe(hasEnded)
+	})
+})
+
+describe('formatDeadline', () => {
+	it.each([
+		[
+			'2023-03-26T22:00:00.000Z',
+			'Europe/Oslo',
+			'26. mars 2023 kl. 23:59 (Europe/Oslo)',
+		],
+		[
+			'2023-10-29T23:00:00.000Z',
+			'Europe/Oslo',
+			'29. oktober 2023 kl. 23:59 (Europe/Oslo)',
+		],
+		[
+			'2023-03-13T04:00:00.000Z',
+			'America/New_York',
+			'12. mars 2023 kl. 23:59 (America/New_York)',
+		],
+	])('shows the last minute before %s in %s', (closesAt, timeZone, deadline) => {
+		expect(
+			formatDeadline({ ...round, closes_at: closesAt, time_zone: timeZone })
+		).toBe(deadline)
+	})
+})
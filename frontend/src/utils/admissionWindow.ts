@@ -0,0 +1,91 @@
+import dayjs from 'dayjs'
+import utc from 'dayjs/plugin/utc'
+import timezone from 'dayjs/plugin/timezone'
+import 'dayjs/locale/nb'
+import { IAdmissionRound, ICommittee } from '../types/types'
+
+dayjs.extend(utc)
+dayjs.extend(timezone)
+
+const DATE_FORMAT = 'YYYY-MM-DD'
+
+export const DEFAULT_TIME_ZONE = 'Europe/Oslo'
+
+// Parse a date (YYYY-MM-DD) as a local date, new Date() would parse it as UTC
+export function parseDate(date: string) {
+	return dayjs(date).toDate()
+}
+
+// The instant a date (YYYY-MM-DD) ends in the time zone of the round
+function getEndOfDate(date: string, timeZone: string) {
+	const dayAfter = dayjs(date).add(1, 'day').format(DATE_FORMAT)
+	return dayjs.tz(dayAfter, timeZone)
+}
+
+/**
+ * The dates the committee takes applications in the admission round. A
+ * committee can start later or end earlier than the round, never the opposite.
+ */
+export function getCommitteeAdmissionWindow(
+	committee: ICommittee,
+	admissionRound: IAdmissionRound
+) {
+	// The committee dates follow the time zone of the round
+	const today = dayjs().tz(admissionRound.time_zone).format(DATE_FORMAT)
+	const startDate =
+		committee.admission_start_date &&
+		committee.admission_start_date > admissionRound.start_date
+			? committee.admission_start_date
+			: admissionRound.start_date
+	const endDate =
+		committee.admission_end_date &&
+		committee.admission_end_date < admissionRound.end_date
+			? committee.admission_end_date
+			: admissionRound.end_date
+	return {
+		startDate,
+		closesAt:
+			endDate === admissionRound.end_date
+				? dayjs(admissionRound.closes_at)
+				: getEndOfDate(endDate, admissionRound.time_zone),
+		hasStarted: startDate <= today,
+		hasEnded: endDate < today,
+	}
+}
+
+export function getRemainingTimeText(closesAt: dayjs.Dayjs) {
+	const hoursLeft = closesAt.diff(dayjs(), 'hour')
+	if (hoursLeft < 1) return 'stenger snart'
+	if (hoursLeft < 24) return `${hoursLeft} timer igjen`
+	const daysLeft = Math.floor(hoursLeft / 24)
+	return daysLeft === 1 ? '1 dag igjen' : `${daysLeft} dager igjen`
+}
+
+/**
+ * Time left until the instant, like "2 d 04:12:09". Computed from the
+ * instant sent by the server, so it matches when the server closes the form.
+ */
+export function formatCountdown(closesAt: string, now: number = Date.now()) {
+	const secondsLeft = Math.max(
+		0,
+		Math.floor((new Date(closesAt).getTime() - now) / 1000)
+	)
+	const days = Math.floor(secondsLeft / 86400)
+	const time = [
+		Math.floor((secondsLeft % 86400) / 3600),
+		Math.floor((secondsLeft % 3600) / 60),
+		secondsLeft % 60,
+	]
+		.map((value) => value.toString().padStart(2, '0'))
+		.join(':')
+	return days ? `${days} d ${time}` : time
+}
+
+// The last minute of the round, in the time zone of the round
+export function formatDeadline(admissionRound: IAdmissionRound) {
+	return `${dayjs(admissionRound.closes_at)
+		.tz(admissionRound.time_zone)
+		.subtract(1, 'minute')
+		.locale('nb')
+		.format('D. MMMM YYYY [kl.] HH:mm')} (${admissionRound.time_zone})`
+}
@@ -0,0 +1,52 @@
+export const AUDIT_ACTION_TRANSLATIONS: Record<string, string> = {
+	wipe_admission_data: 'Arkiverte opptaket',
+	restore_admission_archive: 'Gjenopprettet arkivert opptak',
+	purge_admission_archive: 'Slettet arkivert opptak',
+	create_admission_round: 'Opprettet opptaksrunde',
+	update_admission_round: 'Endret opptaksrunde',
+	delete_admission_round: 'Slettet opptaksrunde',
+	toggle_accepts_admissions: 'Åpnet/stengte opptak',
+	update_admission_window: 'Endret søknadsperiode for utvalg',
+	create_scheduled_job: 'Planla åpning/stenging av opptak',
+	delete_scheduled_job: 'Avbrøt planlagt åpning/stenging',
+	create_committee_question: 'Opprettet søknadsspørsmål',
+	update_committee_question: 'Endret søknadsspørsmål',
+	delete_committee_question: 'Slettet søknadsspørsmål',
+	merge_applications: 'Slo sammen søknader',
+	update_status: 'Endret status',
+	create_interview_link: 'Lagde bookinglenke',
+	create_comment: 'Skrev kommentar',
+	delete_comment: 'Slettet kommentar',
+	create_interview_slot: 'Opprettet intervjutid',
+	delete_interview_slot: 'Slettet intervjutid',
+	book_interview_slot: 'Booket intervjutid',
+	update_email_template: 'Endret e-postmal',
+	delete_email_template: 'Tilbakestilte e-postmal',
+}
+
+export const AUDIT_TARGET_TRANSLATIONS: Record<string, string> = {
+	admission_round: 'Opptaksrunde',
+	admission_archive: 'Arkivert opptak',
+	committee: 'Utvalg',
+	scheduled_job: 'Planlagt åpning/stenging',
+	committee_question: 'Søknadsspørsmål',
+	application: 'Søknad',
+	status: 'Status',
+	comment: 'Kommentar',
+	interview_slot: 'Intervjutid',
+	email_template: 'E-postmal',
+}
+
+export function getAuditActionTranslation(action: string) {
+	return AUDIT_ACTION_TRANSLATIONS[action] || action
+}
+
+export function getAuditTargetTranslation(targetType: string) {
+	return AUDIT_TARGET_TRANSLATIONS[targetType] || targetType
+}
+
+// Show the stored before/after values as readable, indented JSON
+export function formatAuditValue(value: unknown) {
+	if (value === null || value === undefined) return '–'
+	return JSON.stringify(value, null, 2)
+}
@@ -1,7 +1,7 @@
 import { useEffect, useState } from 'react'
 import { Navigate, useLocation } from 'react-router-dom'
 import { verifyToken } from '../services/Auth'
-import { getUserCommittees, IRoleInCommittee } from '../services/Committees'
+import { getUserPermissions, IUserPermissions } from '../services/User'
 
 type RequireAuthProps = {
 	children: JSX.Element
@@ -10,15 +10,10 @@ type RequireAuthProps = {
 function RequireAuth({ children }: RequireAuthProps) {
 	const [authed, setAuthed] = useState<boolean>(false)
 	const [isLoading, setIsLoading] = useState<boolean>(true)
-	const [isTheOrganizer, setIsTheOrganizer] = useState<boolean>(false)
-	const [isInElectionCommittee, setIsInElectionCommittee] =
-		useState<boolean>(false)
+	const [permissions, setPermissions] = useState<IUserPermissions>()
 
 	const location = useLocation()
-	location.state = {
-		isOrganizer: isTheOrganizer,
-		isElectionCommittee: isInElectionCommittee,
-	}
+	location.state = { permissions }
 	useEffect(() => {
 		const requestAsync = async () => {
 			setIsLoading(true)
@@ -28,15 +23,8 @@ function RequireAuth({ children }: RequireAuthProps) {
 				if (response.status === 200) {
 					setAuthed(true)
 				}
-				// Check if user is organizer or election committee
-				const userCommittees = await getUserCommittees()
-				userCommittees.forEach((roleInCommittee: IRoleInCommittee) => {
-					if (roleInCommittee.committee.slug === 'hovedstyret') {
-						setIsTheOrganizer(true)
-					} else if (roleInCommittee.committee.slug === 'valgkomiteen') {
-						setIsInElectionCommittee(true)
-					}
-				})
+				// Get what the user is allowed to do
+				setPermissions(await getUserPermissions())
 				setIsLoading(false)
 			} catch (error) {
 				setIsLoading(false)
@@ -0,0 +1,13 @@
+// Let the browser save a file retrieved with axios
+function saveFile(data: Blob, fileName: string) {
+	const url = URL.createObjectURL(data)
+	const link = document.createElement('a')
+	link.href = url
+	link.download = fileName
+	document.body.appendChild(link)
+	link.click()
+	link.remove()
+	URL.revokeObjectURL(url)
+}
+
+export default saveFile
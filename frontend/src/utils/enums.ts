@@ -7,6 +7,7 @@ enum StatusTypes {
 	OFFER_DECLINED = 'Offer declined',
 	ACCEPTED = 'Accepted',
 	REJECTED = 'Rejected',
+	WITHDRAWN = 'Withdrawn',
 }
 
 export default StatusTypes
@@ -2,12 +2,14 @@ function constructSearchFilterQuery(
 	chosenCommittees: string[],
 	sort: string,
 	status: string,
-	nameSearch: string
+	nameSearch: string,
+	round: string
 ) {
 	let committeesFilterString = ''
 	let statusString = ''
 	let sortString = `sort=${sort}`
 	let searchString = ''
+	let roundString = ''
 	chosenCommittees.forEach((committee: string) => {
 		committeesFilterString += `&committee=${committee}`
 	})
@@ -18,6 +20,9 @@ function constructSearchFilterQuery(
 	if (nameSearch !== '') {
 		searchString = `name=${nameSearch}`
 	}
+	if (round !== '') {
+		roundString = `round=${round}`
+	}
 
 	let searchQuery = new URLSearchParams(
 		committeesFilterString +
@@ -26,7 +31,9 @@ function constructSearchFilterQuery(
 			'&' +
 			sortString +
 			'&' +
-			searchString
+			searchString +
+			'&' +
+			roundString
 	)
 
 	return searchQuery
@@ -0,0 +1,17 @@
+import dayjs from 'dayjs'
+import { IInterviewSlot } from '../types/types'
+require('dayjs/locale/nb')
+
+export function formatInterviewTime(
+	slot: Pick<IInterviewSlot, 'start_time' | 'end_time'>
+) {
+	const start = dayjs(slot.start_time).locale('nb')
+	const end = dayjs(slot.end_time).locale('nb')
+	return `${start.format('ddd D. MMM HH:mm')}–${end.format('HH:mm')}`
+}
+
+export function formatInterviewSlot(
+	slot: Pick<IInterviewSlot, 'start_time' | 'end_time' | 'location'>
+) {
+	return `${formatInterviewTime(slot)}, ${slot.location}`
+}
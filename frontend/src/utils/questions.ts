@@ -0,0 +1,32 @@
+import { AnswerValue, QuestionType } from '../types/types'
+
+export const QUESTION_TYPE_TRANSLATIONS: Record<QuestionType, string> = {
+	short_text: 'Kort tekst',
+	long_text: 'Lang tekst',
+	single_choice: 'Ett valg',
+	multiple_choice: 'Flere valg',
+	yes_no: 'Ja/nei',
+}
+
+// Same limits as the server
+export const MAX_ANSWER_LENGTH: Partial<Record<QuestionType, number>> = {
+	short_text: 200,
+	long_text: 2500,
+}
+
+export function isChoiceQuestion(type: QuestionType) {
+	return type === 'single_choice' || type === 'multiple_choice'
+}
+
+export function isAnswered(value: AnswerValue | undefined) {
+	if (value === undefined) return false
+	if (typeof value === 'string') return value.trim().length > 0
+	if (Array.isArray(value)) return value.length > 0
+	return true
+}
+
+export function formatAnswer(value: AnswerValue) {
+	if (typeof value === 'boolean') return value ? 'Ja' : 'Nei'
+	if (Array.isArray(value)) return value.join(', ')
+	return value
+}
@@ -7,6 +7,7 @@ import {
 	PhoneIncoming,
 	PhoneOff,
 	QuestionMark,
+	UserMinus,
 	UserOff,
 	UserPlus,
 	X,
@@ -30,6 +31,8 @@ export function getStatusTranslation(status: StatusTypes) {
 			return 'Akseptert'
 		case StatusTypes.REJECTED:
 			return 'Avvist'
+		case StatusTypes.WITHDRAWN:
+			return 'Trukket'
 		default:
 			return 'Ukjent status'
 	}
@@ -53,6 +56,8 @@ export function getStatus(status: string) {
 			return StatusTypes.ACCEPTED
 		case 'Rejected':
 			return StatusTypes.REJECTED
+		case 'Withdrawn':
+			return StatusTypes.WITHDRAWN
 		default:
 			return 'Ukjent status'
 	}
@@ -76,6 +81,8 @@ export function getStatusColor(status: StatusTypes, theme: MantineTheme) {
 			return theme.colors.ntnui_green[9]
 		case StatusTypes.REJECTED:
 			return theme.colors.ntnui_red[9]
+		case StatusTypes.WITHDRAWN:
+			return theme.colors.gray[7]
 		default:
 			return '#000000'
 	}
@@ -99,6 +106,8 @@ export function getIconForStatus(status: string) {
 			return <Check size={20} />
 		case StatusTypes.REJECTED:
 			return <X size={20} />
+		case StatusTypes.WITHDRAWN:
+			return <UserMinus size={20} />
 		default:
 			return <QuestionMark size={20} />
 	}